@@ -1,5 +1,9 @@
 import { BaseAdapter } from './BaseAdapter.js';
-import type { Message, ChatResponse, StreamChunk, ModelConfig } from '../types.ts';
+import { messageText } from './content.js';
+import type { Message, MessageContent, ChatResponse, ChatOptions, StreamChunk, ModelConfig, TokenUsage, ToolCall, ToolDefinition } from '../types.ts';
+
+// Anthropic 支持的 base64 图片格式
+const ANTHROPIC_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
 
 export class AnthropicAdapter extends BaseAdapter {
   constructor(config: ModelConfig) {
@@ -11,7 +15,7 @@ export class AnthropicAdapter extends BaseAdapter {
   }
 
   async validateConfig(): Promise<boolean> {
-    if (!this.config.apiKey) {
+    if (!this.apiKey) {
       console.error('Anthropic Adapter: apiKey is required');
       return false;
     }
@@ -23,20 +27,87 @@ export class AnthropicAdapter extends BaseAdapter {
   }
 
   // 转换消息格式为 Anthropic 格式
+  // 工具调用转为 tool_use 块，连续的工具结果合并为一条 user 消息中的 tool_result 块
   private convertMessages(messages: Message[]): { system?: string; messages: any[] } {
     const systemMessage = messages.find(m => m.role === 'system');
     const otherMessages = messages.filter(m => m.role !== 'system');
-    
+    const converted: Array<{ role: 'user' | 'assistant'; content: unknown }> = [];
+
+    for (const m of otherMessages) {
+      if (m.role === 'tool') {
+        const block = { type: 'tool_result', tool_use_id: m.toolCallId, content: messageText(m.content) };
+        const last = converted[converted.length - 1];
+        if (last?.role === 'user' && Array.isArray(last.content)) {
+          last.content.push(block);
+        } else {
+          converted.push({ role: 'user', content: [block] });
+        }
+        continue;
+      }
+
+      if (m.role === 'assistant' && m.toolCalls?.length) {
+        const text = messageText(m.content);
+        const blocks: unknown[] = text ? [{ type: 'text', text }] : [];
+        for (const call of m.toolCalls) {
+          blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+        }
+        converted.push({ role: 'assistant', content: blocks });
+        continue;
+      }
+
+      // 只有用户消息可以包含图片和文件
+      converted.push({
+        role: m.role as 'user' | 'assistant',
+        content: m.role === 'user' ? this.convertContent(m.content) : messageText(m.content)
+      });
+    }
+
     return {
-      system: systemMessage?.content,
-      messages: otherMessages.map(m => ({
-        role: m.role,
-        content: m.content
-      }))
+      system: systemMessage && messageText(systemMessage.content),
+      messages: converted
     };
   }
 
-  async chat(messages: Message[]): Promise<ChatResponse> {
+  // 转换多模态内容：图片转为 image 块，PDF 和纯文本文件转为 document 块
+  private convertContent(content: MessageContent): string | Array<Record<string, unknown>> {
+    if (typeof content === 'string') return content;
+
+    return content.map(part => {
+      switch (part.type) {
+        case 'text':
+          return { type: 'text', text: part.text };
+        case 'image':
+          if (part.url) return { type: 'image', source: { type: 'url', url: part.url } };
+          if (!ANTHROPIC_IMAGE_TYPES.includes(part.mimeType || '')) {
+            throw this.unsupportedContent(part, `图片格式须为 ${ANTHROPIC_IMAGE_TYPES.join(' / ')}`);
+          }
+          return { type: 'image', source: { type: 'base64', media_type: part.mimeType, data: part.data } };
+        case 'file':
+          if (part.mimeType === 'application/pdf') {
+            const source = part.url
+              ? { type: 'url', url: part.url }
+              : { type: 'base64', media_type: 'application/pdf', data: part.data };
+            return { type: 'document', source, title: part.name };
+          }
+          if (part.mimeType.startsWith('text/') && part.data) {
+            const text = Buffer.from(part.data, 'base64').toString('utf8');
+            return { type: 'document', source: { type: 'text', media_type: 'text/plain', data: text }, title: part.name };
+          }
+          throw this.unsupportedContent(part, '只支持 PDF 和 base64 上传的纯文本文件');
+      }
+    });
+  }
+
+  // 转换工具定义为 Anthropic 格式
+  private convertTools(tools: ToolDefinition[]): Array<Record<string, unknown>> {
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters
+    }));
+  }
+
+  async chat(messages: Message[], options?: ChatOptions): Promise<ChatResponse> {
     this.setStatus('thinking');
 
     try {
@@ -53,26 +124,35 @@ export class AnthropicAdapter extends BaseAdapter {
         body.system = system;
       }
 
-      const response = await fetch(`${this.config.baseUrl}/v1/messages`, {
+      if (options?.tools?.length) {
+        body.tools = this.convertTools(options.tools);
+      }
+
+      const response = await this.fetchWithRetry(`${this.config.baseUrl}/v1/messages`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-api-key': this.config.apiKey!,
+          'x-api-key': this.apiKey!,
           'anthropic-version': '2023-06-01'
         },
         body: JSON.stringify(body)
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`HTTP ${response.status}: ${error}`);
-      }
+      }, options);
 
       const data = await response.json();
       this.setStatus('success');
 
+      const blocks: Array<{ type: string; text?: string; id?: string; name?: string; input?: unknown }> = data.content || [];
+      const toolCalls: ToolCall[] = blocks
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({
+          id: block.id || '',
+          name: block.name || '',
+          arguments: this.parseToolArguments(block.input)
+        }));
+
       return {
-        content: data.content?.[0]?.text || '',
+        content: blocks.find(block => block.type === 'text')?.text || '',
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         usage: data.usage ? {
           promptTokens: data.usage.input_tokens,
           completionTokens: data.usage.output_tokens,
@@ -80,14 +160,14 @@ export class AnthropicAdapter extends BaseAdapter {
         } : undefined
       };
     } catch (error) {
-      this.setStatus('error');
+      this.markFailed(error, options);
       throw error;
     } finally {
       setTimeout(() => this.setStatus('idle'), 1000);
     }
   }
 
-  async *streamChat(messages: Message[]): AsyncGenerator<StreamChunk, void, unknown> {
+  async *streamChat(messages: Message[], options?: ChatOptions): AsyncGenerator<StreamChunk, void, unknown> {
     this.setStatus('thinking');
 
     try {
@@ -105,20 +185,19 @@ export class AnthropicAdapter extends BaseAdapter {
         body.system = system;
       }
 
-      const response = await fetch(`${this.config.baseUrl}/v1/messages`, {
+      if (options?.tools?.length) {
+        body.tools = this.convertTools(options.tools);
+      }
+
+      const response = await this.fetchWithRetry(`${this.config.baseUrl}/v1/messages`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-api-key': this.config.apiKey!,
+          'x-api-key': this.apiKey!,
           'anthropic-version': '2023-06-01'
         },
         body: JSON.stringify(body)
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`HTTP ${response.status}: ${error}`);
-      }
+      }, options);
 
       if (!response.body) {
         throw new Error('Response body is null');
@@ -128,6 +207,23 @@ export class AnthropicAdapter extends BaseAdapter {
 
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
+      // message_start 携带输入用量，message_delta 携带累计输出用量
+      let inputTokens = 0;
+      let outputTokens = 0;
+      const collectUsage = (): TokenUsage | undefined => {
+        if (!inputTokens && !outputTokens) return undefined;
+        return { promptTokens: inputTokens, completionTokens: outputTokens, totalTokens: inputTokens + outputTokens };
+      };
+      // tool_use 块的参数以 input_json_delta 增量下发，按块 index 累积
+      const pendingToolCalls = new Map<number, { id: string; name: string; input: string }>();
+      const collectToolCalls = (): ToolCall[] | undefined => {
+        if (pendingToolCalls.size === 0) return undefined;
+        return Array.from(pendingToolCalls.values()).map(call => ({
+          id: call.id,
+          name: call.name,
+          arguments: this.parseToolArguments(call.input)
+        }));
+      };
 
       while (true) {
         const { done, value } = await reader.read();
@@ -143,15 +239,40 @@ export class AnthropicAdapter extends BaseAdapter {
           
           if (data === '[DONE]') {
             this.setStatus('success');
-            yield { content: '', done: true };
+            yield { content: '', done: true, toolCalls: collectToolCalls(), usage: collectUsage() };
             return;
           }
 
           try {
             const parsed = JSON.parse(data);
             
+            // 处理用量事件
+            if (parsed.type === 'message_start' && parsed.message?.usage) {
+              inputTokens = parsed.message.usage.input_tokens || 0;
+              outputTokens = parsed.message.usage.output_tokens || 0;
+            }
+            if (parsed.type === 'message_delta' && parsed.usage) {
+              outputTokens = parsed.usage.output_tokens ?? outputTokens;
+            }
+
+            // 处理 content_block_start 事件（记录 tool_use 块）
+            if (parsed.type === 'content_block_start' && parsed.content_block?.type === 'tool_use') {
+              pendingToolCalls.set(parsed.index ?? 0, {
+                id: parsed.content_block.id,
+                name: parsed.content_block.name,
+                input: ''
+              });
+            }
+
             // 处理 content_block_delta 事件
             if (parsed.type === 'content_block_delta') {
+              if (parsed.delta?.type === 'input_json_delta') {
+                const pending = pendingToolCalls.get(parsed.index ?? 0);
+                if (pending) {
+                  pending.input += parsed.delta.partial_json || '';
+                }
+              }
+
               const content = parsed.delta?.text || '';
               if (content) {
                 yield { content, done: false };
@@ -161,7 +282,7 @@ export class AnthropicAdapter extends BaseAdapter {
             // 处理 message_stop 事件
             if (parsed.type === 'message_stop') {
               this.setStatus('success');
-              yield { content: '', done: true };
+              yield { content: '', done: true, toolCalls: collectToolCalls(), usage: collectUsage() };
               return;
             }
           } catch (e) {
@@ -171,10 +292,10 @@ export class AnthropicAdapter extends BaseAdapter {
       }
 
       this.setStatus('success');
-      yield { content: '', done: true };
+      yield { content: '', done: true, toolCalls: collectToolCalls(), usage: collectUsage() };
 
     } catch (error) {
-      this.setStatus('error');
+      this.markFailed(error, options);
       throw error;
     } finally {
       setTimeout(() => this.setStatus('idle'), 1000);
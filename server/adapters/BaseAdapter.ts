@@ -1,4 +1,24 @@
-import type { Message, ChatResponse, StreamChunk, AgentStatus, ModelConfig } from '../types.ts';
+import type { Message, ChatResponse, ChatOptions, StreamChunk, AgentStatus, ModelConfig, ModelInfo, ToolCall, ContentPart } from '../types.ts';
+import { describePart } from './content.js';
+import { catalogModels } from './modelCatalog.js';
+import { secretVault } from '../manager/SecretVault.js';
+import {
+  ProviderError,
+  circuitBreakers,
+  computeBackoff,
+  errorFromResponse,
+  getResilienceConfig,
+  sleep
+} from './resilience.js';
+
+// 模型列表请求超时
+const LIST_MODELS_TIMEOUT_MS = 10000;
+
+// 判断错误是否由取消引起（signal 已中止，或 fetch 抛出的 AbortError / TimeoutError）
+export function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted) return true;
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError');
+}
 
 export abstract class BaseAdapter {
   protected config: ModelConfig;
@@ -10,10 +30,135 @@ export abstract class BaseAdapter {
   }
 
   // 抽象方法：普通对话
-  abstract chat(messages: Message[]): Promise<ChatResponse>;
+  abstract chat(messages: Message[], options?: ChatOptions): Promise<ChatResponse>;
 
   // 抽象方法：流式对话
-  abstract streamChat(messages: Message[]): AsyncGenerator<StreamChunk, void, unknown>;
+  abstract streamChat(messages: Message[], options?: ChatOptions): AsyncGenerator<StreamChunk, void, unknown>;
+
+  // 解析工具调用参数（JSON 字符串或对象）
+  protected parseToolArguments(raw: unknown): ToolCall['arguments'] {
+    if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+      return raw as ToolCall['arguments'];
+    }
+    if (typeof raw === 'string' && raw.trim()) {
+      try {
+        const parsed = JSON.parse(raw);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          return parsed;
+        }
+      } catch {
+        console.error('Failed to parse tool arguments:', raw.slice(0, 200));
+      }
+    }
+    return {};
+  }
+
+  // 消息包含该供应商不支持的片段：不发出请求，直接抛出（不计入熔断）
+  protected unsupportedContent(part: ContentPart, reason?: string): ProviderError {
+    const message = `${this.config.name || this.config.provider} (${this.config.model}) 不支持${describePart(part)}${reason ? `：${reason}` : ''}`;
+    return new ProviderError(message, { kind: 'unsupported', provider: this.providerKey });
+  }
+
+  // 请求时解析 API Key：持久化的配置只带密钥库引用，连接测试、模型发现等临时配置可以直接携带明文
+  protected get apiKey(): string | undefined {
+    return this.config.apiKeyRef ? secretVault.resolve(this.config.apiKeyRef) : this.config.apiKey;
+  }
+
+  // 供应商标识（熔断器按此区分，同一服务地址的 Agent 共享熔断状态）
+  protected get providerKey(): string {
+    return this.config.baseUrl ? `${this.config.provider}:${this.config.baseUrl}` : this.config.provider;
+  }
+
+  // 统一的重试与熔断：按错误类型决定是否重试，遵守 Retry-After，指数退避加随机抖动
+  protected async withResilience<T>(operation: () => Promise<T>, options?: ChatOptions): Promise<T> {
+    const config = getResilienceConfig();
+    const provider = this.providerKey;
+
+    for (let attempt = 0; ; attempt++) {
+      if (!circuitBreakers.canRequest(provider)) {
+        const retryAt = circuitBreakers.getState(provider)?.retryAt ?? Date.now();
+        throw new ProviderError(`Circuit open for ${provider} until ${new Date(retryAt).toISOString()}`, {
+          kind: 'circuit_open',
+          provider,
+          retryAfterMs: Math.max(0, retryAt - Date.now())
+        });
+      }
+
+      try {
+        const result = await operation();
+        circuitBreakers.recordSuccess(provider);
+        return result;
+      } catch (error) {
+        if (isAbortError(error, options?.signal) || !(error instanceof ProviderError)) {
+          circuitBreakers.releaseProbe(provider);
+          throw error;
+        }
+
+        circuitBreakers.recordFailure(provider, error);
+        // 本次失败触发熔断后不再等待重试
+        const opened = circuitBreakers.getState(provider)?.state === 'open';
+        if (!error.retryable || opened || attempt >= config.maxRetries) throw error;
+
+        const delay = computeBackoff(attempt, config, error.retryAfterMs);
+        console.warn(`[${provider}] ${error.kind} error, retry ${attempt + 1}/${config.maxRetries} in ${delay}ms: ${error.message.slice(0, 120)}`);
+        await sleep(delay, options?.signal);
+      }
+    }
+  }
+
+  // 发起供应商请求：网络错误和非 2xx 响应转换为 ProviderError 并按策略重试
+  protected fetchWithRetry(url: string, init: RequestInit, options?: ChatOptions): Promise<Response> {
+    return this.withResilience(async () => {
+      let response: Response;
+      try {
+        response = await fetch(url, { ...init, signal: options?.signal });
+      } catch (error) {
+        if (isAbortError(error, options?.signal)) throw error;
+        throw new ProviderError(error instanceof Error ? error.message : String(error), {
+          kind: 'network',
+          provider: this.providerKey
+        });
+      }
+
+      if (!response.ok) {
+        throw await errorFromResponse(response, this.providerKey);
+      }
+      return response;
+    }, options);
+  }
+
+  // 查询模型列表：不走重试与熔断，列表失败不应影响对话请求
+  protected async fetchModelList<T>(url: string, init: RequestInit = {}, signal?: AbortSignal): Promise<T> {
+    const timeout = AbortSignal.timeout(LIST_MODELS_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+    } catch (error) {
+      // 调用方取消直接抛出；超时按网络错误处理
+      if (signal?.aborted) throw error;
+      const message = timeout.aborted ? `Model list request timed out after ${LIST_MODELS_TIMEOUT_MS}ms` : error instanceof Error ? error.message : String(error);
+      throw new ProviderError(message, {
+        kind: 'network',
+        provider: this.providerKey
+      });
+    }
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, this.providerKey);
+    }
+    return await response.json() as T;
+  }
+
+  // 可用模型列表：没有列表接口的供应商使用内置目录
+  async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    signal?.throwIfAborted();
+    return catalogModels(this.config.provider);
+  }
+
+  // 请求失败时更新状态：取消不算错误，直接回到 idle
+  protected markFailed(error: unknown, options?: ChatOptions): void {
+    this.setStatus(isAbortError(error, options?.signal) ? 'idle' : 'error');
+  }
 
   // 获取当前状态
   getStatus(): AgentStatus {
@@ -0,0 +1,98 @@
+import { BaseAdapter, isAbortError } from './BaseAdapter.js';
+import { ProviderError } from './resilience.js';
+import type { Message, ChatResponse, ChatOptions, StreamChunk, ModelConfig, ModelInfo, ServedModel } from '../types.js';
+
+/**
+ * 备用模型链：按顺序尝试主模型和 fallbacks，遇到可重试错误（限流、服务端、网络、熔断）或不支持的内容时切换到下一个
+ * 每个模型自身的重试与熔断仍由其适配器负责；流式请求一旦输出内容就不再切换，避免拼接两个模型的回答
+ */
+export class FallbackAdapter extends BaseAdapter {
+  private chain: BaseAdapter[];
+
+  constructor(config: ModelConfig, chain: BaseAdapter[]) {
+    super(config);
+    this.chain = chain;
+
+    // 链上各适配器的状态变化直接转发
+    for (const adapter of chain) {
+      adapter.onStatusChange(status => this.setStatus(status));
+    }
+  }
+
+  async validateConfig(): Promise<boolean> {
+    const results = await Promise.all(this.chain.map(adapter => adapter.validateConfig()));
+    return results.some(Boolean);
+  }
+
+  // 模型列表以主模型为准
+  listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    return this.chain[0].listModels(signal);
+  }
+
+  async chat(messages: Message[], options?: ChatOptions): Promise<ChatResponse> {
+    const failures: NonNullable<ServedModel['failures']> = [];
+
+    for (let index = 0; ; index++) {
+      const adapter = this.chain[index];
+      try {
+        const response = await adapter.chat(messages, options);
+        return { ...response, servedBy: this.servedBy(index, failures) };
+      } catch (error) {
+        if (!this.shouldFallback(error, index, options)) throw error;
+        failures.push(this.recordFailure(index, error));
+      }
+    }
+  }
+
+  async *streamChat(messages: Message[], options?: ChatOptions): AsyncGenerator<StreamChunk, void, unknown> {
+    const failures: NonNullable<ServedModel['failures']> = [];
+
+    for (let index = 0; ; index++) {
+      const adapter = this.chain[index];
+      let started = false;
+      try {
+        for await (const chunk of adapter.streamChat(messages, options)) {
+          if (chunk.done) {
+            yield { ...chunk, servedBy: this.servedBy(index, failures) };
+            continue;
+          }
+          started = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        if (started || !this.shouldFallback(error, index, options)) throw error;
+        failures.push(this.recordFailure(index, error));
+      }
+    }
+  }
+
+  clearListeners(): void {
+    super.clearListeners();
+    this.chain.forEach(adapter => adapter.clearListeners());
+  }
+
+  // ========== 工具方法 ==========
+
+  // 不支持的内容（如图片）也切换，备用模型可能支持
+  private shouldFallback(error: unknown, index: number, options?: ChatOptions): boolean {
+    if (index >= this.chain.length - 1 || isAbortError(error, options?.signal)) return false;
+    return error instanceof ProviderError && (error.retryable || error.kind === 'circuit_open' || error.kind === 'unsupported');
+  }
+
+  private recordFailure(index: number, error: unknown): { model: string; error: string } {
+    const { model } = this.chain[index].getModelInfo();
+    const next = this.chain[index + 1].getModelInfo();
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[FallbackAdapter] ${model} failed (${message.slice(0, 120)}), falling back to ${next.model}`);
+    return { model, error: message };
+  }
+
+  private servedBy(index: number, failures: NonNullable<ServedModel['failures']>): ServedModel {
+    return {
+      ...this.chain[index].getModelInfo(),
+      fallbackIndex: index,
+      failures: failures.length > 0 ? [...failures] : undefined
+    };
+  }
+}
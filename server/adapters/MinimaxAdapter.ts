@@ -1,19 +1,26 @@
 import { BaseAdapter } from './BaseAdapter.js';
-import type { Message, ChatResponse, StreamChunk, ModelConfig } from '../types.js';
+import { messageText, toContentParts } from './content.js';
+import type { Message, MessageContent, ChatResponse, ChatOptions, StreamChunk, ModelConfig, TokenUsage, ToolCall, ToolDefinition } from '../types.js';
 
 export class MinimaxAdapter extends BaseAdapter {
   constructor(config: ModelConfig) {
     super(config);
-    this.config.baseUrl = 'https://api.minimaxi.com/anthropic';
-    this.config.model = 'MiniMax-M2.5';
-    // 从环境变量获取 API key
-    if (!this.config.apiKey) {
-      this.config.apiKey = process.env.MINIMAX_API_KEY;
+    // MiniMax 默认地址与模型（可被路由配置覆盖）
+    if (!this.config.baseUrl) {
+      this.config.baseUrl = 'https://api.minimaxi.com/anthropic';
+    }
+    if (!this.config.model) {
+      this.config.model = 'MiniMax-M2.5';
     }
   }
 
+  // 未配置 API key 时使用环境变量（请求时读取，不写入配置）
+  protected get apiKey(): string | undefined {
+    return super.apiKey || process.env.MINIMAX_API_KEY;
+  }
+
   async validateConfig(): Promise<boolean> {
-    if (!this.config.apiKey) {
+    if (!this.apiKey) {
       console.error('Minimax Adapter: apiKey is required');
       return false;
     }
@@ -25,20 +32,62 @@ export class MinimaxAdapter extends BaseAdapter {
   }
 
   // 转换消息格式为 Anthropic 格式
+  // 工具调用转为 tool_use 块，连续的工具结果合并为一条 user 消息中的 tool_result 块
   private convertMessages(messages: Message[]): { system?: string; messages: any[] } {
     const systemMessage = messages.find(m => m.role === 'system');
     const otherMessages = messages.filter(m => m.role !== 'system');
-    
+    const converted: Array<{ role: 'user' | 'assistant'; content: unknown }> = [];
+
+    for (const m of otherMessages) {
+      if (m.role === 'tool') {
+        const block = { type: 'tool_result', tool_use_id: m.toolCallId, content: messageText(m.content) };
+        const last = converted[converted.length - 1];
+        if (last?.role === 'user' && Array.isArray(last.content)) {
+          last.content.push(block);
+        } else {
+          converted.push({ role: 'user', content: [block] });
+        }
+        continue;
+      }
+
+      if (m.role === 'assistant' && m.toolCalls?.length) {
+        const text = messageText(m.content);
+        const blocks: unknown[] = text ? [{ type: 'text', text }] : [];
+        for (const call of m.toolCalls) {
+          blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+        }
+        converted.push({ role: 'assistant', content: blocks });
+        continue;
+      }
+
+      converted.push({ role: m.role as 'user' | 'assistant', content: this.convertContent(m.content) });
+    }
+
     return {
-      system: systemMessage?.content,
-      messages: otherMessages.map(m => ({
-        role: m.role,
-        content: m.content
-      }))
+      system: systemMessage && messageText(systemMessage.content),
+      messages: converted
     };
   }
 
-  async chat(messages: Message[]): Promise<ChatResponse> {
+  // MiniMax 的 Anthropic 兼容接口不支持 image / document 块，消息只能包含文本
+  private convertContent(content: MessageContent): string {
+    const attachment = toContentParts(content).find(part => part.type !== 'text');
+    if (attachment) {
+      throw this.unsupportedContent(attachment, 'MiniMax 的 Anthropic 兼容接口只支持文本');
+    }
+    return messageText(content);
+  }
+
+  // 转换工具定义为 Anthropic 格式
+  private convertTools(tools: ToolDefinition[]): Array<Record<string, unknown>> {
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters
+    }));
+  }
+
+  async chat(messages: Message[], options?: ChatOptions): Promise<ChatResponse> {
     this.setStatus('thinking');
 
     try {
@@ -55,19 +104,18 @@ export class MinimaxAdapter extends BaseAdapter {
         body.system = system;
       }
 
-      const response = await fetch(`${this.config.baseUrl}/v1/messages`, {
+      if (options?.tools?.length) {
+        body.tools = this.convertTools(options.tools);
+      }
+
+      const response = await this.fetchWithRetry(`${this.config.baseUrl}/v1/messages`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey!}`
+          'Authorization': `Bearer ${this.apiKey!}`
         },
         body: JSON.stringify(body)
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`HTTP ${response.status}: ${error}`);
-      }
+      }, options);
 
       const data = await response.json();
       console.log('[MinimaxAdapter] Raw response:', JSON.stringify(data).slice(0, 1000));
@@ -99,8 +147,20 @@ export class MinimaxAdapter extends BaseAdapter {
 
       console.log('[MinimaxAdapter] Extracted content:', content.slice(0, 200));
 
+      // 提取 tool_use 块
+      const toolCalls: ToolCall[] = Array.isArray(data.content)
+        ? data.content
+            .filter((item: { type?: string }) => item.type === 'tool_use')
+            .map((item: { id: string; name: string; input: unknown }) => ({
+              id: item.id,
+              name: item.name,
+              arguments: this.parseToolArguments(item.input)
+            }))
+        : [];
+
       return {
         content: content,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         usage: data.usage ? {
           promptTokens: data.usage.input_tokens,
           completionTokens: data.usage.output_tokens,
@@ -108,14 +168,14 @@ export class MinimaxAdapter extends BaseAdapter {
         } : undefined
       };
     } catch (error) {
-      this.setStatus('error');
+      this.markFailed(error, options);
       throw error;
     } finally {
       setTimeout(() => this.setStatus('idle'), 1000);
     }
   }
 
-  async *streamChat(messages: Message[]): AsyncGenerator<StreamChunk, void, unknown> {
+  async *streamChat(messages: Message[], options?: ChatOptions): AsyncGenerator<StreamChunk, void, unknown> {
     this.setStatus('thinking');
 
     try {
@@ -133,19 +193,18 @@ export class MinimaxAdapter extends BaseAdapter {
         body.system = system;
       }
 
-      const response = await fetch(`${this.config.baseUrl}/v1/messages`, {
+      if (options?.tools?.length) {
+        body.tools = this.convertTools(options.tools);
+      }
+
+      const response = await this.fetchWithRetry(`${this.config.baseUrl}/v1/messages`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey!}`
+          'Authorization': `Bearer ${this.apiKey!}`
         },
         body: JSON.stringify(body)
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`HTTP ${response.status}: ${error}`);
-      }
+      }, options);
 
       if (!response.body) {
         throw new Error('Response body is null');
@@ -155,6 +214,23 @@ export class MinimaxAdapter extends BaseAdapter {
 
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
+      // message_start 携带输入用量，message_delta 携带累计输出用量
+      let inputTokens = 0;
+      let outputTokens = 0;
+      const collectUsage = (): TokenUsage | undefined => {
+        if (!inputTokens && !outputTokens) return undefined;
+        return { promptTokens: inputTokens, completionTokens: outputTokens, totalTokens: inputTokens + outputTokens };
+      };
+      // tool_use 块的参数以 input_json_delta 增量下发，按块 index 累积
+      const pendingToolCalls = new Map<number, { id: string; name: string; input: string }>();
+      const collectToolCalls = (): ToolCall[] | undefined => {
+        if (pendingToolCalls.size === 0) return undefined;
+        return Array.from(pendingToolCalls.values()).map(call => ({
+          id: call.id,
+          name: call.name,
+          arguments: this.parseToolArguments(call.input)
+        }));
+      };
 
       while (true) {
         const { done, value } = await reader.read();
@@ -170,15 +246,40 @@ export class MinimaxAdapter extends BaseAdapter {
           
           if (data === '[DONE]') {
             this.setStatus('success');
-            yield { content: '', done: true };
+            yield { content: '', done: true, toolCalls: collectToolCalls(), usage: collectUsage() };
             return;
           }
 
           try {
             const parsed = JSON.parse(data);
             
+            // 处理用量事件
+            if (parsed.type === 'message_start' && parsed.message?.usage) {
+              inputTokens = parsed.message.usage.input_tokens || 0;
+              outputTokens = parsed.message.usage.output_tokens || 0;
+            }
+            if (parsed.type === 'message_delta' && parsed.usage) {
+              outputTokens = parsed.usage.output_tokens ?? outputTokens;
+            }
+
+            // 处理 content_block_start 事件（记录 tool_use 块）
+            if (parsed.type === 'content_block_start' && parsed.content_block?.type === 'tool_use') {
+              pendingToolCalls.set(parsed.index ?? 0, {
+                id: parsed.content_block.id,
+                name: parsed.content_block.name,
+                input: ''
+              });
+            }
+
             // 处理 content_block_delta 事件
             if (parsed.type === 'content_block_delta') {
+              if (parsed.delta?.type === 'input_json_delta') {
+                const pending = pendingToolCalls.get(parsed.index ?? 0);
+                if (pending) {
+                  pending.input += parsed.delta.partial_json || '';
+                }
+              }
+
               const content = parsed.delta?.text || '';
               if (content) {
                 yield { content, done: false };
@@ -188,7 +289,7 @@ export class MinimaxAdapter extends BaseAdapter {
             // 处理 message_stop 事件
             if (parsed.type === 'message_stop') {
               this.setStatus('success');
-              yield { content: '', done: true };
+              yield { content: '', done: true, toolCalls: collectToolCalls(), usage: collectUsage() };
               return;
             }
           } catch (e) {
@@ -198,10 +299,10 @@ export class MinimaxAdapter extends BaseAdapter {
       }
 
       this.setStatus('success');
-      yield { content: '', done: true };
+      yield { content: '', done: true, toolCalls: collectToolCalls(), usage: collectUsage() };
 
     } catch (error) {
-      this.setStatus('error');
+      this.markFailed(error, options);
       throw error;
     } finally {
       setTimeout(() => this.setStatus('idle'), 1000);
@@ -0,0 +1,332 @@
+import { randomUUID } from 'crypto';
+import { BaseAdapter } from './BaseAdapter.js';
+import { ProviderError, errorFromResponse, sleep } from './resilience.js';
+import { describePart, messageText, toContentParts } from './content.js';
+import type { Message, ChatResponse, ChatOptions, StreamChunk, ModelConfig, ToolCall } from '../types.js';
+
+// 脚本化响应
+export interface MockResponse {
+  content: string;
+  toolCalls?: Array<Omit<ToolCall, 'id'> & { id?: string }>;
+}
+
+// 规则：匹配最后一条 user 消息时返回指定响应
+export interface MockRule {
+  match: string | RegExp;
+  response: MockResponse | ((messages: Message[]) => MockResponse);
+}
+
+// 故障注入方式：error 立即抛错，timeout 挂起 timeoutMs 后抛错（用于触发调度器超时）
+export type MockFailureMode = 'error' | 'timeout';
+
+export interface MockProviderConfig {
+  latencyMs: number;        // 首次响应延迟
+  chunkDelayMs: number;     // 流式分片间隔
+  chunkSize: number;        // 每个分片的字符数
+  failureRate: number;      // 随机失败概率 0-1
+  failNext: number;         // 接下来 N 次调用必定失败
+  failureMode: MockFailureMode;
+  failureStatus: number;    // error 模式下模拟的 HTTP 状态码（429 / 500 / 401 等）
+  timeoutMs: number;        // timeout 模式下的挂起时间
+  script: MockResponse[];   // 按顺序消费的脚本响应，优先于规则
+  rules: MockRule[];        // 自定义规则，优先于内置规则
+}
+
+const DEFAULT_MOCK_CONFIG: MockProviderConfig = {
+  latencyMs: Number(process.env.MOCK_LATENCY_MS) || 200,
+  chunkDelayMs: Number(process.env.MOCK_CHUNK_DELAY_MS) || 30,
+  chunkSize: 8,
+  failureRate: Number(process.env.MOCK_FAILURE_RATE) || 0,
+  failNext: 0,
+  failureMode: process.env.MOCK_FAILURE_MODE === 'timeout' ? 'timeout' : 'error',
+  failureStatus: Number(process.env.MOCK_FAILURE_STATUS) || 500,
+  timeoutMs: 10 * 60 * 1000,
+  script: [],
+  rules: []
+};
+
+// 所有 mock 适配器共享同一份配置，便于测试时统一调整
+let mockConfig: MockProviderConfig = { ...DEFAULT_MOCK_CONFIG, script: [], rules: [] };
+
+/**
+ * 更新 mock 配置
+ */
+export function configureMockProvider(config: Partial<MockProviderConfig>): void {
+  mockConfig = { ...mockConfig, ...config };
+}
+
+/**
+ * 恢复默认 mock 配置
+ */
+export function resetMockProvider(): void {
+  mockConfig = { ...DEFAULT_MOCK_CONFIG, script: [], rules: [] };
+}
+
+/**
+ * 获取当前 mock 配置
+ */
+export function getMockProviderConfig(): MockProviderConfig {
+  return { ...mockConfig };
+}
+
+export class MockAdapter extends BaseAdapter {
+  constructor(config: ModelConfig) {
+    super(config);
+    if (!this.config.model) {
+      this.config.model = 'mock-model';
+    }
+  }
+
+  async validateConfig(): Promise<boolean> {
+    return true;
+  }
+
+  async chat(messages: Message[], options?: ChatOptions): Promise<ChatResponse> {
+    this.setStatus('thinking');
+
+    try {
+      // 与真实适配器一样经过重试与熔断
+      await this.withResilience(async () => {
+        await sleep(mockConfig.latencyMs, options?.signal);
+        await this.maybeFail(options?.signal);
+      }, options);
+
+      const response = this.resolveResponse(messages, options);
+      this.setStatus('success');
+
+      return {
+        content: response.content,
+        toolCalls: response.toolCalls,
+        usage: this.estimateUsage(messages, response.content)
+      };
+    } catch (error) {
+      this.markFailed(error, options);
+      throw error;
+    } finally {
+      setTimeout(() => this.setStatus('idle'), 1000);
+    }
+  }
+
+  async *streamChat(messages: Message[], options?: ChatOptions): AsyncGenerator<StreamChunk, void, unknown> {
+    this.setStatus('thinking');
+
+    try {
+      // 与真实适配器一样经过重试与熔断
+      await this.withResilience(async () => {
+        await sleep(mockConfig.latencyMs, options?.signal);
+        await this.maybeFail(options?.signal);
+      }, options);
+
+      const response = this.resolveResponse(messages, options);
+      this.setStatus('typing');
+
+      const size = Math.max(1, mockConfig.chunkSize);
+      for (let i = 0; i < response.content.length; i += size) {
+        yield { content: response.content.slice(i, i + size), done: false };
+        await sleep(mockConfig.chunkDelayMs, options?.signal);
+      }
+
+      this.setStatus('success');
+      yield { content: '', done: true, toolCalls: response.toolCalls, usage: this.estimateUsage(messages, response.content) };
+    } catch (error) {
+      this.markFailed(error, options);
+      throw error;
+    } finally {
+      setTimeout(() => this.setStatus('idle'), 1000);
+    }
+  }
+
+  // ========== 响应生成 ==========
+
+  /**
+   * 依次尝试：脚本响应 → 自定义规则 → 内置规则
+   */
+  private resolveResponse(messages: Message[], options?: ChatOptions): { content: string; toolCalls?: ToolCall[] } {
+    const scripted = mockConfig.script.shift();
+    if (scripted) {
+      return this.withToolCallIds(scripted);
+    }
+
+    const lastUser = messageText([...messages].reverse().find(m => m.role === 'user')?.content || '');
+    for (const rule of mockConfig.rules) {
+      const matched = typeof rule.match === 'string'
+        ? lastUser.includes(rule.match)
+        : rule.match.test(lastUser);
+      if (matched) {
+        const response = typeof rule.response === 'function' ? rule.response(messages) : rule.response;
+        return this.withToolCallIds(response);
+      }
+    }
+
+    return this.builtinResponse(messages, lastUser, options);
+  }
+
+  /**
+   * 内置规则：任务分析返回合法 TaskAnalysis JSON，工具结果回显，其余按提示生成文本
+   */
+  private builtinResponse(messages: Message[], lastUser: string, options?: ChatOptions): { content: string; toolCalls?: ToolCall[] } {
+    const system = messageText(messages.find(m => m.role === 'system')?.content || '');
+    const lastMessage = messages[messages.length - 1];
+    // 结构化输出的修复请求会追加对话，任务内容以第一条 user 消息为准
+    const firstUser = messageText(messages.find(m => m.role === 'user')?.content || '');
+
+    if (system.includes('"subtasks"') && system.includes('"complexity"')) {
+      return { content: JSON.stringify(this.buildTaskAnalysis(firstUser)) };
+    }
+
+    // 单个子任务重新分析
+    if (system.includes('"estimatedMinutes"')) {
+      const instructions = firstUser.split('[修改意见]').pop()?.trim() || '';
+      return {
+        content: JSON.stringify({
+          title: `[mock] ${this.firstLine(instructions).slice(0, 30)}`,
+          description: `按修改意见重新规划：${instructions}`,
+          priority: 'medium',
+          estimatedMinutes: 3,
+          requiredSkills: ['开发']
+        })
+      };
+    }
+
+    // 记忆提取：对话取用户的发言，子任务取标题；记忆整理：去掉重复条目并截取到要求的条数
+    if (system.includes('"memories"')) {
+      return { content: JSON.stringify({ memories: this.buildMemories(system, firstUser) }) };
+    }
+
+    if (lastMessage?.role === 'tool') {
+      return { content: `[mock] 工具 ${lastMessage.name || ''} 返回：${messageText(lastMessage.content)}` };
+    }
+
+    // 用户显式要求调用某个可用工具时发起调用
+    const requestedTool = options?.tools?.find(tool => lastUser.includes(tool.name));
+    if (requestedTool) {
+      return {
+        content: '',
+        toolCalls: [{ id: `mock_${randomUUID()}`, name: requestedTool.name, arguments: {} }]
+      };
+    }
+
+    if (system.includes('Markdown') || lastUser.includes('报告')) {
+      return { content: `# [mock] 执行报告\n\n## 执行摘要\n\n${this.firstLine(lastUser)}\n\n## 关键成果\n\n- 所有子任务均已由 mock 模型完成\n` };
+    }
+
+    // 回显收到的附件，便于验证多模态消息的传递
+    const attachments = toContentParts(lastMessage?.content || '').filter(part => part.type !== 'text');
+    if (attachments.length > 0) {
+      return { content: `[mock] 已完成：${this.firstLine(lastUser)}（附件：${attachments.map(describePart).join('、')}）` };
+    }
+
+    return { content: `[mock] 已完成：${this.firstLine(lastUser)}` };
+  }
+
+  /**
+   * 记忆提取与整理的 mock 结果
+   */
+  private buildMemories(system: string, firstUser: string): Array<{ content: string; kind: string }> {
+    const lines = firstUser.split('\n').map(line => line.trim());
+    if (system.includes('合并')) {
+      const limit = Number(firstUser.match(/不超过 (\d+) 条/)?.[1] ?? 30);
+      const contents = lines
+        .filter(line => line.startsWith('- '))
+        .map(line => line.slice(2).replace(/^\[\w+\] /, ''));
+      return Array.from(new Set(contents)).slice(0, limit).map(content => ({ content, kind: 'fact' }));
+    }
+
+    const title = lines.find(line => line.startsWith('子任务：'));
+    if (title) {
+      return [{ content: `[mock] 完成过${title}`, kind: 'lesson' }];
+    }
+    return lines
+      .filter(line => line.startsWith('用户：'))
+      .map(line => ({ content: `[mock] 用户说过：${line.slice(3)}`, kind: 'fact' }));
+  }
+  /**
+   * 根据任务描述生成三段式计划：分析 → 实现 → 验证
+   * 依赖按子任务序号书写，与 MasterAgent 生成的 subtask-<analysisId>-<index> 对应
+   * 任务描述包含「审批」时，实现阶段标记为需要人工审批
+   */
+  private buildTaskAnalysis(task: string): Record<string, unknown> {
+    const topic = this.firstLine(task.replace(/^请分析以下任务：\s*/, '')).slice(0, 40) || '任务';
+    const requiresApproval = task.includes('审批');
+    return {
+      complexity: 'medium',
+      estimatedTime: 6,
+      reasoning: `[mock] 将「${topic}」拆分为分析、实现、验证三个阶段`,
+      subtasks: [
+        {
+          title: `分析：${topic}`,
+          description: `梳理「${topic}」的需求和约束`,
+          priority: 'high',
+          estimatedMinutes: 2,
+          dependencies: [],
+          requiredSkills: ['需求分析']
+        },
+        {
+          title: `实现：${topic}`,
+          description: `根据分析结果完成「${topic}」`,
+          priority: 'medium',
+          estimatedMinutes: 3,
+          dependencies: ['0'],
+          requiredSkills: ['开发'],
+          requiresApproval
+        },
+        {
+          title: `验证：${topic}`,
+          description: `检查「${topic}」的实现结果`,
+          priority: 'low',
+          estimatedMinutes: 1,
+          dependencies: ['1'],
+          requiredSkills: ['测试']
+        }
+      ],
+      requiredSkills: ['需求分析', '开发', '测试'],
+      recommendedAgents: 2
+    };
+  }
+
+  // ========== 工具方法 ==========
+
+  /**
+   * 按配置注入故障
+   */
+  private async maybeFail(signal?: AbortSignal): Promise<void> {
+    const forced = mockConfig.failNext > 0;
+    if (!forced && Math.random() >= mockConfig.failureRate) {
+      return;
+    }
+    if (forced) {
+      mockConfig.failNext--;
+    }
+
+    if (mockConfig.failureMode === 'timeout') {
+      await sleep(mockConfig.timeoutMs, signal);
+      throw new ProviderError(`Mock request timed out after ${mockConfig.timeoutMs}ms`, {
+        kind: 'network',
+        provider: this.providerKey
+      });
+    }
+
+    const status = mockConfig.failureStatus;
+    throw await errorFromResponse(
+      new Response('mock injected failure', { status, headers: status === 429 ? { 'retry-after': '1' } : {} }),
+      this.providerKey
+    );
+  }
+
+  private withToolCallIds(response: MockResponse): { content: string; toolCalls?: ToolCall[] } {
+    return {
+      content: response.content,
+      toolCalls: response.toolCalls?.map(call => ({ ...call, id: call.id || `mock_${randomUUID()}` }))
+    };
+  }
+
+  private estimateUsage(messages: Message[], content: string): ChatResponse['usage'] {
+    const promptTokens = Math.ceil(messages.reduce((sum, m) => sum + messageText(m.content).length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private firstLine(text: string): string {
+    return text.trim().split('\n')[0] || '';
+  }
+}
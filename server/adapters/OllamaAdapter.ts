@@ -1,5 +1,19 @@
+import { randomUUID } from 'crypto';
 import { BaseAdapter } from './BaseAdapter.js';
-import type { Message, ChatResponse, StreamChunk, ModelConfig } from '../types.ts';
+import { messageText, toContentParts } from './content.js';
+import { describeModel, isChatModel } from './modelCatalog.js';
+import type { Message, MessageContent, ChatResponse, ChatOptions, StreamChunk, ModelConfig, ModelInfo, ToolCall, ToolDefinition } from '../types.ts';
+
+// Ollama 返回的工具调用（不带 ID）
+interface OllamaToolCall {
+  function: { name: string; arguments: unknown };
+}
+
+// /api/show 返回的模型详情（只取用到的字段）
+interface OllamaShowResponse {
+  model_info?: Record<string, unknown>;
+  capabilities?: string[];
+}
 
 export class OllamaAdapter extends BaseAdapter {
   constructor(config: ModelConfig) {
@@ -18,36 +32,100 @@ export class OllamaAdapter extends BaseAdapter {
     return true;
   }
 
-  async chat(messages: Message[]): Promise<ChatResponse> {
+  // 转换消息格式为 Ollama 格式（参数以对象传递）
+  private convertMessages(messages: Message[]): Array<Record<string, unknown>> {
+    return messages.map(m => {
+      if (m.role === 'assistant' && m.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: messageText(m.content),
+          tool_calls: m.toolCalls.map(call => ({
+            function: { name: call.name, arguments: call.arguments }
+          }))
+        };
+      }
+      if (m.role === 'tool') {
+        return { role: 'tool', content: messageText(m.content), tool_name: m.name };
+      }
+      return { role: m.role, content: messageText(m.content), ...this.convertImages(m.content) };
+    });
+  }
+
+  // Ollama 的图片放在消息的 images 字段（base64 数组），不支持图片 URL 和文件
+  private convertImages(content: MessageContent): { images?: string[] } {
+    const images: string[] = [];
+    for (const part of toContentParts(content)) {
+      if (part.type === 'file') throw this.unsupportedContent(part);
+      if (part.type === 'image') {
+        if (!part.data) throw this.unsupportedContent(part, '请以 base64 上传图片');
+        images.push(part.data);
+      }
+    }
+    return images.length > 0 ? { images } : {};
+  }
+
+  // 转换工具定义为 Ollama function 格式
+  private convertTools(tools: ToolDefinition[]): Array<Record<string, unknown>> {
+    return tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }
+    }));
+  }
+
+  // Ollama 不返回调用 ID，这里补一个本地 ID
+  private convertToolCalls(calls: OllamaToolCall[] | undefined): ToolCall[] {
+    return (calls || []).map(call => ({
+      id: `call_${randomUUID()}`,
+      name: call.function.name,
+      arguments: this.parseToolArguments(call.function.arguments)
+    }));
+  }
+
+  // 构建请求体
+  private buildBody(messages: Message[], options: ChatOptions | undefined, stream: boolean): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages: this.convertMessages(messages),
+      stream,
+      options: {
+        temperature: this.config.temperature ?? 0.7,
+        num_predict: this.config.maxTokens ?? 2000
+      }
+    };
+    if (options?.tools?.length) {
+      body.tools = this.convertTools(options.tools);
+    }
+    // Ollama 的 format 字段直接接受 JSON Schema
+    if (options?.responseFormat) {
+      body.format = options.responseFormat.schema;
+    }
+    return body;
+  }
+
+  async chat(messages: Message[], options?: ChatOptions): Promise<ChatResponse> {
     this.setStatus('thinking');
 
     try {
-      const response = await fetch(`${this.config.baseUrl}/api/chat`, {
+      const response = await this.fetchWithRetry(`${this.config.baseUrl}/api/chat`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({
-          model: this.config.model,
-          messages,
-          stream: false,
-          options: {
-            temperature: this.config.temperature ?? 0.7,
-            num_predict: this.config.maxTokens ?? 2000
-          }
-        })
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`HTTP ${response.status}: ${error}`);
-      }
+        body: JSON.stringify(this.buildBody(messages, options, false))
+      }, options);
 
       const data = await response.json();
       this.setStatus('success');
 
+      const toolCalls = this.convertToolCalls(data.message?.tool_calls);
+
       return {
         content: data.message?.content || '',
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         usage: data.eval_count ? {
           promptTokens: data.prompt_eval_count || 0,
           completionTokens: data.eval_count || 0,
@@ -55,37 +133,24 @@ export class OllamaAdapter extends BaseAdapter {
         } : undefined
       };
     } catch (error) {
-      this.setStatus('error');
+      this.markFailed(error, options);
       throw error;
     } finally {
       setTimeout(() => this.setStatus('idle'), 1000);
     }
   }
 
-  async *streamChat(messages: Message[]): AsyncGenerator<StreamChunk, void, unknown> {
+  async *streamChat(messages: Message[], options?: ChatOptions): AsyncGenerator<StreamChunk, void, unknown> {
     this.setStatus('thinking');
 
     try {
-      const response = await fetch(`${this.config.baseUrl}/api/chat`, {
+      const response = await this.fetchWithRetry(`${this.config.baseUrl}/api/chat`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({
-          model: this.config.model,
-          messages,
-          stream: true,
-          options: {
-            temperature: this.config.temperature ?? 0.7,
-            num_predict: this.config.maxTokens ?? 2000
-          }
-        })
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`HTTP ${response.status}: ${error}`);
-      }
+        body: JSON.stringify(this.buildBody(messages, options, true))
+      }, options);
 
       if (!response.body) {
         throw new Error('Response body is null');
@@ -95,6 +160,7 @@ export class OllamaAdapter extends BaseAdapter {
 
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
+      const toolCalls: ToolCall[] = [];
 
       while (true) {
         const { done, value } = await reader.read();
@@ -113,9 +179,20 @@ export class OllamaAdapter extends BaseAdapter {
               yield { content, done: false };
             }
 
+            toolCalls.push(...this.convertToolCalls(parsed.message?.tool_calls));
+
             if (isDone) {
               this.setStatus('success');
-              yield { content: '', done: true };
+              yield {
+                content: '',
+                done: true,
+                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                usage: parsed.eval_count ? {
+                  promptTokens: parsed.prompt_eval_count || 0,
+                  completionTokens: parsed.eval_count || 0,
+                  totalTokens: (parsed.prompt_eval_count || 0) + (parsed.eval_count || 0)
+                } : undefined
+              };
               return;
             }
           } catch (e) {
@@ -125,30 +202,49 @@ export class OllamaAdapter extends BaseAdapter {
       }
 
       this.setStatus('success');
-      yield { content: '', done: true };
+      yield { content: '', done: true, toolCalls: toolCalls.length > 0 ? toolCalls : undefined };
 
     } catch (error) {
-      this.setStatus('error');
+      this.markFailed(error, options);
       throw error;
     } finally {
       setTimeout(() => this.setStatus('idle'), 1000);
     }
   }
 
-  // 获取本地可用模型列表
-  async listModels(): Promise<Array<{ name: string; size: number }>> {
+  // 查询本地模型：/api/tags 列出模型，/api/show 补充上下文长度和能力（失败时使用内置目录）
+  async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    const data = await this.fetchModelList<{ models?: Array<{ name: string }> }>(`${this.config.baseUrl}/api/tags`, {}, signal);
+    const names = (data.models || []).map(model => model.name).filter(isChatModel);
+
+    const models: ModelInfo[] = [];
+    // 逐个查询，避免本地服务同时加载多个模型元数据
+    for (const name of names) {
+      models.push(describeModel(name, 'provider', await this.showModel(name, signal)));
+    }
+    return models;
+  }
+
+  // 读取单个模型的上下文长度和能力
+  private async showModel(name: string, signal?: AbortSignal): Promise<{ contextWindow?: number; tools?: boolean; vision?: boolean }> {
     try {
-      const response = await fetch(`${this.config.baseUrl}/api/tags`);
-      if (!response.ok) {
-        return [];
-      }
-      const data = await response.json();
-      return data.models?.map((m: any) => ({
-        name: m.name,
-        size: m.size
-      })) || [];
-    } catch {
-      return [];
+      const info = await this.fetchModelList<OllamaShowResponse>(`${this.config.baseUrl}/api/show`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: name })
+      }, signal);
+
+      const contextWindow = Object.entries(info.model_info || {})
+        .find(([key, value]) => key.endsWith('.context_length') && typeof value === 'number')?.[1] as number | undefined;
+      const capabilities = info.capabilities;
+      return {
+        contextWindow,
+        tools: capabilities ? capabilities.includes('tools') : undefined,
+        vision: capabilities ? capabilities.includes('vision') : undefined
+      };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return {};
     }
   }
 }
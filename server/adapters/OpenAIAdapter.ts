@@ -1,5 +1,7 @@
 import { BaseAdapter } from './BaseAdapter.js';
-import type { Message, ChatResponse, StreamChunk, ModelConfig } from '../types.ts';
+import { messageText, toDataUrl } from './content.js';
+import { describeModel, isChatModel } from './modelCatalog.js';
+import type { Message, MessageContent, ChatResponse, ChatOptions, StreamChunk, ModelConfig, ModelInfo, ResponseFormat, TokenUsage, ToolCall, ToolDefinition } from '../types.ts';
 
 export class OpenAIAdapter extends BaseAdapter {
   constructor(config: ModelConfig) {
@@ -11,7 +13,7 @@ export class OpenAIAdapter extends BaseAdapter {
       console.error('OpenAI Adapter: baseUrl is required');
       return false;
     }
-    if (!this.config.apiKey) {
+    if (!this.apiKey) {
       console.error('OpenAI Adapter: apiKey is required');
       return false;
     }
@@ -22,35 +24,114 @@ export class OpenAIAdapter extends BaseAdapter {
     return true;
   }
 
-  async chat(messages: Message[]): Promise<ChatResponse> {
+  // 转换消息格式为 OpenAI 格式（含工具调用与工具结果）
+  private convertMessages(messages: Message[]): Array<Record<string, unknown>> {
+    return messages.map(m => {
+      if (m.role === 'tool') {
+        return { role: 'tool', tool_call_id: m.toolCallId, content: messageText(m.content) };
+      }
+      if (m.role === 'assistant' && m.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: messageText(m.content) || null,
+          tool_calls: m.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        };
+      }
+      // 只有用户消息可以包含图片和文件
+      return { role: m.role, content: m.role === 'user' ? this.convertContent(m.content) : messageText(m.content) };
+    });
+  }
+
+  // 转换多模态内容：图片转为 image_url，文件以 base64 的 file 片段传递
+  private convertContent(content: MessageContent): string | Array<Record<string, unknown>> {
+    if (typeof content === 'string') return content;
+
+    return content.map(part => {
+      switch (part.type) {
+        case 'text':
+          return { type: 'text', text: part.text };
+        case 'image':
+          return { type: 'image_url', image_url: { url: part.url || toDataUrl(part) } };
+        case 'file':
+          if (!part.data) throw this.unsupportedContent(part, '文件只能以 base64 上传');
+          return { type: 'file', file: { filename: part.name, file_data: toDataUrl(part) } };
+      }
+    });
+  }
+
+  // 转换工具定义为 OpenAI function 格式
+  private convertTools(tools: ToolDefinition[]): Array<Record<string, unknown>> {
+    return tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }
+    }));
+  }
+
+  // 结构化输出：OpenAI 官方接口支持 json_schema，其他兼容接口（DeepSeek、SiliconFlow 等）通常只支持 json_object
+  private convertResponseFormat(format: ResponseFormat): Record<string, unknown> {
+    if (this.config.baseUrl.includes('api.openai.com')) {
+      return { type: 'json_schema', json_schema: { name: format.name, schema: format.schema, strict: false } };
+    }
+    return { type: 'json_object' };
+  }
+
+  // 构建请求体
+  private buildBody(messages: Message[], options: ChatOptions | undefined, stream: boolean): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages: this.convertMessages(messages),
+      temperature: this.config.temperature ?? 0.7,
+      max_tokens: this.config.maxTokens ?? 2000,
+      stream
+    };
+    if (stream) {
+      // 让流式响应在最后一个分片中返回用量
+      body.stream_options = { include_usage: true };
+    }
+    if (options?.tools?.length) {
+      body.tools = this.convertTools(options.tools);
+    }
+    if (options?.responseFormat) {
+      body.response_format = this.convertResponseFormat(options.responseFormat);
+    }
+    return body;
+  }
+
+  async chat(messages: Message[], options?: ChatOptions): Promise<ChatResponse> {
     this.setStatus('thinking');
 
     try {
-      const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      const response = await this.fetchWithRetry(`${this.config.baseUrl}/chat/completions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`
+          'Authorization': `Bearer ${this.apiKey}`
         },
-        body: JSON.stringify({
-          model: this.config.model,
-          messages,
-          temperature: this.config.temperature ?? 0.7,
-          max_tokens: this.config.maxTokens ?? 2000,
-          stream: false
-        })
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`HTTP ${response.status}: ${error}`);
-      }
+        body: JSON.stringify(this.buildBody(messages, options, false))
+      }, options);
 
       const data = await response.json();
       this.setStatus('success');
 
+      const rawToolCalls: Array<{ id: string; function: { name: string; arguments: string } }> =
+        data.choices[0]?.message?.tool_calls || [];
+      const toolCalls: ToolCall[] = rawToolCalls.map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: this.parseToolArguments(call.function.arguments)
+      }));
+
       return {
         content: data.choices[0]?.message?.content || '',
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         usage: data.usage ? {
           promptTokens: data.usage.prompt_tokens,
           completionTokens: data.usage.completion_tokens,
@@ -58,36 +139,25 @@ export class OpenAIAdapter extends BaseAdapter {
         } : undefined
       };
     } catch (error) {
-      this.setStatus('error');
+      this.markFailed(error, options);
       throw error;
     } finally {
       setTimeout(() => this.setStatus('idle'), 1000);
     }
   }
 
-  async *streamChat(messages: Message[]): AsyncGenerator<StreamChunk, void, unknown> {
+  async *streamChat(messages: Message[], options?: ChatOptions): AsyncGenerator<StreamChunk, void, unknown> {
     this.setStatus('thinking');
 
     try {
-      const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      const response = await this.fetchWithRetry(`${this.config.baseUrl}/chat/completions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`
+          'Authorization': `Bearer ${this.apiKey}`
         },
-        body: JSON.stringify({
-          model: this.config.model,
-          messages,
-          temperature: this.config.temperature ?? 0.7,
-          max_tokens: this.config.maxTokens ?? 2000,
-          stream: true
-        })
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`HTTP ${response.status}: ${error}`);
-      }
+        body: JSON.stringify(this.buildBody(messages, options, true))
+      }, options);
 
       if (!response.body) {
         throw new Error('Response body is null');
@@ -97,6 +167,17 @@ export class OpenAIAdapter extends BaseAdapter {
 
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
+      let usage: TokenUsage | undefined;
+      // 工具调用以增量形式下发，按 index 累积
+      const pendingToolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+      const collectToolCalls = (): ToolCall[] | undefined => {
+        if (pendingToolCalls.size === 0) return undefined;
+        return Array.from(pendingToolCalls.values()).map(call => ({
+          id: call.id,
+          name: call.name,
+          arguments: this.parseToolArguments(call.arguments)
+        }));
+      };
 
       while (true) {
         const { done, value } = await reader.read();
@@ -111,16 +192,34 @@ export class OpenAIAdapter extends BaseAdapter {
           const data = line.slice(6);
           if (data === '[DONE]') {
             this.setStatus('success');
-            yield { content: '', done: true };
+            yield { content: '', done: true, toolCalls: collectToolCalls(), usage };
             return;
           }
 
           try {
             const parsed = JSON.parse(data);
-            const content = parsed.choices[0]?.delta?.content || '';
+            if (parsed.usage) {
+              usage = {
+                promptTokens: parsed.usage.prompt_tokens,
+                completionTokens: parsed.usage.completion_tokens,
+                totalTokens: parsed.usage.total_tokens
+              };
+            }
+
+            const delta = parsed.choices?.[0]?.delta;
+            const content = delta?.content || '';
             if (content) {
               yield { content, done: false };
             }
+
+            for (const toolDelta of delta?.tool_calls || []) {
+              const index: number = toolDelta.index ?? 0;
+              const pending = pendingToolCalls.get(index) || { id: '', name: '', arguments: '' };
+              if (toolDelta.id) pending.id = toolDelta.id;
+              if (toolDelta.function?.name) pending.name += toolDelta.function.name;
+              if (toolDelta.function?.arguments) pending.arguments += toolDelta.function.arguments;
+              pendingToolCalls.set(index, pending);
+            }
           } catch (e) {
             console.error('Failed to parse SSE data:', e);
           }
@@ -128,13 +227,32 @@ export class OpenAIAdapter extends BaseAdapter {
       }
 
       this.setStatus('success');
-      yield { content: '', done: true };
+      yield { content: '', done: true, toolCalls: collectToolCalls(), usage };
 
     } catch (error) {
-      this.setStatus('error');
+      this.markFailed(error, options);
       throw error;
     } finally {
       setTimeout(() => this.setStatus('idle'), 1000);
     }
   }
+
+  // 查询 /models：兼容接口（OpenRouter、SiliconFlow、vLLM 等）返回的上下文长度优先于内置目录
+  async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    const data = await this.fetchModelList<{ data?: Array<Record<string, unknown>> }>(`${this.config.baseUrl}/models`, {
+      headers: { 'Authorization': `Bearer ${this.apiKey}` }
+    }, signal);
+
+    return (data.data || [])
+      .filter(model => typeof model.id === 'string' && isChatModel(model.id))
+      .map(model => {
+        const contextWindow = [model.context_length, model.context_window, model.max_model_len]
+          .find((value): value is number => typeof value === 'number' && value > 0);
+        return describeModel(model.id as string, 'provider', {
+          name: typeof model.name === 'string' ? model.name : undefined,
+          contextWindow
+        });
+      })
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
 }
@@ -0,0 +1,99 @@
+import type { Attachment, ContentPart, MessageContent } from '../types.js';
+
+// 单个附件的 base64 大小上限（约 10MB 原始数据）
+const MAX_ATTACHMENT_BASE64_LENGTH = 14 * 1024 * 1024;
+
+/**
+ * 统一为片段数组（纯文本视为单个文本片段）
+ */
+export function toContentParts(content: MessageContent): ContentPart[] {
+  if (typeof content === 'string') {
+    return content ? [{ type: 'text', text: content }] : [];
+  }
+  return content;
+}
+
+/**
+ * 提取消息中的文本（多个文本片段以换行拼接，忽略图片和文件）
+ */
+export function messageText(content: MessageContent): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((part): part is Extract<ContentPart, { type: 'text' }> => part.type === 'text')
+    .map(part => part.text)
+    .join('\n');
+}
+
+/**
+ * 在文本后追加附件，没有附件时保持纯文本
+ */
+export function withAttachments(text: string, attachments?: Attachment[]): MessageContent {
+  if (!attachments?.length) return text;
+  return [{ type: 'text', text }, ...attachments];
+}
+
+/**
+ * base64 附件转换为 data URL
+ */
+export function toDataUrl(part: Attachment): string {
+  return `data:${part.mimeType || 'application/octet-stream'};base64,${part.data}`;
+}
+
+/**
+ * 片段的简短描述（用于错误信息和日志）
+ */
+export function describePart(part: ContentPart): string {
+  switch (part.type) {
+    case 'text':
+      return '文本';
+    case 'image':
+      return part.url ? '图片（URL）' : `图片（${part.mimeType || 'base64'}）`;
+    case 'file':
+      return `文件 ${part.name}（${part.mimeType}）`;
+  }
+}
+
+/**
+ * 校验客户端提交的片段数组，返回错误信息
+ */
+export function validateContentParts(value: unknown): string | null {
+  if (!Array.isArray(value)) return 'content parts must be an array';
+
+  for (const [index, part] of value.entries()) {
+    const record = part as Partial<Record<string, unknown>> | null;
+    const where = `part ${index}`;
+    if (!record || typeof record !== 'object') return `${where} must be an object`;
+
+    switch (record.type) {
+      case 'text':
+        if (typeof record.text !== 'string') return `${where}: text must be a string`;
+        break;
+      case 'image':
+      case 'file': {
+        const hasData = typeof record.data === 'string' && record.data.length > 0;
+        const hasUrl = typeof record.url === 'string' && /^https?:\/\//.test(record.url);
+        if (hasData === hasUrl) return `${where}: exactly one of data (base64) or url (http/https) is required`;
+        if (hasData && (record.data as string).length > MAX_ATTACHMENT_BASE64_LENGTH) return `${where}: attachment is too large`;
+        if (hasData && typeof record.mimeType !== 'string') return `${where}: mimeType is required for base64 data`;
+        if (record.type === 'file') {
+          if (typeof record.name !== 'string' || !record.name) return `${where}: file name is required`;
+          if (typeof record.mimeType !== 'string') return `${where}: mimeType is required`;
+        }
+        break;
+      }
+      default:
+        return `${where}: unsupported type ${JSON.stringify(record.type)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 校验附件列表（只能包含图片和文件），返回错误信息
+ */
+export function validateAttachments(value: unknown): string | null {
+  const error = validateContentParts(value);
+  if (error) return error.replace(/^content parts/, 'attachments');
+  if ((value as ContentPart[]).some(part => part.type === 'text')) return 'attachments may only contain image or file parts';
+  return null;
+}
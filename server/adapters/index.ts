@@ -4,6 +4,8 @@ import { OpenAIAdapter } from './OpenAIAdapter.js';
 import { OllamaAdapter } from './OllamaAdapter.js';
 import { AnthropicAdapter } from './AnthropicAdapter.js';
 import { MinimaxAdapter } from './MinimaxAdapter.js';
+import { FallbackAdapter } from './FallbackAdapter.js';
+import { MockAdapter, configureMockProvider, resetMockProvider, getMockProviderConfig } from './MockAdapter.js';
 
 // 预设的模型配置
 export const presetModels: ModelConfig[] = [
@@ -66,6 +68,16 @@ export const presetModels: ModelConfig[] = [
     temperature: 0.7,
     maxTokens: 2000,
     enabled: true
+  },
+  {
+    id: 'mock',
+    name: 'Mock (Offline)',
+    provider: 'mock',
+    baseUrl: '',
+    model: 'mock-model',
+    temperature: 0.7,
+    maxTokens: 2000,
+    enabled: false
   }
 ];
 
@@ -73,6 +85,12 @@ export class AdapterFactory {
   private static instances: Map<string, BaseAdapter> = new Map();
 
   static createAdapter(config: ModelConfig): BaseAdapter {
+    // 配置了备用模型时组合为备用模型链
+    if (config.fallbacks?.length) {
+      const primary = this.createAdapter({ ...config, fallbacks: undefined });
+      return new FallbackAdapter(config, [primary, ...config.fallbacks.map(fallback => this.createAdapter(fallback))]);
+    }
+
     switch (config.provider) {
       case 'openai':
         return new OpenAIAdapter(config);
@@ -82,6 +100,8 @@ export class AdapterFactory {
         return new AnthropicAdapter(config);
       case 'minimax':
         return new MinimaxAdapter(config);
+      case 'mock':
+        return new MockAdapter(config);
       default:
         // 默认为 OpenAI 兼容接口
         return new OpenAIAdapter(config);
@@ -115,4 +135,6 @@ export class AdapterFactory {
   }
 }
 
-export { BaseAdapter, OpenAIAdapter, OllamaAdapter, AnthropicAdapter, MinimaxAdapter };
+export { BaseAdapter, OpenAIAdapter, OllamaAdapter, AnthropicAdapter, MinimaxAdapter, MockAdapter, FallbackAdapter };
+export { configureMockProvider, resetMockProvider, getMockProviderConfig };
+export { ProviderError, circuitBreakers, configureResilience, getResilienceConfig } from './resilience.js';
@@ -0,0 +1,87 @@
+import type { ModelInfo } from '../types.js';
+
+// 已知模型的元数据：按模型 ID 匹配，先匹配先用
+interface CatalogEntry {
+  match: RegExp;
+  contextWindow: number;
+  tools: boolean;
+  vision: boolean;
+}
+
+const KNOWN_MODELS: CatalogEntry[] = [
+  // OpenAI
+  { match: /^gpt-4\.1/, contextWindow: 1_047_576, tools: true, vision: true },
+  { match: /^gpt-4o/, contextWindow: 128_000, tools: true, vision: true },
+  { match: /^gpt-4-turbo/, contextWindow: 128_000, tools: true, vision: true },
+  { match: /^gpt-3\.5-turbo/, contextWindow: 16_385, tools: true, vision: false },
+  { match: /^o\d/, contextWindow: 200_000, tools: true, vision: true },
+  // Anthropic
+  { match: /^claude-/, contextWindow: 200_000, tools: true, vision: true },
+  // MiniMax（Anthropic 兼容接口不支持图片）
+  { match: /^MiniMax-M/i, contextWindow: 204_800, tools: true, vision: false },
+  // DeepSeek（含 SiliconFlow 上的 deepseek-ai/*）
+  { match: /deepseek-(chat|reasoner)|deepseek-v3/i, contextWindow: 128_000, tools: true, vision: false },
+  { match: /deepseek-r1/i, contextWindow: 128_000, tools: false, vision: false },
+  // 常见开源模型（Ollama / 兼容接口）
+  { match: /qwen2\.5-vl|qwen-vl/i, contextWindow: 32_768, tools: false, vision: true },
+  { match: /qwen(2\.5|3)/i, contextWindow: 32_768, tools: true, vision: false },
+  { match: /llama3\.2-vision|llava/i, contextWindow: 131_072, tools: false, vision: true },
+  { match: /llama3\.[123]/i, contextWindow: 131_072, tools: true, vision: false },
+  { match: /mistral|mixtral/i, contextWindow: 32_768, tools: true, vision: false },
+  { match: /gemma/i, contextWindow: 8_192, tools: false, vision: false },
+  { match: /^mock-/, contextWindow: 32_768, tools: true, vision: true }
+];
+
+// 模型列表中的非对话模型（向量、语音、图像生成、审核等）
+const NON_CHAT_MODEL = /embed|whisper|tts|dall-e|moderation|rerank|transcribe|speech|image|audio|babbage|davinci/i;
+
+/**
+ * 是否为对话模型
+ */
+export function isChatModel(id: string): boolean {
+  return !NON_CHAT_MODEL.test(id);
+}
+
+// 没有模型列表接口的供应商使用的静态目录
+export const STATIC_CATALOG: Record<string, string[]> = {
+  anthropic: [
+    'claude-sonnet-4-5',
+    'claude-opus-4-1',
+    'claude-haiku-4-5',
+    'claude-sonnet-4-0',
+    'claude-3-7-sonnet-latest',
+    'claude-3-5-sonnet-20241022',
+    'claude-3-5-haiku-latest'
+  ],
+  minimax: ['MiniMax-M2.5', 'MiniMax-M2'],
+  mock: ['mock-model']
+};
+
+/**
+ * 生成模型信息：供应商返回的元数据优先，其余字段从已知模型目录补全
+ */
+export function describeModel(
+  id: string,
+  source: ModelInfo['source'],
+  known: { name?: string; contextWindow?: number; tools?: boolean; vision?: boolean } = {}
+): ModelInfo {
+  const entry = KNOWN_MODELS.find(candidate => candidate.match.test(id));
+  return {
+    id,
+    name: known.name || id,
+    contextWindow: known.contextWindow ?? entry?.contextWindow,
+    capabilities: {
+      streaming: true,
+      tools: known.tools ?? entry?.tools,
+      vision: known.vision ?? entry?.vision
+    },
+    source
+  };
+}
+
+/**
+ * 供应商的静态目录（不存在时返回空数组）
+ */
+export function catalogModels(provider: string): ModelInfo[] {
+  return (STATIC_CATALOG[provider] || []).map(id => describeModel(id, 'catalog'));
+}
@@ -0,0 +1,267 @@
+// ========== 类型定义 ==========
+
+// 供应商错误分类
+export type ProviderErrorKind =
+  | 'rate_limit'     // 429
+  | 'server'         // 5xx（含 Anthropic 529 过载）
+  | 'auth'           // 401 / 403，需要修正配置
+  | 'client'         // 其他 4xx，重试无意义
+  | 'network'        // 连接失败、408
+  | 'circuit_open'   // 熔断中，未发出请求
+  | 'unsupported';   // 消息包含该模型不支持的内容（如图片），未发出请求
+
+// 供应商请求错误（适配器重试耗尽或不可重试时抛出）
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    details: { kind: ProviderErrorKind; provider: string; status?: number; retryAfterMs?: number }
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = details.kind;
+    this.provider = details.provider;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  // 限流、服务端错误和网络错误可以重试
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+export interface ResilienceConfig {
+  maxRetries: number;        // 单次调用的最大重试次数
+  baseDelayMs: number;       // 指数退避基数
+  maxDelayMs: number;        // 单次等待上限（Retry-After 同样受此限制）
+  failureThreshold: number;  // 连续失败多少次后熔断
+  resetTimeoutMs: number;    // 熔断多久后进入半开状态试探
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// 熔断器状态（按供应商区分）
+export interface CircuitBreakerState {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  openedAt?: number;
+  retryAt?: number;  // 熔断后允许试探的时间
+  probeStartedAt?: number;  // 半开状态下进行中的试探请求的开始时间（同一时间只放行一个）
+  lastError?: {
+    kind: ProviderErrorKind;
+    status?: number;
+    message: string;
+    at: number;
+  };
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback;
+}
+
+const DEFAULT_RESILIENCE_CONFIG: ResilienceConfig = {
+  maxRetries: envNumber('PROVIDER_MAX_RETRIES', 3),
+  baseDelayMs: envNumber('PROVIDER_RETRY_BASE_MS', 500),
+  maxDelayMs: envNumber('PROVIDER_RETRY_MAX_MS', 30_000),
+  failureThreshold: envNumber('CIRCUIT_FAILURE_THRESHOLD', 5),
+  resetTimeoutMs: envNumber('CIRCUIT_RESET_MS', 30_000)
+};
+
+// 所有适配器共享同一份配置
+let resilienceConfig: ResilienceConfig = { ...DEFAULT_RESILIENCE_CONFIG };
+
+/**
+ * 更新重试与熔断配置
+ */
+export function configureResilience(config: Partial<ResilienceConfig>): void {
+  resilienceConfig = { ...resilienceConfig, ...config };
+}
+
+/**
+ * 获取当前重试与熔断配置
+ */
+export function getResilienceConfig(): ResilienceConfig {
+  return { ...resilienceConfig };
+}
+
+// ========== 错误分类 ==========
+
+/**
+ * 解析 Retry-After 头（秒数或 HTTP 日期），返回毫秒
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 根据 HTTP 状态码生成供应商错误
+ */
+export async function errorFromResponse(response: Response, provider: string): Promise<ProviderError> {
+  const body = await response.text().catch(() => '');
+  const { status } = response;
+
+  let kind: ProviderErrorKind = 'client';
+  if (status === 429) kind = 'rate_limit';
+  else if (status === 401 || status === 403) kind = 'auth';
+  else if (status === 408) kind = 'network';
+  else if (status >= 500) kind = 'server';
+
+  return new ProviderError(`HTTP ${status}: ${body}`, {
+    kind,
+    provider,
+    status,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+  });
+}
+
+/**
+ * 计算重试等待时间：优先遵守 Retry-After，否则指数退避加随机抖动
+ */
+export function computeBackoff(attempt: number, config: ResilienceConfig, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, config.maxDelayMs);
+  }
+  const exponential = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+/**
+ * 可中止的等待，取消信号中止时立即抛出（与 fetch 行为一致）
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ========== 熔断器 ==========
+
+/**
+ * 按供应商统计连续失败：达到阈值后熔断，冷却后半开试探，试探成功恢复，失败重新熔断
+ * 只统计可重试的错误（限流、服务端、网络），鉴权和请求错误不代表供应商不可用
+ */
+export class CircuitBreakerRegistry {
+  private breakers: Map<string, CircuitBreakerState> = new Map();
+
+  /**
+   * 是否允许发出请求（熔断冷却结束时转为半开）
+   * 半开状态只放行一个试探请求，试探成功或失败前其余请求仍被拒绝；试探超过 resetTimeoutMs 未结束时允许重新试探
+   */
+  canRequest(provider: string): boolean {
+    const breaker = this.breakers.get(provider);
+    if (!breaker || breaker.state === 'closed') return true;
+
+    const now = Date.now();
+    if (breaker.state === 'open') {
+      if (now < (breaker.retryAt ?? 0)) return false;
+      breaker.state = 'half_open';
+      console.log(`[CircuitBreaker] ${provider} half-open, probing`);
+    } else if (breaker.probeStartedAt !== undefined && now - breaker.probeStartedAt < resilienceConfig.resetTimeoutMs) {
+      return false;
+    }
+
+    breaker.probeStartedAt = now;
+    return true;
+  }
+
+  /**
+   * 试探请求没有得出结论（被中止、非供应商错误或不可重试的错误）时释放，允许下一个请求试探
+   */
+  releaseProbe(provider: string): void {
+    const breaker = this.breakers.get(provider);
+    if (breaker) breaker.probeStartedAt = undefined;
+  }
+
+  recordSuccess(provider: string): void {
+    const breaker = this.breakers.get(provider);
+    if (!breaker) return;
+
+    if (breaker.state !== 'closed') {
+      console.log(`[CircuitBreaker] ${provider} closed`);
+    }
+    breaker.state = 'closed';
+    breaker.consecutiveFailures = 0;
+    breaker.openedAt = undefined;
+    breaker.retryAt = undefined;
+    breaker.probeStartedAt = undefined;
+  }
+
+  recordFailure(provider: string, error: ProviderError): void {
+    if (!error.retryable) {
+      this.releaseProbe(provider);
+      return;
+    }
+
+    const breaker = this.getOrCreate(provider);
+    breaker.probeStartedAt = undefined;
+    breaker.consecutiveFailures++;
+    breaker.totalFailures++;
+    breaker.lastError = { kind: error.kind, status: error.status, message: error.message.slice(0, 200), at: Date.now() };
+
+    const { failureThreshold, resetTimeoutMs } = resilienceConfig;
+    if (breaker.state === 'half_open' || breaker.consecutiveFailures >= failureThreshold) {
+      breaker.state = 'open';
+      breaker.openedAt = Date.now();
+      breaker.retryAt = breaker.openedAt + Math.max(resetTimeoutMs, error.retryAfterMs ?? 0);
+      console.warn(`[CircuitBreaker] ${provider} opened after ${breaker.consecutiveFailures} consecutive failures`);
+    }
+  }
+
+  getState(provider: string): CircuitBreakerState | undefined {
+    const breaker = this.breakers.get(provider);
+    return breaker ? { ...breaker } : undefined;
+  }
+
+  getStates(): CircuitBreakerState[] {
+    return Array.from(this.breakers.values()).map(breaker => ({ ...breaker }));
+  }
+
+  /**
+   * 重置熔断器（不传参数时重置全部）
+   */
+  reset(provider?: string): void {
+    if (provider) {
+      this.breakers.delete(provider);
+    } else {
+      this.breakers.clear();
+    }
+  }
+
+  private getOrCreate(provider: string): CircuitBreakerState {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      breaker = { provider, state: 'closed', consecutiveFailures: 0, totalFailures: 0 };
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+}
+
+// 导出单例
+export const circuitBreakers = new CircuitBreakerRegistry();
@@ -8,6 +8,10 @@ import 'dotenv/config';
 
 import { registerRoutes } from './routes/index.js';
 import { agentManager } from './manager/AgentManager.js';
+import { agentFileManager } from './manager/AgentFileManager.js';
+import { authManager } from './manager/AuthManager.js';
+import { workspaceManager } from './manager/WorkspaceManager.js';
+import { runInWorkspace } from './manager/WorkspaceContext.js';
 import type { SSEEvent } from './types.ts';
 
 // 获取 __dirname 等价物（ESM 模块）
@@ -134,24 +138,46 @@ const PORT = parseInt(process.env.PORT || '3001');
 const HOST = process.env.HOST || '0.0.0.0';
 
 const fastify = Fastify({
-  logger: true
+  logger: {
+    serializers: {
+      // 流式接口通过查询参数传递令牌，日志中隐去
+      req: (request) => ({
+        method: request.method,
+        url: request.url.replace(/([?&]access_token=)[^&]*/, '$1***'),
+        host: request.host,
+        remoteAddress: request.ip,
+        remotePort: request.socket?.remotePort
+      })
+    }
+  },
+  // 消息可以携带 base64 图片和文件，默认 1MB 不够用
+  bodyLimit: parseInt(process.env.BODY_LIMIT_MB || '32') * 1024 * 1024
 });
 
 async function startServer() {
   try {
-    // 注册 CORS
+    // 注册 CORS（CORS_ORIGINS 为逗号分隔的允许来源，未设置时允许所有来源；认证使用 Bearer 令牌，不依赖 Cookie）
     await fastify.register(cors, {
-      origin: '*',
-      methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization']
+      origin: process.env.CORS_ORIGINS ? process.env.CORS_ORIGINS.split(',').map(origin => origin.trim()) : '*',
+      methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Workspace-Id']
     });
 
     // 注册 WebSocket
     await fastify.register(websocket);
 
+    // 加载用户和 API Token
+    await authManager.load();
+
     // 注册 API 路由
     await registerRoutes(fastify);
 
+    // 激活所有工作区并恢复各自的任务状态（需在路由注册之后，路由模块会注册恢复逻辑）
+    await workspaceManager.load();
+
+    // 旧版灵魂文件中的 API Key 迁移到密钥库（旧版数据只存在于默认工作区）
+    await agentFileManager.migrateLegacyApiKeys();
+
     // 注册静态文件服务（部署后提供前端文件）
     const staticPath = path.join(__dirname, '../dist');
     await fastify.register(fastifyStatic, {
@@ -170,16 +196,16 @@ async function startServer() {
     // WebSocket 路由
     fastify.register(async function (fastify) {
       fastify.get('/ws/agent', { websocket: true }, (socket, req) => {
-        console.log('WebSocket client connected');
+        console.log(`WebSocket client connected (workspace ${req.workspaceId})`);
 
-        // 订阅所有事件并转发到 WebSocket
-        const unsubscribe = agentManager.onEvent((event: SSEEvent) => {
+        // 订阅所选工作区的所有事件并转发到 WebSocket
+        const unsubscribe = runInWorkspace(req.workspaceId, () => agentManager.onEvent((event: SSEEvent) => {
           try {
             socket.send(JSON.stringify(event));
           } catch (error) {
             console.error('WebSocket send error:', error);
           }
-        });
+        }));
 
         // 处理客户端消息
         socket.on('message', (message: string) => {
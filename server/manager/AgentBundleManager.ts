@@ -0,0 +1,285 @@
+import type { ModelConfig } from '../types.js';
+import {
+  agentFileManager,
+  type AgentMemory,
+  type AgentSkill,
+  type AgentSoul
+} from './AgentFileManager.js';
+import { agentManager, type DetachedAgent } from './AgentManager.js';
+import { masterAgent } from './MasterAgent.js';
+import { contextWindow } from './ContextWindow.js';
+
+// ========== 类型定义 ==========
+
+export const BUNDLE_FORMAT = 'ai-agent-viz/agent-bundle';
+export const BUNDLE_VERSION = 1;
+
+/**
+ * 单个 Agent 的导出包：灵魂、技能、记忆、模型配置（不含密钥）和人设提示词
+ */
+export interface AgentBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  agent: { id: string; name: string };
+  soul: Pick<AgentSoul, 'name' | 'model' | 'personality' | 'role'>;
+  skills: AgentSkill[];
+  memory: Pick<AgentMemory, 'memories' | 'workFiles' | 'conversations'>;
+  model: ModelConfig;               // apiKey / apiKeyRef 已移除，导入时重新提供
+  persona: {
+    systemPrompt?: string;          // 固定的基础提示词（默认 Agent 的角色设定、子Agent 的工作说明）
+    composedPrompt: string;         // 导出时完整的系统提示词，仅供查看
+  };
+}
+
+// 导入时 ID 已被占用的处理方式：fail 返回 409，rename 使用新的 ID，replace 删除原 Agent 后导入
+export type BundleConflictStrategy = 'fail' | 'rename' | 'replace';
+
+export interface ImportBundleOptions {
+  id?: string;                      // 导入后的 Agent ID，默认沿用导出时的 ID
+  name?: string;                    // 导入后的名称，默认沿用导出时的名称
+  onConflict?: BundleConflictStrategy;
+  apiKey?: string;                  // 主模型的 API Key（导出包不含密钥）
+}
+
+export interface ImportBundleResult {
+  agentId: string;
+  renamedFrom?: string;             // rename 时原来的 ID
+  replaced: boolean;
+}
+
+// replace 时暂时移出的原 Agent：导入失败时据此恢复
+interface ReplacedAgent {
+  detached?: DetachedAgent;         // 只剩文件的 Agent 没有运行中的实例
+  files: Map<string, string>;
+}
+
+// Agent ID 同时用作目录名，导入时只接受字母、数字、下划线和连字符
+const AGENT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+// ========== AgentBundleManager 类 ==========
+
+/**
+ * Agent 导入导出：把单个 Agent 打包为 JSON，在其他工作区或其他实例中还原
+ */
+export class AgentBundleManager {
+  /**
+   * 导出 Agent，Agent 不存在时返回 null
+   */
+  async export(agentId: string): Promise<AgentBundle | null> {
+    const agent = agentManager.getAgent(agentId);
+    if (!agent) return null;
+
+    const [soul, skills, memory] = await Promise.all([
+      agentFileManager.readSoulFile(agentId),
+      agentFileManager.readSkillsFile(agentId),
+      agentFileManager.readMemoryFile(agentId)
+    ]);
+    const prompt = contextWindow.systemPrompt(agent, []);
+    const base = prompt.sections.filter(section => section.name === 'base').map(section => section.content);
+
+    return {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      agent: { id: agent.id, name: agent.name },
+      soul: {
+        name: soul?.name ?? agent.name,
+        model: soul?.model ?? agent.modelConfig.model,
+        personality: soul?.personality ?? '',
+        role: soul?.role ?? ''
+      },
+      skills: skills?.skills ?? [],
+      memory: {
+        memories: memory?.memories ?? [],
+        workFiles: memory?.workFiles ?? [],
+        conversations: memory?.conversations ?? []
+      },
+      model: stripSecrets(agent.modelConfig),
+      persona: {
+        systemPrompt: base.length > 0 ? base.join('\n\n') : undefined,
+        composedPrompt: prompt.content
+      }
+    };
+  }
+
+  /**
+   * 导入 Agent；ID 冲突按 onConflict 处理（默认 fail）
+   */
+  async import(bundle: unknown, options: ImportBundleOptions = {}): Promise<ImportBundleResult> {
+    const parsed = validateBundle(bundle);
+    const requestedId = options.id || parsed.agent.id;
+    if (!AGENT_ID_PATTERN.test(requestedId)) {
+      throw new AgentBundleError(`Invalid agent id: ${requestedId}`, 400);
+    }
+
+    let agentId = requestedId;
+    let previous: ReplacedAgent | undefined;
+    if (await this.isTaken(requestedId)) {
+      switch (options.onConflict ?? 'fail') {
+        case 'fail':
+          throw new AgentBundleError(`Agent already exists: ${requestedId}`, 409, await this.suggestId(requestedId));
+        case 'rename':
+          agentId = await this.suggestId(requestedId);
+          break;
+        case 'replace':
+          if (this.isBusy(requestedId)) {
+            throw new AgentBundleError(`Agent is busy, cannot replace: ${requestedId}`, 409);
+          }
+          previous = await this.setAside(requestedId);
+          break;
+        default:
+          throw new AgentBundleError(`Invalid onConflict: ${String(options.onConflict)}`, 400);
+      }
+    }
+
+    const name = options.name || parsed.agent.name;
+    try {
+      const agent = await agentManager.createAgent(
+        name,
+        { ...parsed.model, apiKey: options.apiKey },
+        agentId,
+        {
+          personality: parsed.soul.personality || undefined,
+          role: parsed.soul.role || undefined,
+          skills: parsed.skills.map(skill => ({ name: skill.name, enabled: skill.enabled !== false }))
+        }
+      );
+      await agentFileManager.updateMemoryFile(agentId, parsed.memory);
+
+      if (parsed.persona.systemPrompt) {
+        agent.conversationHistory = [{ role: 'system', content: parsed.persona.systemPrompt }];
+      }
+    } catch (error) {
+      if (previous) {
+        await this.restoreReplaced(agentId, previous);
+      }
+      throw error;
+    }
+
+    // 导入成功后才释放原 Agent 的密钥
+    if (previous?.detached) {
+      await agentManager.releaseSecrets(previous.detached.agent);
+    }
+
+    console.log(`[AgentBundleManager] Imported agent ${name} (${agentId})${agentId !== requestedId ? ` renamed from ${requestedId}` : ''}`);
+    return {
+      agentId,
+      renamedFrom: agentId !== requestedId ? requestedId : undefined,
+      replaced: !!previous
+    };
+  }
+
+  // ========== 私有方法 ==========
+
+  // Agent 正在对话或执行子任务
+  private isBusy(agentId: string): boolean {
+    const status = agentManager.getAgent(agentId)?.status;
+    if (status === 'thinking' || status === 'typing') return true;
+    return masterAgent.getAllTasks().some(task =>
+      task.subtasks.some(st => st.assignedAgentId === agentId && st.status === 'running')
+    );
+  }
+
+  // 移出原 Agent 并删除其文件，保留版本历史（导入的内容记为新版本，仍可回滚到替换前）
+  private async setAside(agentId: string): Promise<ReplacedAgent> {
+    const files = await agentFileManager.snapshotAgentFiles(agentId);
+    const detached = agentManager.detachAgent(agentId);
+    await agentFileManager.deleteAgentFiles(agentId, { keepHistory: true });
+    return { detached, files };
+  }
+
+  // 导入失败：移除创建了一半的 Agent，恢复原 Agent 的文件和实例
+  private async restoreReplaced(agentId: string, previous: ReplacedAgent): Promise<void> {
+    const partial = agentManager.detachAgent(agentId);
+    if (partial) {
+      await agentManager.releaseSecrets(partial.agent);
+    }
+    await agentFileManager.restoreAgentFiles(agentId, previous.files);
+    if (previous.detached) {
+      agentManager.attachAgent(previous.detached);
+      await agentManager.loadProfile(agentId);
+    }
+    console.warn(`[AgentBundleManager] Import failed, restored agent ${agentId}`);
+  }
+
+  // ID 已被运行中的 Agent 或残留的 Agent 文件占用
+  private async isTaken(agentId: string): Promise<boolean> {
+    if (agentManager.getAgent(agentId)) return true;
+    return (await agentFileManager.listAllAgentFiles()).includes(agentId);
+  }
+
+  // 在 ID 后追加序号，找到第一个未被占用的 ID
+  private async suggestId(agentId: string): Promise<string> {
+    const base = agentId.replace(/-\d+$/, '').slice(0, 60);
+    for (let i = 2; ; i++) {
+      const candidate = `${base}-${i}`;
+      if (!(await this.isTaken(candidate))) return candidate;
+    }
+  }
+}
+
+/**
+ * 导入错误（status 为建议的 HTTP 状态码，ID 冲突时附带可用的 ID）
+ */
+export class AgentBundleError extends Error {
+  readonly status: number;
+  readonly suggestedId?: string;
+
+  constructor(message: string, status: number, suggestedId?: string) {
+    super(message);
+    this.name = 'AgentBundleError';
+    this.status = status;
+    this.suggestedId = suggestedId;
+  }
+}
+
+// 移除模型配置（含备用模型）中的密钥和密钥引用
+function stripSecrets(config: ModelConfig): ModelConfig {
+  return {
+    ...config,
+    apiKey: undefined,
+    apiKeyRef: undefined,
+    fallbacks: config.fallbacks?.map(stripSecrets)
+  };
+}
+
+// 检查导出包的格式，补齐可省略的部分
+function validateBundle(bundle: unknown): AgentBundle {
+  const value = bundle as Partial<AgentBundle> | null;
+  if (!value || typeof value !== 'object' || value.format !== BUNDLE_FORMAT) {
+    throw new AgentBundleError(`Not an agent bundle (expected format "${BUNDLE_FORMAT}")`, 400);
+  }
+  if (typeof value.version !== 'number' || value.version > BUNDLE_VERSION) {
+    throw new AgentBundleError(`Unsupported bundle version: ${String(value.version)}`, 400);
+  }
+  if (!value.agent?.id || !value.agent.name) {
+    throw new AgentBundleError('Bundle is missing agent.id or agent.name', 400);
+  }
+  if (!value.model?.provider || !value.model.model) {
+    throw new AgentBundleError('Bundle is missing model.provider or model.model', 400);
+  }
+  if (value.skills !== undefined && (!Array.isArray(value.skills) || value.skills.some(skill => typeof skill?.name !== 'string'))) {
+    throw new AgentBundleError('Bundle skills must be an array of { name, enabled }', 400);
+  }
+  const memory = value.memory as Record<string, unknown> | undefined;
+  if (memory !== undefined && (typeof memory !== 'object' || ['memories', 'workFiles', 'conversations'].some(key => memory?.[key] !== undefined && !Array.isArray(memory[key])))) {
+    throw new AgentBundleError('Bundle memory fields must be arrays', 400);
+  }
+
+  return {
+    ...value,
+    soul: { name: value.agent.name, model: value.model.model, personality: '', role: '', ...value.soul },
+    skills: value.skills ?? [],
+    memory: {
+      memories: value.memory?.memories ?? [],
+      workFiles: value.memory?.workFiles ?? [],
+      conversations: value.memory?.conversations ?? []
+    },
+    model: stripSecrets(value.model),
+    persona: { composedPrompt: '', ...value.persona }
+  } as AgentBundle;
+}
+
+// 导出单例
+export const agentBundleManager = new AgentBundleManager();
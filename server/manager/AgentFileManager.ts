@@ -1,13 +1,16 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { randomUUID } from 'crypto';
+import { secretVault } from './SecretVault.js';
+import { workspaceScoped, workspaceDataDir } from './WorkspaceContext.js';
 
 // Agent灵魂文件接口
 export interface AgentSoul {
   agentId: string;
   name: string;
   model: string;
-  apiKeyEncrypted: string;
+  apiKeyRef?: string;        // 密钥库引用，API Key 本身不写入文件
+  apiKeyEncrypted?: string;  // 旧版 base64 编码的 API Key，启动时迁移到密钥库
   personality: string;
   role: string;
   createdAt: string;
@@ -25,10 +28,24 @@ export interface AgentSkills {
   skills: AgentSkill[];
 }
 
+// 记忆条目：来源为手动添加、工具写入、对话或子任务后的自动提取，以及整理合并的结果
+export interface AgentMemoryEntry {
+  id: string;
+  content: string;
+  kind?: 'fact' | 'preference' | 'lesson';
+  source: 'manual' | 'tool' | 'chat' | 'subtask' | 'consolidation';
+  createdAt: number;   // 旧版纯文本记忆为 0（时间未知）
+  taskId?: string;
+  subTaskId?: string;
+}
+
+// 添加记忆时可指定的来源信息
+export type MemoryOrigin = Partial<Pick<AgentMemoryEntry, 'kind' | 'source' | 'taskId' | 'subTaskId'>>;
+
 // Agent记忆接口
 export interface AgentMemory {
   agentId: string;
-  memories: string[];
+  memories: AgentMemoryEntry[];
   workFiles: string[];
   conversations: Array<{
     id: string;
@@ -41,19 +58,68 @@ export interface AgentMemory {
 export interface AgentFileConfig {
   name: string;
   model: string;
-  apiKey?: string;
+  apiKeyRef?: string;
   personality?: string;
   role?: string;
   skills?: Array<{ name: string; enabled: boolean }>;
 }
 
+// Agent 的三个文件
+export type AgentFileName = 'soul.json' | 'skills.json' | 'memory.json';
+
+// 保留版本历史的文件（灵魂和技能）
+export type VersionedFile = 'soul' | 'skills';
+
+// 文件的一个历史版本
+export interface AgentFileVersion<T = AgentSoul | AgentSkills> {
+  version: number;
+  savedAt: string;
+  author?: string;
+  note?: string;       // 如 "rollback to v3"
+  data: T;
+}
+
+// 写入版本时附带的说明
+export interface VersionMeta {
+  author?: string;
+  note?: string;
+}
+
+// 两个版本之间变化的字段（路径如 personality、skills[2].enabled）
+export interface VersionChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// 每个文件最多保留的历史版本数
+const MAX_VERSIONS = 50;
+
+// 文件写入后的通知
+type AgentFileListener = (agentId: string, file: AgentFileName) => void;
+
 export class AgentFileManager {
   private basePath: string;
+  private listeners: AgentFileListener[] = [];
 
   constructor(basePath: string = path.join(process.cwd(), 'data', 'agents')) {
     this.basePath = basePath;
   }
 
+  /**
+   * 订阅灵魂文件和技能文件的变化，返回取消订阅函数
+   */
+  onChange(listener: AgentFileListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notify(agentId: string, file: AgentFileName): void {
+    this.listeners.forEach(listener => listener(agentId, file));
+  }
+
   // 获取Agent目录路径
   private getAgentDir(agentId: string): string {
     return path.join(this.basePath, agentId);
@@ -90,17 +156,6 @@ export class AgentFileManager {
     await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
   }
 
-  // 简单的加密（实际生产环境应使用更安全的加密方式）
-  private encryptApiKey(apiKey: string): string {
-    // 使用Base64编码作为简单加密（实际应使用AES等）
-    return Buffer.from(apiKey).toString('base64');
-  }
-
-  // 解密API Key
-  private decryptApiKey(encryptedKey: string): string {
-    return Buffer.from(encryptedKey, 'base64').toString('utf-8');
-  }
-
   // ========== 灵魂文件操作 ==========
 
   async createSoulFile(agentId: string, config: AgentFileConfig): Promise<AgentSoul> {
@@ -108,13 +163,15 @@ export class AgentFileManager {
       agentId,
       name: config.name,
       model: config.model,
-      apiKeyEncrypted: config.apiKey ? this.encryptApiKey(config.apiKey) : '',
+      apiKeyRef: config.apiKeyRef,
       personality: config.personality || '乐观开朗，乐于助人',
       role: config.role || '通用助手',
       createdAt: new Date().toISOString()
     };
 
     await this.writeJsonFile(this.getFilePath(agentId, 'soul.json'), soul);
+    await this.recordVersion(agentId, 'soul', soul, { note: 'created' });
+    this.notify(agentId, 'soul.json');
     return soul;
   }
 
@@ -122,14 +179,10 @@ export class AgentFileManager {
     return this.readJsonFile<AgentSoul>(this.getFilePath(agentId, 'soul.json'));
   }
 
-  async updateSoulFile(agentId: string, data: Partial<AgentSoul>): Promise<AgentSoul | null> {
+  async updateSoulFile(agentId: string, data: Partial<AgentSoul>, meta: VersionMeta = {}): Promise<AgentSoul | null> {
     const existing = await this.readSoulFile(agentId);
     if (!existing) return null;
-
-    // 如果更新包含apiKey，需要加密
-    if (data.apiKeyEncrypted && !data.apiKeyEncrypted.includes('=')) {
-      data.apiKeyEncrypted = this.encryptApiKey(data.apiKeyEncrypted);
-    }
+    await this.ensureBaseVersion(agentId, 'soul', existing);
 
     const updated: AgentSoul = {
       ...existing,
@@ -139,6 +192,8 @@ export class AgentFileManager {
     };
 
     await this.writeJsonFile(this.getFilePath(agentId, 'soul.json'), updated);
+    await this.recordVersion(agentId, 'soul', updated, meta);
+    this.notify(agentId, 'soul.json');
     return updated;
   }
 
@@ -159,6 +214,8 @@ export class AgentFileManager {
     };
 
     await this.writeJsonFile(this.getFilePath(agentId, 'skills.json'), agentSkills);
+    await this.recordVersion(agentId, 'skills', agentSkills, { note: 'created' });
+    this.notify(agentId, 'skills.json');
     return agentSkills;
   }
 
@@ -166,9 +223,10 @@ export class AgentFileManager {
     return this.readJsonFile<AgentSkills>(this.getFilePath(agentId, 'skills.json'));
   }
 
-  async updateSkillsFile(agentId: string, skills: AgentSkill[]): Promise<AgentSkills | null> {
+  async updateSkillsFile(agentId: string, skills: AgentSkill[], meta: VersionMeta = {}): Promise<AgentSkills | null> {
     const existing = await this.readSkillsFile(agentId);
     if (!existing) return null;
+    await this.ensureBaseVersion(agentId, 'skills', existing);
 
     const updated: AgentSkills = {
       ...existing,
@@ -176,9 +234,82 @@ export class AgentFileManager {
     };
 
     await this.writeJsonFile(this.getFilePath(agentId, 'skills.json'), updated);
+    await this.recordVersion(agentId, 'skills', updated, meta);
+    this.notify(agentId, 'skills.json');
     return updated;
   }
 
+  // ========== 版本历史 ==========
+
+  /**
+   * 列出灵魂或技能文件的历史版本（从旧到新）
+   */
+  async listVersions(agentId: string, file: VersionedFile): Promise<AgentFileVersion[]> {
+    const history = await this.readJsonFile<{ versions: AgentFileVersion[] }>(this.getHistoryPath(agentId, file));
+    return history?.versions ?? [];
+  }
+
+  async getVersion(agentId: string, file: VersionedFile, version: number): Promise<AgentFileVersion | null> {
+    const versions = await this.listVersions(agentId, file);
+    return versions.find(v => v.version === version) ?? null;
+  }
+
+  /**
+   * 比较两个版本，to 省略时与最新版本比较
+   */
+  async diffVersions(agentId: string, file: VersionedFile, from: number, to?: number): Promise<{
+    from: AgentFileVersion;
+    to: AgentFileVersion;
+    changes: VersionChange[];
+  } | null> {
+    const versions = await this.listVersions(agentId, file);
+    const fromVersion = versions.find(v => v.version === from);
+    const toVersion = to === undefined ? versions[versions.length - 1] : versions.find(v => v.version === to);
+    if (!fromVersion || !toVersion) return null;
+
+    return { from: fromVersion, to: toVersion, changes: diffValues(fromVersion.data, toVersion.data) };
+  }
+
+  /**
+   * 回滚到指定版本，回滚本身记为一个新版本；灵魂文件只恢复人设字段，模型和密钥引用保持当前值
+   */
+  async rollback(agentId: string, file: VersionedFile, version: number, meta: VersionMeta = {}): Promise<AgentSoul | AgentSkills | null> {
+    const target = await this.getVersion(agentId, file, version);
+    if (!target) return null;
+
+    const rollbackMeta = { ...meta, note: meta.note || `rollback to v${version}` };
+    if (file === 'skills') {
+      return this.updateSkillsFile(agentId, (target.data as AgentSkills).skills, rollbackMeta);
+    }
+    const { name, personality, role } = target.data as AgentSoul;
+    return this.updateSoulFile(agentId, { name, personality, role }, rollbackMeta);
+  }
+
+  private getHistoryPath(agentId: string, file: VersionedFile): string {
+    return path.join(this.getAgentDir(agentId), 'history', `${file}.json`);
+  }
+
+  // 追加一个版本，超出上限时丢弃最旧的
+  private async recordVersion(agentId: string, file: VersionedFile, data: AgentSoul | AgentSkills, meta: VersionMeta): Promise<void> {
+    const versions = await this.listVersions(agentId, file);
+    const last = versions[versions.length - 1];
+    versions.push({
+      version: (last?.version ?? 0) + 1,
+      savedAt: new Date().toISOString(),
+      ...meta,
+      data
+    });
+    await this.writeJsonFile(this.getHistoryPath(agentId, file), { versions: versions.slice(-MAX_VERSIONS) });
+  }
+
+  // 早于版本历史创建的 Agent 没有历史，第一次修改前先记录原内容，保证可以回滚
+  private async ensureBaseVersion(agentId: string, file: VersionedFile, current: AgentSoul | AgentSkills): Promise<void> {
+    const versions = await this.listVersions(agentId, file);
+    if (versions.length === 0) {
+      await this.recordVersion(agentId, file, current, { note: 'initial' });
+    }
+  }
+
   // ========== 记忆文件操作 ==========
 
   async createMemoryFile(agentId: string): Promise<AgentMemory> {
@@ -194,16 +325,23 @@ export class AgentFileManager {
   }
 
   async readMemoryFile(agentId: string): Promise<AgentMemory | null> {
-    return this.readJsonFile<AgentMemory>(this.getFilePath(agentId, 'memory.json'));
+    const memory = await this.readJsonFile<AgentMemory>(this.getFilePath(agentId, 'memory.json'));
+    if (!memory) return null;
+    return { ...memory, memories: normalizeMemories(memory.memories) };
   }
 
-  async updateMemoryFile(agentId: string, data: Partial<AgentMemory>): Promise<AgentMemory | null> {
+  // memories 可以混合纯文本和记忆条目，纯文本按手动添加处理
+  async updateMemoryFile(
+    agentId: string,
+    data: Partial<Omit<AgentMemory, 'memories'>> & { memories?: Array<AgentMemoryEntry | string> }
+  ): Promise<AgentMemory | null> {
     const existing = await this.readMemoryFile(agentId);
     if (!existing) return null;
 
     const updated: AgentMemory = {
       ...existing,
       ...data,
+      memories: data.memories ? normalizeMemories(data.memories) : existing.memories,
       agentId // 确保agentId不被修改
     };
 
@@ -212,11 +350,22 @@ export class AgentFileManager {
   }
 
   // 添加记忆
-  async addMemory(agentId: string, memory: string): Promise<AgentMemory | null> {
+  async addMemory(agentId: string, memory: string, origin: MemoryOrigin = {}): Promise<AgentMemory | null> {
+    return this.addMemories(agentId, [{ content: memory, ...origin }]);
+  }
+
+  // 批量添加记忆（一次读写，避免逐条添加时互相覆盖）
+  async addMemories(agentId: string, memories: Array<{ content: string } & MemoryOrigin>): Promise<AgentMemory | null> {
     const existing = await this.readMemoryFile(agentId);
     if (!existing) return null;
 
-    existing.memories.push(memory);
+    const now = Date.now();
+    existing.memories.push(...memories.map(memory => ({
+      source: 'manual' as const,
+      ...memory,
+      id: randomUUID(),
+      createdAt: now
+    })));
     return this.updateMemoryFile(agentId, existing);
   }
 
@@ -269,11 +418,19 @@ export class AgentFileManager {
     return { soul, skills, memory };
   }
 
-  // 删除Agent的所有文件
-  async deleteAgentFiles(agentId: string): Promise<boolean> {
+  // 删除Agent的所有文件（keepHistory 时保留版本历史，之后创建的文件记为新版本）
+  async deleteAgentFiles(agentId: string, options: { keepHistory?: boolean } = {}): Promise<boolean> {
     try {
       const agentDir = this.getAgentDir(agentId);
-      await fs.rm(agentDir, { recursive: true, force: true });
+      if (!options.keepHistory) {
+        await fs.rm(agentDir, { recursive: true, force: true });
+        return true;
+      }
+
+      const entries = await fs.readdir(agentDir).catch(() => [] as string[]);
+      await Promise.all(entries
+        .filter(entry => entry !== 'history')
+        .map(entry => fs.rm(path.join(agentDir, entry), { recursive: true, force: true })));
       return true;
     } catch (error) {
       console.error(`[AgentFileManager] Failed to delete agent files for ${agentId}:`, error);
@@ -281,6 +438,33 @@ export class AgentFileManager {
     }
   }
 
+  // 读取 Agent 目录下的全部文件（相对路径 → 内容），用于操作失败时恢复
+  async snapshotAgentFiles(agentId: string): Promise<Map<string, string>> {
+    const agentDir = this.getAgentDir(agentId);
+    const snapshot = new Map<string, string>();
+    const entries = await fs.readdir(agentDir, { recursive: true }).catch(() => [] as string[]);
+
+    for (const entry of entries) {
+      const filePath = path.join(agentDir, entry);
+      if ((await fs.stat(filePath)).isFile()) {
+        snapshot.set(entry, await fs.readFile(filePath, 'utf-8'));
+      }
+    }
+    return snapshot;
+  }
+
+  // 用快照覆盖 Agent 目录
+  async restoreAgentFiles(agentId: string, snapshot: Map<string, string>): Promise<void> {
+    const agentDir = this.getAgentDir(agentId);
+    await fs.rm(agentDir, { recursive: true, force: true });
+
+    for (const [entry, content] of snapshot) {
+      const filePath = path.join(agentDir, entry);
+      await this.ensureDir(path.dirname(filePath));
+      await fs.writeFile(filePath, content, 'utf-8');
+    }
+  }
+
   // 检查Agent文件是否存在
   async agentFilesExist(agentId: string): Promise<boolean> {
     try {
@@ -293,6 +477,27 @@ export class AgentFileManager {
     }
   }
 
+  // 将旧版灵魂文件中 base64 编码的 API Key 迁移到密钥库，返回迁移的 Agent 数
+  async migrateLegacyApiKeys(): Promise<number> {
+    let migrated = 0;
+    for (const agentId of await this.listAllAgentFiles()) {
+      const soul = await this.readSoulFile(agentId);
+      if (!soul || soul.apiKeyEncrypted === undefined) continue;
+
+      const { apiKeyEncrypted, ...rest } = soul;
+      const updated: AgentSoul = { ...rest };
+      if (apiKeyEncrypted) {
+        updated.apiKeyRef = await secretVault.put(Buffer.from(apiKeyEncrypted, 'base64').toString('utf-8'), `agent:${agentId}`);
+        migrated++;
+      }
+      await this.writeJsonFile(this.getFilePath(agentId, 'soul.json'), updated);
+    }
+    if (migrated > 0) {
+      console.log(`[AgentFileManager] Migrated ${migrated} legacy API keys to the secret vault`);
+    }
+    return migrated;
+  }
+
   // 获取所有Agent的文件列表
   async listAllAgentFiles(): Promise<string[]> {
     try {
@@ -306,5 +511,31 @@ export class AgentFileManager {
   }
 }
 
-// 导出单例
-export const agentFileManager = new AgentFileManager();
+// 兼容旧版纯文本记忆，以及 PUT 接口直接提交的字符串
+function normalizeMemories(memories: Array<AgentMemoryEntry | string>): AgentMemoryEntry[] {
+  return memories.map((memory, index) => typeof memory === 'string'
+    ? { id: `legacy-${index}`, content: memory, source: 'manual', createdAt: 0 }
+    : { ...memory, id: memory.id || randomUUID(), source: memory.source || 'manual', createdAt: memory.createdAt ?? Date.now() });
+}
+
+// 逐字段比较两个 JSON 值（updatedAt 每次都会变化，不计入差异）
+function diffValues(before: unknown, after: unknown, prefix: string = ''): VersionChange[] {
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+  if (!isObject(before) || !isObject(after) || Array.isArray(before) !== Array.isArray(after)) {
+    return [{ path: prefix || '$', before, after }];
+  }
+
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys
+    .filter(key => !(prefix === '' && key === 'updatedAt'))
+    .flatMap(key => {
+      const childPath = Array.isArray(after) ? `${prefix}[${key}]` : prefix ? `${prefix}.${key}` : key;
+      return diffValues(before[key], after[key], childPath);
+    });
+}
+
+// 导出单例（按工作区隔离，数据在工作区目录的 agents/ 下）
+export const agentFileManager = workspaceScoped('agentFileManager', () => new AgentFileManager(path.join(workspaceDataDir(), 'agents')));
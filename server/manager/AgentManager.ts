@@ -1,12 +1,30 @@
 import { randomUUID } from 'crypto';
-import type { AgentInstance, Message, ModelConfig, AgentStatus, SSEEvent } from '../types.js';
+import type { AgentInstance, AgentProfile, Message, MessageContent, ModelConfig, AgentStatus, RecalledMemory, SSEEvent, ServedModel, StreamChunk, ToolCall } from '../types.js';
 import { AdapterFactory } from '../adapters/index.js';
-import { BaseAdapter } from '../adapters/BaseAdapter.js';
-import { AgentFileManager, agentFileManager } from './AgentFileManager.js';
+import { BaseAdapter, isAbortError } from '../adapters/BaseAdapter.js';
+import { AgentFileManager, agentFileManager, type AgentFileConfig } from './AgentFileManager.js';
+import { toolRegistry, type ToolExecutionResult } from './ToolRegistry.js';
+import { modelRouter } from './ModelRouter.js';
+import { usageLedger, type UsageContext } from './UsageLedger.js';
+import { secretVault } from './SecretVault.js';
+import { contextWindow } from './ContextWindow.js';
+import { memoryRetriever } from './MemoryRetriever.js';
+import { messageText } from '../adapters/content.js';
+import { workspaceScoped } from './WorkspaceContext.js';
 
 // SSE 事件监听者
 type EventListener = (event: SSEEvent) => void;
 
+// 对话流分片：除文本外还会携带检索到的记忆和中间的工具调用与结果
+export interface AgentStreamChunk extends StreamChunk {
+  memories?: RecalledMemory[];
+  toolCall?: ToolCall;
+  toolResult?: ToolExecutionResult;
+}
+
+// 单次对话中工具调用的最大轮数
+const MAX_TOOL_ROUNDS = 5;
+
 // 默认Agent配置
 const DEFAULT_AGENTS = [
   {
@@ -32,26 +50,36 @@ const DEFAULT_AGENTS = [
   }
 ];
 
-// MiniMax 默认模型配置
-const MINIMAX_CONFIG: ModelConfig = {
-  id: 'minimax-default',
-  name: 'MiniMax M2.5',
-  provider: 'minimax',
-  baseUrl: 'https://api.minimaxi.com/anthropic',
-  model: 'MiniMax-M2.5',
-  temperature: 0.7,
-  maxTokens: 2000,
-  enabled: true
-};
+// 移出管理器的 Agent 及其适配器
+export interface DetachedAgent {
+  agent: AgentInstance;
+  adapter: BaseAdapter;
+}
 
 export class AgentManager {
   private agents: Map<string, AgentInstance> = new Map();
   private adapters: Map<string, BaseAdapter> = new Map();
   private eventListeners: EventListener[] = [];
+  private initialized: Promise<void>;
 
   constructor() {
+    // 灵魂文件或技能文件变化时重新加载 Agent 的身份与技能
+    agentFileManager.onChange((agentId, file) => {
+      if (file === 'memory.json' || !this.agents.has(agentId)) return;
+      this.loadProfile(agentId).catch(error =>
+        console.error(`[AgentManager] Failed to reload profile for ${agentId}:`, error)
+      );
+    });
+
     // 初始化时创建默认Agent
-    this.initializeDefaultAgents();
+    this.initialized = this.initializeDefaultAgents();
+  }
+
+  /**
+   * 等待默认 Agent 创建完成
+   */
+  async whenReady(): Promise<void> {
+    await this.initialized;
   }
 
   // 初始化默认Agent
@@ -75,12 +103,14 @@ export class AgentManager {
   // 创建单个默认Agent
   private async createDefaultAgent(config: typeof DEFAULT_AGENTS[0]): Promise<void> {
     try {
-      const adapter = AdapterFactory.getOrCreateAdapter(MINIMAX_CONFIG);
+      // 每个工作区的默认Agent使用独立的适配器，状态监听不会串到其他工作区
+      const modelConfig = modelRouter.resolve('agent');
+      const adapter = AdapterFactory.createAdapter(modelConfig);
 
       const agent: AgentInstance = {
         id: config.id,
         name: config.name,
-        modelConfig: MINIMAX_CONFIG,
+        modelConfig,
         status: 'idle',
         lastActive: Date.now(),
         conversationHistory: [
@@ -99,7 +129,7 @@ export class AgentManager {
       if (!filesExist) {
         await agentFileManager.createAgentFiles(config.id, {
           name: config.name,
-          model: MINIMAX_CONFIG.model,
+          model: modelConfig.model,
           personality: config.personality,
           role: '默认助手',
           skills: [
@@ -112,6 +142,7 @@ export class AgentManager {
         });
         console.log(`[AgentManager] Created agent files for default agent: ${config.name}`);
       }
+      await this.loadProfile(config.id);
 
       // 监听适配器状态变化
       adapter.onStatusChange((status) => {
@@ -131,11 +162,18 @@ export class AgentManager {
     }
   }
 
-  // 创建 Agent
-  async createAgent(name: string, modelConfig: ModelConfig): Promise<AgentInstance> {
-    const id = randomUUID();
-    const adapter = AdapterFactory.getOrCreateAdapter(modelConfig);
-    
+  // 创建 Agent（可指定 ID 和灵魂、技能文件的初始内容，例如总指挥创建的子Agent）
+  // 明文 API Key 存入密钥库，Agent 只保存引用；每个 Agent 使用独立的适配器，避免同一预设的不同密钥共用
+  // 文件已存在时（重启后恢复子Agent、克隆工作区）保留原文件
+  async createAgent(
+    name: string,
+    modelConfig: ModelConfig,
+    id: string = randomUUID(),
+    files: Pick<AgentFileConfig, 'personality' | 'role' | 'skills'> = {}
+  ): Promise<AgentInstance> {
+    modelConfig = await secretVault.sealModelConfig(modelConfig, `agent:${id}`);
+    const adapter = AdapterFactory.createAdapter(modelConfig);
+
     const agent: AgentInstance = {
       id,
       name,
@@ -150,21 +188,24 @@ export class AgentManager {
 
     // 创建Agent的三个文件
     try {
-      await agentFileManager.createAgentFiles(id, {
-        name,
-        model: modelConfig.model,
-        apiKey: modelConfig.apiKey,
-        personality: '乐观开朗，乐于助人',
-        role: '通用助手',
-        skills: [
-          { name: '代码审查', enabled: true },
-          { name: '文档生成', enabled: false },
-          { name: '代码重构', enabled: true },
-          { name: 'Bug修复', enabled: true },
-          { name: '技术咨询', enabled: true }
-        ]
-      });
-      console.log(`[AgentManager] Created agent files for: ${name} (${id})`);
+      if (!(await agentFileManager.agentFilesExist(id))) {
+        await agentFileManager.createAgentFiles(id, {
+          name,
+          model: modelConfig.model,
+          apiKeyRef: modelConfig.apiKeyRef,
+          personality: files.personality ?? '乐观开朗，乐于助人',
+          role: files.role ?? '通用助手',
+          skills: files.skills ?? [
+            { name: '代码审查', enabled: true },
+            { name: '文档生成', enabled: false },
+            { name: '代码重构', enabled: true },
+            { name: 'Bug修复', enabled: true },
+            { name: '技术咨询', enabled: true }
+          ]
+        });
+        console.log(`[AgentManager] Created agent files for: ${name} (${id})`);
+      }
+      await this.loadProfile(id);
     } catch (error) {
       console.error(`[AgentManager] Failed to create agent files for ${id}:`, error);
     }
@@ -194,11 +235,39 @@ export class AgentManager {
     return this.agents.get(id);
   }
 
+  /**
+   * 从灵魂文件和技能文件加载 Agent 的身份与技能（只保留已启用的技能），文件缺失时保持原值
+   */
+  async loadProfile(id: string): Promise<AgentProfile | undefined> {
+    const agent = this.agents.get(id);
+    if (!agent) return undefined;
+
+    const [soul, skills] = await Promise.all([
+      agentFileManager.readSoulFile(id),
+      agentFileManager.readSkillsFile(id)
+    ]);
+    if (!soul) return agent.profile;
+
+    agent.profile = {
+      name: soul.name || agent.name,
+      role: soul.role,
+      personality: soul.personality,
+      skills: skills?.skills.filter(skill => skill.enabled).map(skill => skill.name) ?? []
+    };
+    return agent.profile;
+  }
+
+  // 获取 Agent 使用的适配器（用于以 Agent 自己的模型完成对话以外的请求）
+  getAdapter(id: string): BaseAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
   // 删除 Agent
   async removeAgent(id: string): Promise<boolean> {
-    const deleted = this.agents.delete(id);
-    if (deleted) {
-      this.adapters.delete(id);
+    const detached = this.detachAgent(id);
+    const deleted = !!detached;
+    if (detached) {
+      await this.releaseSecrets(detached.agent);
       
       // 删除Agent的三个文件
       try {
@@ -211,6 +280,74 @@ export class AgentManager {
     return deleted;
   }
 
+  // 从管理器中移出 Agent，不删除文件和密钥（导入替换失败时可用 attachAgent 恢复）
+  detachAgent(id: string): DetachedAgent | undefined {
+    const agent = this.agents.get(id);
+    const adapter = this.adapters.get(id);
+    if (!agent || !adapter) return undefined;
+
+    adapter.clearListeners();
+    this.agents.delete(id);
+    this.adapters.delete(id);
+    return { agent, adapter };
+  }
+
+  // 重新接入移出的 Agent
+  attachAgent({ agent, adapter }: DetachedAgent): void {
+    this.agents.set(agent.id, agent);
+    this.adapters.set(agent.id, adapter);
+    adapter.onStatusChange((status) => {
+      this.updateAgentStatus(agent.id, status);
+    });
+  }
+
+  // 删除 Agent 自己的密钥（降级后使用的路由密钥不属于 Agent，按标签区分）
+  async releaseSecrets(agent: AgentInstance): Promise<void> {
+    await secretVault.releaseModelConfig(agent.modelConfig, `agent:${agent.id}`).catch(error =>
+      console.error(`[AgentManager] Failed to delete secrets for ${agent.id}:`, error)
+    );
+  }
+
+  // 切换 Agent 使用的模型（保留对话历史）
+  updateAgentModel(id: string, modelConfig: ModelConfig): boolean {
+    const agent = this.agents.get(id);
+    if (!agent) return false;
+
+    const adapter = AdapterFactory.createAdapter(modelConfig);
+    adapter.onStatusChange((status) => {
+      this.updateAgentStatus(id, status);
+    });
+
+    agent.modelConfig = modelConfig;
+    this.adapters.get(id)?.clearListeners();
+    this.adapters.set(id, adapter);
+    return true;
+  }
+
+  /**
+   * 更新 Agent 的 API Key：已有引用时原地替换（适配器下次请求即生效），否则存入密钥库并切换到独立适配器
+   */
+  async updateAgentApiKey(id: string, apiKey: string): Promise<string | null> {
+    const agent = this.agents.get(id);
+    if (!agent) return null;
+
+    const ref = agent.modelConfig.apiKeyRef;
+    if (ref && secretVault.has(ref)) {
+      await secretVault.set(ref, apiKey);
+      return ref;
+    }
+
+    const modelConfig = await secretVault.sealModelConfig({ ...agent.modelConfig, apiKey, fallbacks: undefined }, `agent:${id}`);
+    const adapter = AdapterFactory.createAdapter({ ...modelConfig, fallbacks: agent.modelConfig.fallbacks });
+    adapter.onStatusChange((status) => {
+      this.updateAgentStatus(id, status);
+    });
+    agent.modelConfig = { ...modelConfig, fallbacks: agent.modelConfig.fallbacks };
+    this.adapters.get(id)?.clearListeners();
+    this.adapters.set(id, adapter);
+    return modelConfig.apiKeyRef!;
+  }
+
   // 更新 Agent 状态
   updateAgentStatus(id: string, status: AgentStatus): void {
     const agent = this.agents.get(id);
@@ -227,8 +364,13 @@ export class AgentManager {
     }
   }
 
-  // 发送消息给 Agent
-  async sendMessage(agentId: string, content: string): Promise<AsyncGenerator<{ content: string; done: boolean }, void, unknown> | null> {
+  // 发送消息给 Agent（usageContext 用于把 Token 用量记到任务/子任务上）
+  async sendMessage(
+    agentId: string,
+    content: MessageContent,
+    usageContext: UsageContext = {},
+    signal?: AbortSignal
+  ): Promise<AsyncGenerator<AgentStreamChunk, void, unknown> | null> {
     const agent = this.agents.get(agentId);
     const adapter = this.adapters.get(agentId);
 
@@ -243,49 +385,153 @@ export class AgentManager {
     });
 
     // 创建流式响应生成器
-    const streamGenerator = this.createStreamGenerator(agent, adapter);
+    const streamGenerator = this.createStreamGenerator(agent, adapter, usageContext, signal);
     
     return streamGenerator;
   }
 
+  // 流式对话 + 工具循环：模型请求工具时执行服务端工具，把结果回填后继续对话
   private async *createStreamGenerator(
     agent: AgentInstance, 
-    adapter: BaseAdapter
-  ): AsyncGenerator<{ content: string; done: boolean }, void, unknown> {
+    adapter: BaseAdapter,
+    usageContext: UsageContext,
+    signal?: AbortSignal
+  ): AsyncGenerator<AgentStreamChunk, void, unknown> {
+    // 历史超出上下文窗口的阈值时，先把较早的对话摘要为记忆
+    await contextWindow.compact(agent, usageContext);
+
+    // 按本次输入检索相关记忆，随系统提示词发送
+    agent.recalledMemories = await this.recallMemories(agent);
+    if (agent.recalledMemories.length > 0) {
+      this.emitEvent({
+        type: 'memory_recall',
+        agentId: agent.id,
+        data: { memories: agent.recalledMemories },
+        timestamp: Date.now()
+      });
+      yield { content: '', done: false, memories: agent.recalledMemories };
+    }
+
     const messages = [...agent.conversationHistory];
+    const tools = toolRegistry.getDefinitions();
     let fullResponse = '';
+    let finalContent = '';
+    let servedBy: ServedModel | undefined;
 
     try {
-      for await (const chunk of adapter.streamChat(messages)) {
-        if (!chunk.done) {
+      for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        // 达到轮数上限后不再提供工具，强制模型给出最终回答
+        const roundTools = round < MAX_TOOL_ROUNDS ? tools : [];
+        let roundContent = '';
+        let toolCalls: ToolCall[] = [];
+
+        // 每轮按上下文窗口装入消息（工具结果可能使本轮消息继续增长）
+        const windowed = contextWindow.build(agent, messages);
+        for await (const chunk of adapter.streamChat(windowed, { tools: roundTools, signal })) {
+          if (chunk.done) {
+            toolCalls = chunk.toolCalls || [];
+            servedBy = chunk.servedBy ?? servedBy;
+            usageLedger.record(adapter, chunk.usage, { role: 'agent', ...usageContext, agentId: agent.id }, chunk.servedBy);
+            continue;
+          }
+
+          roundContent += chunk.content;
           fullResponse += chunk.content;
+
+          this.emitEvent({
+            type: 'message_chunk',
+            agentId: agent.id,
+            data: { 
+              content: chunk.content,
+              fullMessage: fullResponse 
+            },
+            timestamp: Date.now()
+          });
+
+          yield chunk;
+        }
+
+        if (toolCalls.length === 0) {
+          finalContent = roundContent;
+          break;
         }
-        
-        this.emitEvent({
-          type: chunk.done ? 'message_complete' : 'message_chunk',
-          agentId: agent.id,
-          data: { 
-            content: chunk.content,
-            fullMessage: fullResponse 
-          },
-          timestamp: Date.now()
-        });
 
-        yield chunk;
+        const assistantMessage: Message = { role: 'assistant', content: roundContent, toolCalls };
+        messages.push(assistantMessage);
+        agent.conversationHistory.push(assistantMessage);
+
+        // 取消、暂停或超时中断时为未执行的工具调用补上取消结果，保证每个工具调用都有对应结果，
+        // 否则历史中留下未应答的工具调用，下次请求会被供应商拒绝
+        let answered = 0;
+        try {
+          for (const call of toolCalls) {
+            signal?.throwIfAborted();
+            this.emitEvent({
+              type: 'tool_call',
+              agentId: agent.id,
+              data: { toolCall: call },
+              timestamp: Date.now()
+            });
+            yield { content: '', done: false, toolCall: call };
+
+            const result = await toolRegistry.execute(call, { agentId: agent.id });
+
+            this.emitEvent({
+              type: 'tool_result',
+              agentId: agent.id,
+              data: { toolResult: result },
+              timestamp: Date.now()
+            });
+            yield { content: '', done: false, toolResult: result };
+
+            const toolMessage: Message = {
+              role: 'tool',
+              content: result.content,
+              toolCallId: result.toolCallId,
+              name: result.name
+            };
+            messages.push(toolMessage);
+            agent.conversationHistory.push(toolMessage);
+            answered++;
+          }
+        } finally {
+          for (const call of toolCalls.slice(answered)) {
+            agent.conversationHistory.push({ role: 'tool', content: '工具调用已取消', toolCallId: call.id, name: call.name });
+          }
+        }
       }
 
-      // 添加助手回复到历史
+      this.emitEvent({
+        type: 'message_complete',
+        agentId: agent.id,
+        data: { 
+          content: '',
+          fullMessage: fullResponse,
+          servedBy
+        },
+        timestamp: Date.now()
+      });
+
+      yield { content: '', done: true, servedBy };
+
+      // 添加助手回复到历史（工具轮次的文本已随工具调用记录）
       agent.conversationHistory.push({
         role: 'assistant',
-        content: fullResponse
+        content: finalContent
       });
 
-      // 限制历史记录长度
-      if (agent.conversationHistory.length > 20) {
-        agent.conversationHistory = agent.conversationHistory.slice(-20);
+    } catch (error) {
+      // 取消不是错误：推送 cancelled 事件，已生成的部分内容不写入历史
+      if (isAbortError(error, signal)) {
+        this.emitEvent({
+          type: 'cancelled',
+          agentId: agent.id,
+          data: { fullMessage: fullResponse },
+          timestamp: Date.now()
+        });
+        throw error;
       }
 
-    } catch (error) {
       this.emitEvent({
         type: 'error',
         agentId: agent.id,
@@ -298,12 +544,25 @@ export class AgentManager {
     }
   }
 
+  // 以最近一条用户消息为查询检索记忆，检索失败时不注入记忆，不影响对话
+  private async recallMemories(agent: AgentInstance): Promise<RecalledMemory[]> {
+    const lastUser = [...agent.conversationHistory].reverse().find(message => message.role === 'user');
+    if (!lastUser) return [];
+
+    try {
+      return await memoryRetriever.retrieve(agent, messageText(lastUser.content));
+    } catch (error) {
+      console.error(`[AgentManager] Failed to recall memories for ${agent.id}:`, error);
+      return [];
+    }
+  }
+
   // Agent 间对话
   async sendMessageBetweenAgents(
     fromAgentId: string, 
     toAgentId: string, 
     content: string
-  ): Promise<AsyncGenerator<{ content: string; done: boolean }, void, unknown> | null> {
+  ): Promise<AsyncGenerator<AgentStreamChunk, void, unknown> | null> {
     // 记录发送者的状态
     this.updateAgentStatus(fromAgentId, 'typing');
     
@@ -340,6 +599,18 @@ export class AgentManager {
     });
   }
 
+  // 清空对话历史和记忆摘要（保留开头的系统提示词）
+  clearHistory(id: string): boolean {
+    const agent = this.agents.get(id);
+    if (!agent) return false;
+
+    const pinned = agent.conversationHistory.findIndex(message => message.role !== 'system');
+    agent.conversationHistory = pinned === -1 ? agent.conversationHistory : agent.conversationHistory.slice(0, pinned);
+    agent.contextSummary = undefined;
+    agent.recalledMemories = undefined;
+    return true;
+  }
+
   // 清理所有 Agent
   clear(): void {
     this.agents.clear();
@@ -348,5 +619,5 @@ export class AgentManager {
   }
 }
 
-// 导出单例
-export const agentManager = new AgentManager();
+// 导出单例（按工作区隔离）
+export const agentManager = workspaceScoped('agentManager', () => new AgentManager());
@@ -0,0 +1,370 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomBytes, randomUUID, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// ========== 类型定义 ==========
+
+// 角色：viewer 只读观看，operator 可执行任务和处理异常，admin 可修改配置和密钥
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+// 请求的身份
+export interface AuthPrincipal {
+  kind: 'session' | 'token' | 'anonymous';  // anonymous：认证关闭时的默认身份
+  name: string;                             // 用户名或 API Token 名称
+  role: Role;
+  tokenId?: string;
+}
+
+interface StoredUser {
+  username: string;
+  role: Role;
+  passwordHash: string;   // scrypt$<salt>$<hash>
+  createdAt: number;
+}
+
+interface StoredToken {
+  id: string;
+  name: string;
+  role: Role;
+  tokenHash: string;      // sha256，明文只在创建时返回一次
+  createdAt: number;
+  createdBy?: string;
+  lastUsedAt?: number;
+}
+
+interface Session {
+  username: string;
+  expiresAt: number;
+}
+
+interface AuthFile {
+  users: StoredUser[];
+  tokens: StoredToken[];
+}
+
+// 对外返回的用户和 Token（不含哈希）
+export type UserInfo = Omit<StoredUser, 'passwordHash'>;
+export type TokenInfo = Omit<StoredToken, 'tokenHash'>;
+
+export interface AuthConfig {
+  enabled: boolean;
+  sessionTtlMs: number;
+  maxLoginFailures: number;    // 连续失败多少次后锁定
+  lockoutMs: number;
+}
+
+const DEFAULT_CONFIG: AuthConfig = {
+  enabled: process.env.AUTH_DISABLED !== 'true',
+  sessionTtlMs: parseFloat(process.env.AUTH_SESSION_TTL_HOURS || '12') * 60 * 60 * 1000,
+  maxLoginFailures: 5,
+  lockoutMs: 60 * 1000
+};
+
+// 令牌前缀，便于识别泄露的凭据
+const SESSION_PREFIX = 'sess_';
+const API_TOKEN_PREFIX = 'aat_';
+
+// ========== 工具函数 ==========
+
+/**
+ * 角色是否满足要求（admin ⊇ operator ⊇ viewer）
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scrypt(password, salt, 32);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// ========== AuthManager 类 ==========
+
+/**
+ * 认证：用户名密码登录获得会话令牌，脚本使用管理员创建的 API Token
+ * 用户和 API Token 保存在 data/auth/users.json（只保存哈希），会话只保存在内存中，重启后需要重新登录
+ */
+export class AuthManager {
+  private config: AuthConfig;
+  private filePath: string;
+  private users: Map<string, StoredUser> = new Map();
+  private tokens: Map<string, StoredToken> = new Map();          // key: tokenHash
+  private sessions: Map<string, Session> = new Map();            // key: tokenHash
+  private loginFailures: Map<string, { count: number; lockedUntil: number }> = new Map();
+
+  constructor(config: Partial<AuthConfig> = {}, basePath: string = path.join(process.cwd(), 'data', 'auth')) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.filePath = path.join(basePath, 'users.json');
+  }
+
+  /**
+   * 加载用户和 Token；设置了 AUTH_ADMIN_PASSWORD 时同步管理员密码，没有任何用户时生成一次性管理员密码
+   */
+  async load(): Promise<void> {
+    try {
+      const file = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as AuthFile;
+      this.users = new Map((file.users || []).map(user => [user.username, user]));
+      this.tokens = new Map((file.tokens || []).map(token => [token.tokenHash, token]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    if (!this.config.enabled) {
+      console.warn('[AuthManager] Authentication is disabled (AUTH_DISABLED=true), every request is treated as admin');
+      return;
+    }
+
+    const adminUser = process.env.AUTH_ADMIN_USER || 'admin';
+    const adminPassword = process.env.AUTH_ADMIN_PASSWORD;
+    if (adminPassword) {
+      const existing = this.users.get(adminUser);
+      if (!existing || existing.role !== 'admin' || !(await verifyPassword(adminPassword, existing.passwordHash))) {
+        await this.saveUser(adminUser, adminPassword, 'admin');
+      }
+    } else if (this.users.size === 0) {
+      const generated = randomBytes(12).toString('base64url');
+      await this.saveUser(adminUser, generated, 'admin');
+      console.warn(`[AuthManager] Created initial admin "${adminUser}" with password: ${generated}`);
+      console.warn('[AuthManager] Change it after logging in, or set AUTH_ADMIN_PASSWORD');
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  // ========== 登录与会话 ==========
+
+  /**
+   * 用户名密码登录，返回会话令牌；连续失败超过上限时暂时锁定该用户名
+   */
+  async login(username: string, password: string): Promise<{ token: string; expiresAt: number; user: UserInfo }> {
+    const failure = this.loginFailures.get(username);
+    if (failure && failure.lockedUntil > Date.now()) {
+      throw new AuthError('Too many failed attempts, try again later', 429);
+    }
+
+    const user = this.users.get(username);
+    // 用户不存在时也计算一次哈希，避免通过响应时间判断用户名是否存在
+    const valid = user
+      ? await verifyPassword(password, user.passwordHash)
+      : (await hashPassword(password), false);
+
+    if (!user || !valid) {
+      // 防止随机用户名撑大失败记录
+      if (this.loginFailures.size > 10000) this.loginFailures.clear();
+      const count = (failure?.count || 0) + 1;
+      this.loginFailures.set(username, {
+        count,
+        lockedUntil: count >= this.config.maxLoginFailures ? Date.now() + this.config.lockoutMs : 0
+      });
+      throw new AuthError('Invalid username or password', 401);
+    }
+
+    this.loginFailures.delete(username);
+    this.pruneSessions();
+    const token = `${SESSION_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const expiresAt = Date.now() + this.config.sessionTtlMs;
+    this.sessions.set(hashToken(token), { username, expiresAt });
+    return { token, expiresAt, user: this.toUserInfo(user) };
+  }
+
+  /**
+   * 注销会话
+   */
+  logout(token: string): void {
+    this.sessions.delete(hashToken(token));
+  }
+
+  /**
+   * 按会话令牌或 API Token 识别身份（无效时返回 null）；认证关闭时返回管理员身份
+   */
+  authenticate(token: string | undefined): AuthPrincipal | null {
+    if (!this.config.enabled) {
+      return { kind: 'anonymous', name: 'anonymous', role: 'admin' };
+    }
+    if (!token) return null;
+
+    const tokenHash = hashToken(token);
+    if (token.startsWith(SESSION_PREFIX)) {
+      const session = this.sessions.get(tokenHash);
+      if (!session || session.expiresAt <= Date.now()) {
+        this.sessions.delete(tokenHash);
+        return null;
+      }
+      // 每次按当前角色判断，删除用户或降级立即生效
+      const user = this.users.get(session.username);
+      return user ? { kind: 'session', name: user.username, role: user.role } : null;
+    }
+
+    const apiToken = this.tokens.get(tokenHash);
+    if (!apiToken) return null;
+    apiToken.lastUsedAt = Date.now();
+    return { kind: 'token', name: apiToken.name, role: apiToken.role, tokenId: apiToken.id };
+  }
+
+  // ========== 用户管理 ==========
+
+  listUsers(): UserInfo[] {
+    return Array.from(this.users.values()).map(user => this.toUserInfo(user));
+  }
+
+  /**
+   * 创建或更新用户（更新时重置密码和角色）
+   */
+  async saveUser(username: string, password: string, role: Role): Promise<UserInfo> {
+    const existing = this.users.get(username);
+    const user: StoredUser = {
+      username,
+      role,
+      passwordHash: await hashPassword(password),
+      createdAt: existing?.createdAt ?? Date.now()
+    };
+    this.users.set(username, user);
+    // 重置密码后注销该用户的所有会话
+    if (existing) this.revokeSessions(username);
+    await this.persist();
+    return this.toUserInfo(user);
+  }
+
+  /**
+   * 修改自己的密码
+   */
+  async changePassword(username: string, currentPassword: string, newPassword: string): Promise<void> {
+    const user = this.users.get(username);
+    if (!user || !(await verifyPassword(currentPassword, user.passwordHash))) {
+      throw new AuthError('Current password is incorrect', 401);
+    }
+    await this.saveUser(username, newPassword, user.role);
+  }
+
+  /**
+   * 删除用户（不能删除最后一个管理员）
+   */
+  async deleteUser(username: string): Promise<boolean> {
+    const user = this.users.get(username);
+    if (!user) return false;
+    const admins = Array.from(this.users.values()).filter(u => u.role === 'admin');
+    if (user.role === 'admin' && admins.length === 1) {
+      throw new AuthError('Cannot delete the last admin', 400);
+    }
+    this.users.delete(username);
+    this.revokeSessions(username);
+    await this.persist();
+    return true;
+  }
+
+  // ========== API Token ==========
+
+  listTokens(): TokenInfo[] {
+    return Array.from(this.tokens.values()).map(token => this.toTokenInfo(token));
+  }
+
+  /**
+   * 创建 API Token，明文只在此处返回一次
+   */
+  async createToken(name: string, role: Role, createdBy?: string): Promise<{ token: string; info: TokenInfo }> {
+    const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const stored: StoredToken = { id: randomUUID(), name, role, tokenHash: hashToken(token), createdAt: Date.now(), createdBy };
+    this.tokens.set(stored.tokenHash, stored);
+    await this.persist();
+    return { token, info: this.toTokenInfo(stored) };
+  }
+
+  async revokeToken(id: string): Promise<boolean> {
+    const entry = Array.from(this.tokens.entries()).find(([, token]) => token.id === id);
+    if (!entry) return false;
+    this.tokens.delete(entry[0]);
+    await this.persist();
+    return true;
+  }
+
+  // ========== 配置 ==========
+
+  getConfig(): AuthConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Partial<AuthConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  // ========== 私有方法 ==========
+
+  private toUserInfo(user: StoredUser): UserInfo {
+    return { username: user.username, role: user.role, createdAt: user.createdAt };
+  }
+
+  private toTokenInfo(token: StoredToken): TokenInfo {
+    return {
+      id: token.id,
+      name: token.name,
+      role: token.role,
+      createdAt: token.createdAt,
+      createdBy: token.createdBy,
+      lastUsedAt: token.lastUsedAt
+    };
+  }
+
+  private revokeSessions(username: string): void {
+    for (const [hash, session] of this.sessions) {
+      if (session.username === username) this.sessions.delete(hash);
+    }
+  }
+
+  private pruneSessions(): void {
+    const now = Date.now();
+    for (const [hash, session] of this.sessions) {
+      if (session.expiresAt <= now) this.sessions.delete(hash);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const file: AuthFile = {
+      users: Array.from(this.users.values()),
+      tokens: Array.from(this.tokens.values())
+    };
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * 认证错误（status 为建议的 HTTP 状态码）
+ */
+export class AuthError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+// 导出单例
+export const authManager = new AuthManager();
@@ -0,0 +1,261 @@
+import { EventEmitter } from 'events';
+import { usageLedger } from './UsageLedger.js';
+import { taskStore } from './TaskStore.js';
+import { workspaceScoped } from './WorkspaceContext.js';
+
+// ========== 类型定义 ==========
+
+// 预算限制（未设置的项不限制）
+export interface BudgetLimits {
+  maxTokens?: number;
+  maxCost?: number;        // 与用量账本币种一致
+  maxDurationMs?: number;  // 墙钟时间
+  maxCalls?: number;       // LLM 调用次数
+}
+
+export type BudgetMetric = 'tokens' | 'cost' | 'duration' | 'calls';
+
+// 当前消耗
+export interface BudgetUsage {
+  tokens: number;
+  cost: number;
+  durationMs: number;
+  calls: number;
+}
+
+// 超限详情
+export interface BudgetViolation {
+  scope: 'task' | 'global';
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+}
+
+// 预算状态（任务预算与全局预算共用）
+export interface BudgetState {
+  limits: BudgetLimits;
+  startedAt: number;
+  status: 'active' | 'exceeded';
+  violation?: BudgetViolation;
+}
+
+export interface TaskBudget extends BudgetState {
+  taskId: string;
+}
+
+// 预算事件
+export interface BudgetEvent {
+  type: 'budget_set' | 'budget_exceeded' | 'budget_extended';
+  taskId?: string;
+  data: {
+    scope: 'task' | 'global';
+    limits: BudgetLimits;
+    violation?: BudgetViolation;
+  };
+  timestamp: number;
+}
+
+// 全局预算的持久化ID
+const GLOBAL_BUDGET_ID = 'global';
+
+const METRIC_LIMITS: Array<[BudgetMetric, keyof BudgetLimits]> = [
+  ['tokens', 'maxTokens'],
+  ['cost', 'maxCost'],
+  ['duration', 'maxDurationMs'],
+  ['calls', 'maxCalls']
+];
+
+export const BUDGET_LIMIT_KEYS: Array<keyof BudgetLimits> = METRIC_LIMITS.map(([, key]) => key);
+
+// ========== BudgetManager 类 ==========
+
+export class BudgetManager extends EventEmitter {
+  private budgets: Map<string, TaskBudget> = new Map();
+  private global: BudgetState = { limits: {}, startedAt: Date.now(), status: 'active' };
+
+  // ========== 设置预算 ==========
+
+  /**
+   * 设置任务预算（startedAt 为任务提交时间，墙钟时间从此开始计算）
+   */
+  setTaskBudget(taskId: string, limits: BudgetLimits, startedAt: number = Date.now()): TaskBudget {
+    const budget: TaskBudget = { taskId, limits: { ...limits }, startedAt, status: 'active' };
+    this.budgets.set(taskId, budget);
+    this.persist(taskId, budget);
+    this.emitEvent({ type: 'budget_set', taskId, data: { scope: 'task', limits: budget.limits }, timestamp: Date.now() });
+    return budget;
+  }
+
+  /**
+   * 设置全局预算（统计窗口从设置时开始）
+   */
+  setGlobalBudget(limits: BudgetLimits): BudgetState {
+    this.global = { limits: { ...limits }, startedAt: Date.now(), status: 'active' };
+    this.persist(GLOBAL_BUDGET_ID, this.global);
+    this.emitEvent({ type: 'budget_set', data: { scope: 'global', limits: this.global.limits }, timestamp: Date.now() });
+    return this.global;
+  }
+
+  /**
+   * 追加预算：合并新的限制并解除超限状态
+   * 若超限来自全局预算，则更新全局预算并解除所有因全局预算被阻塞的任务
+   */
+  extend(taskId: string, limits: BudgetLimits = {}): boolean {
+    const budget = this.budgets.get(taskId);
+    if (!budget) return false;
+
+    if (budget.violation?.scope === 'global') {
+      this.global = { ...this.global, limits: { ...this.global.limits, ...limits }, status: 'active', violation: undefined };
+      this.persist(GLOBAL_BUDGET_ID, this.global);
+      for (const other of this.budgets.values()) {
+        if (other.status === 'exceeded' && other.violation?.scope === 'global') {
+          this.reactivate(other, {});
+        }
+      }
+      this.emitEvent({ type: 'budget_extended', taskId, data: { scope: 'global', limits: this.global.limits }, timestamp: Date.now() });
+      return true;
+    }
+
+    this.reactivate(budget, limits);
+    this.emitEvent({ type: 'budget_extended', taskId, data: { scope: 'task', limits: budget.limits }, timestamp: Date.now() });
+    return true;
+  }
+
+  // ========== 检查 ==========
+
+  /**
+   * 调度前检查：任务是否还能派发新的子任务
+   * 首次发现超限时标记任务并发出 budget_exceeded 事件
+   */
+  canDispatch(taskId: string): boolean {
+    const budget = this.budgets.get(taskId);
+    if (budget?.status === 'exceeded') return false;
+
+    const violation = this.check(taskId);
+    if (!violation) return true;
+
+    const exceeded: TaskBudget = budget || { taskId, limits: {}, startedAt: Date.now(), status: 'active' };
+    exceeded.status = 'exceeded';
+    exceeded.violation = violation;
+    this.budgets.set(taskId, exceeded);
+    this.persist(taskId, exceeded);
+
+    if (violation.scope === 'global') {
+      this.global.status = 'exceeded';
+      this.global.violation = violation;
+    }
+
+    console.warn(`[BudgetManager] Task ${taskId} exceeded ${violation.scope} ${violation.metric} budget: ${violation.used} / ${violation.limit}`);
+
+    this.emitEvent({
+      type: 'budget_exceeded',
+      taskId,
+      data: { scope: violation.scope, limits: violation.scope === 'global' ? this.global.limits : exceeded.limits, violation },
+      timestamp: Date.now()
+    });
+
+    return false;
+  }
+
+  /**
+   * 检查任务预算和全局预算，返回第一个超限项
+   */
+  check(taskId: string): BudgetViolation | null {
+    const budget = this.budgets.get(taskId);
+    if (budget) {
+      const violation = this.findViolation('task', budget.limits, this.getTaskUsage(taskId));
+      if (violation) return violation;
+    }
+    return this.findViolation('global', this.global.limits, this.getGlobalUsage());
+  }
+
+  // ========== 查询 ==========
+
+  getTaskBudget(taskId: string): TaskBudget | undefined {
+    return this.budgets.get(taskId);
+  }
+
+  getGlobalBudget(): BudgetState {
+    return { ...this.global, limits: { ...this.global.limits } };
+  }
+
+  /**
+   * 任务当前消耗
+   */
+  getTaskUsage(taskId: string): BudgetUsage {
+    const totals = usageLedger.getTaskTotals(taskId);
+    const startedAt = this.budgets.get(taskId)?.startedAt ?? Date.now();
+    return {
+      tokens: totals.totalTokens,
+      cost: totals.cost,
+      durationMs: Date.now() - startedAt,
+      calls: totals.calls
+    };
+  }
+
+  /**
+   * 全局预算窗口内的消耗
+   */
+  getGlobalUsage(): BudgetUsage {
+    const totals = usageLedger.getTotalsSince(this.global.startedAt);
+    return {
+      tokens: totals.totalTokens,
+      cost: totals.cost,
+      durationMs: Date.now() - this.global.startedAt,
+      calls: totals.calls
+    };
+  }
+
+  // ========== 持久化 ==========
+
+  /**
+   * 从持久化存储恢复预算
+   */
+  async restore(): Promise<void> {
+    const records = await taskStore.load<TaskBudget | BudgetState>('budgets');
+    for (const record of records) {
+      if ('taskId' in record) {
+        this.budgets.set(record.taskId, record);
+      } else {
+        this.global = record;
+      }
+    }
+  }
+
+  // ========== 工具方法 ==========
+
+  private findViolation(scope: BudgetViolation['scope'], limits: BudgetLimits, usage: BudgetUsage): BudgetViolation | null {
+    const used: Record<BudgetMetric, number> = {
+      tokens: usage.tokens,
+      cost: usage.cost,
+      duration: usage.durationMs,
+      calls: usage.calls
+    };
+
+    for (const [metric, key] of METRIC_LIMITS) {
+      const limit = limits[key];
+      if (limit !== undefined && used[metric] >= limit) {
+        return { scope, metric, used: used[metric], limit };
+      }
+    }
+    return null;
+  }
+
+  private reactivate(budget: TaskBudget, limits: BudgetLimits): void {
+    budget.limits = { ...budget.limits, ...limits };
+    budget.status = 'active';
+    budget.violation = undefined;
+    this.persist(budget.taskId, budget);
+  }
+
+  private persist(id: string, record: TaskBudget | BudgetState): void {
+    taskStore.persist('budgets', id, record);
+  }
+
+  private emitEvent(event: BudgetEvent): void {
+    this.emit('event', event);
+  }
+}
+
+// 导出单例（按工作区隔离）
+export const budgetManager = workspaceScoped('budgetManager', () => new BudgetManager());
@@ -3,6 +3,8 @@ import { randomUUID } from 'crypto';
 import { masterAgent, type SubAgentInfo } from './MasterAgent.js';
 import { agentManager } from './AgentManager.js';
 import { agentFileManager } from './AgentFileManager.js';
+import { taskStore } from './TaskStore.js';
+import { workspaceScoped } from './WorkspaceContext.js';
 
 // 消息类型
 export type MessageType = 
@@ -106,6 +108,7 @@ export class CollaborationManager extends EventEmitter {
     };
 
     this.sessions.set(sessionId, session);
+    taskStore.persist('sessions', sessionId, session);
 
     // 更新Agent的会话映射
     for (const agentId of participantIds) {
@@ -152,6 +155,7 @@ export class CollaborationManager extends EventEmitter {
     if (!session) return false;
 
     session.status = 'closed';
+    taskStore.persist('sessions', sessionId, session);
 
     // 保存对话记录
     if (saveRecord) {
@@ -175,6 +179,7 @@ export class CollaborationManager extends EventEmitter {
     // 延迟清理会话
     setTimeout(() => {
       this.sessions.delete(sessionId);
+      taskStore.delete('sessions', sessionId);
     }, 60000); // 1分钟后清理
 
     return true;
@@ -223,6 +228,7 @@ export class CollaborationManager extends EventEmitter {
     let session = this.findOrCreateSession(fromAgentId, toAgentId, taskId);
     session.messages.push(message);
     session.lastActivity = Date.now();
+    taskStore.persist('sessions', session.id, session);
 
     // 更新Agent状态
     fromAgent.status = 'typing';
@@ -334,7 +340,11 @@ export class CollaborationManager extends EventEmitter {
     const contextMessage = this.buildCollaborationContext(message, fromAgent, toAgent);
     
     // 通过AgentManager发送
-    const stream = await agentManager.sendMessage(message.toAgentId, contextMessage);
+    const stream = await agentManager.sendMessage(message.toAgentId, contextMessage, {
+      taskId: message.taskId,
+      subTaskId: message.subTaskId,
+      role: 'collaboration'
+    });
     
     if (!stream) {
       throw new Error(`Failed to send message to agent ${message.toAgentId}`);
@@ -571,6 +581,38 @@ export class CollaborationManager extends EventEmitter {
       .sort((a, b) => b.savedAt - a.savedAt);
   }
 
+  // ========== 持久化 ==========
+
+  /**
+   * 从持久化存储恢复协作会话
+   */
+  async restore(): Promise<void> {
+    const sessions = await taskStore.load<CollaborationSession>('sessions');
+    let restored = 0;
+
+    for (const session of sessions) {
+      // 已关闭的会话不再恢复
+      if (session.status === 'closed') {
+        taskStore.delete('sessions', session.id);
+        continue;
+      }
+
+      this.sessions.set(session.id, session);
+      for (const message of session.messages) {
+        this.messages.set(message.id, message);
+      }
+      for (const agentId of session.participantIds) {
+        if (!this.agentConversations.has(agentId)) {
+          this.agentConversations.set(agentId, new Set());
+        }
+        this.agentConversations.get(agentId)!.add(session.id);
+      }
+      restored++;
+    }
+
+    console.log(`[CollaborationManager] Restored ${restored} collaboration sessions`);
+  }
+
   // ========== 总指挥监控 ==========
 
   /**
@@ -647,5 +689,5 @@ export class CollaborationManager extends EventEmitter {
   }
 }
 
-// 导出单例
-export const collaborationManager = new CollaborationManager();
+// 导出单例（按工作区隔离）
+export const collaborationManager = workspaceScoped('collaborationManager', () => new CollaborationManager());
@@ -0,0 +1,264 @@
+import type { AgentInstance, Message, MessageContent, ModelConfig, RecalledMemory } from '../types.js';
+import { describeModel } from '../adapters/modelCatalog.js';
+import { describePart, toContentParts } from '../adapters/content.js';
+import { modelRouter } from './ModelRouter.js';
+import { usageLedger, type UsageContext } from './UsageLedger.js';
+import { promptComposer, type ComposedPrompt } from './PromptComposer.js';
+
+// ========== 配置 ==========
+
+export interface ContextWindowConfig {
+  defaultContextWindow: number;   // 模型配置和内置目录都没有上下文长度时使用
+  reservedOutputTokens: number;   // 为回复预留的 Token（模型配置了 maxTokens 时以其为准）
+  summarizeAtRatio: number;       // 历史超过输入窗口的该比例时，把较早的对话摘要为记忆
+  keepRecentRatio: number;        // 摘要后保留的最近对话占输入窗口的比例
+  minRecentMessages: number;      // 摘要时至少保留的最近消息数
+  summaryMaxChars: number;        // 摘要长度上限
+  transcriptMessageChars: number; // 摘要输入中单条消息的长度上限
+}
+
+const DEFAULT_CONFIG: ContextWindowConfig = {
+  defaultContextWindow: parseInt(process.env.DEFAULT_CONTEXT_WINDOW || '32768'),
+  reservedOutputTokens: 4096,
+  summarizeAtRatio: 0.75,
+  keepRecentRatio: 0.4,
+  minRecentMessages: 4,
+  summaryMaxChars: 2000,
+  transcriptMessageChars: 2000
+};
+
+const SUMMARY_PROMPT = `你负责压缩对话历史。请把给出的对话整理成一段简洁的记忆摘要，供后续对话参考：
+- 保留用户的目标、偏好和约束
+- 保留已经做出的决定、得出的结论和关键事实（名称、数字、文件路径等）
+- 保留尚未完成的事项和待回答的问题
+- 省略寒暄和重复内容
+只输出摘要本身，不要添加说明。`;
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  system: '系统',
+  user: '用户',
+  assistant: '助手',
+  tool: '工具结果'
+};
+
+// ========== Token 估算 ==========
+
+// 中日韩字符约 1 Token/字，其余文本约 4 字符/Token
+const CJK_PATTERN = /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const IMAGE_TOKENS = 1000;
+
+/**
+ * 估算文本的 Token 数
+ */
+export function estimateTextTokens(text: string): number {
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * 估算消息内容的 Token 数（图片按固定值，base64 文件按解码后的字节数）
+ */
+export function estimateTokens(content: MessageContent): number {
+  return toContentParts(content).reduce((total, part) => {
+    switch (part.type) {
+      case 'text':
+        return total + estimateTextTokens(part.text);
+      case 'image':
+        return total + IMAGE_TOKENS;
+      case 'file':
+        return total + (part.data ? Math.ceil((part.data.length * 3) / 4 / 4) : IMAGE_TOKENS);
+    }
+  }, 0);
+}
+
+/**
+ * 估算单条消息的 Token 数（含工具调用参数和消息格式开销）
+ */
+export function estimateMessageTokens(message: Message): number {
+  const toolCalls = message.toolCalls ? estimateTextTokens(JSON.stringify(message.toolCalls)) : 0;
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content) + toolCalls;
+}
+
+function sumTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+// 开头连续的系统消息固定保留，其余为对话轮次
+function splitPinned(messages: Message[]): { pinned: Message[]; turns: Message[] } {
+  let index = 0;
+  while (index < messages.length && messages[index].role === 'system') index++;
+  return { pinned: messages.slice(0, index), turns: messages.slice(index) };
+}
+
+// ========== ContextWindow 类 ==========
+
+/**
+ * 对话上下文窗口：按模型的上下文长度装入消息，系统提示词固定在最前，较早的对话滚动摘要为记忆
+ */
+export class ContextWindow {
+  private config: ContextWindowConfig;
+
+  constructor(config: Partial<ContextWindowConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * 模型的上下文长度：模型配置优先，其次内置目录，都没有时使用默认值
+   */
+  getLimit(modelConfig: ModelConfig): number {
+    return modelConfig.contextWindow
+      ?? describeModel(modelConfig.model, 'catalog').contextWindow
+      ?? this.config.defaultContextWindow;
+  }
+
+  /**
+   * 输入可用的 Token 数（扣除为回复预留的部分，预留最多占一半）
+   */
+  getInputBudget(modelConfig: ModelConfig): number {
+    const limit = this.getLimit(modelConfig);
+    const reserved = Math.min(modelConfig.maxTokens ?? this.config.reservedOutputTokens, Math.floor(limit / 2));
+    return limit - reserved;
+  }
+
+  /**
+   * 构建发送给模型的消息：系统提示词（见 PromptComposer）在最前，其余从最新的消息往前装入剩余窗口
+   * 最后一条消息总是保留；不以脱离了工具调用的工具结果开头
+   */
+  build(agent: AgentInstance, messages: Message[] = agent.conversationHistory): Message[] {
+    const { pinned, turns } = splitPinned(messages);
+    const system = this.systemMessage(pinned, agent);
+    let remaining = this.getInputBudget(agent.modelConfig) - (system ? estimateMessageTokens(system) : 0);
+
+    let start = turns.length;
+    while (start > 0) {
+      const tokens = estimateMessageTokens(turns[start - 1]);
+      if (tokens > remaining && start < turns.length) break;
+      remaining -= tokens;
+      start--;
+    }
+    while (start < turns.length - 1 && turns[start].role === 'tool') {
+      start++;
+    }
+
+    return system ? [system, ...turns.slice(start)] : turns.slice(start);
+  }
+
+  /**
+   * 当前会发送给模型的系统提示词（可传入其他检索结果预览）
+   */
+  systemPrompt(agent: AgentInstance, memories?: RecalledMemory[]): ComposedPrompt {
+    return promptComposer.compose(agent, splitPinned(agent.conversationHistory).pinned, memories);
+  }
+
+  /**
+   * 历史超过阈值时，把较早的对话摘要为记忆并从历史中移除，只保留最近的对话
+   * 摘要失败时历史保持不变（发送时仍按窗口裁剪），返回是否进行了摘要
+   */
+  async compact(agent: AgentInstance, usageContext: UsageContext = {}): Promise<boolean> {
+    const { pinned, turns } = splitPinned(agent.conversationHistory);
+    const budget = this.getInputBudget(agent.modelConfig);
+    const summaryTokens = agent.contextSummary ? estimateTextTokens(agent.contextSummary.content) : 0;
+    if (sumTokens(pinned) + summaryTokens + sumTokens(turns) <= budget * this.config.summarizeAtRatio) {
+      return false;
+    }
+
+    // 从最新的消息往前保留到保留比例，保留部分从用户消息开始，避免拆开工具调用和结果
+    const keepBudget = budget * this.config.keepRecentRatio;
+    let cut = turns.length;
+    let kept = 0;
+    while (cut > 0) {
+      const tokens = estimateMessageTokens(turns[cut - 1]);
+      if (turns.length - cut >= this.config.minRecentMessages && kept + tokens > keepBudget) break;
+      kept += tokens;
+      cut--;
+    }
+    while (cut < turns.length && turns[cut].role !== 'user') {
+      cut++;
+    }
+    if (cut === 0 || cut >= turns.length) {
+      return false;
+    }
+
+    const older = turns.slice(0, cut);
+    try {
+      const content = await this.summarize(older, agent.contextSummary?.content, { ...usageContext, agentId: agent.id });
+
+      // 摘要期间历史被清空或替换时放弃本次结果
+      const current = agent.conversationHistory;
+      if (current[pinned.length] !== older[0]) {
+        return false;
+      }
+
+      agent.contextSummary = {
+        content,
+        summarizedMessages: (agent.contextSummary?.summarizedMessages ?? 0) + older.length,
+        updatedAt: Date.now()
+      };
+      agent.conversationHistory = [...current.slice(0, pinned.length), ...current.slice(pinned.length + cut)];
+      console.log(`[ContextWindow] Summarized ${older.length} messages of agent ${agent.id}`);
+      return true;
+    } catch (error) {
+      console.error(`[ContextWindow] Failed to summarize history of agent ${agent.id}:`, error);
+      return false;
+    }
+  }
+
+  // ========== 配置 ==========
+
+  getConfig(): ContextWindowConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Partial<ContextWindowConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  // ========== 私有方法 ==========
+
+  // 固定的系统消息与身份、技能、对话摘要和记忆合并为一条（部分供应商只接受一条系统消息）
+  private systemMessage(pinned: Message[], agent: AgentInstance): Message | null {
+    const { content } = promptComposer.compose(agent, pinned);
+    return content ? { role: 'system', content } : null;
+  }
+
+  // 调用摘要模型，已有摘要与新移出的对话合并为新的摘要
+  private async summarize(messages: Message[], previous: string | undefined, usageContext: UsageContext): Promise<string> {
+    const transcript = messages
+      .map(message => `${ROLE_LABELS[message.role]}：${this.describeMessage(message, this.config.transcriptMessageChars)}`)
+      .join('\n\n');
+
+    const adapter = modelRouter.getAdapter('summary');
+    const response = await adapter.chat([
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `${previous ? `已有摘要：\n${previous}\n\n` : ''}需要并入摘要的对话：\n\n${transcript}\n\n请输出不超过 ${this.config.summaryMaxChars} 字的摘要。`
+      }
+    ]);
+    usageLedger.record(adapter, response.usage, { ...usageContext, role: 'summary' }, response.servedBy);
+
+    const summary = response.content.trim();
+    if (!summary) {
+      throw new Error('Summary model returned an empty response');
+    }
+    return summary.slice(0, this.config.summaryMaxChars);
+  }
+
+  // 消息的文本形式：图片和文件以描述代替，工具调用列出工具名
+  private describeMessage(message: Message, maxChars?: number): string {
+    let text = toContentParts(message.content)
+      .map(part => part.type === 'text' ? part.text : `[${describePart(part)}]`)
+      .join('\n');
+    if (message.toolCalls?.length) {
+      text += `\n[调用工具 ${message.toolCalls.map(call => call.name).join(', ')}]`;
+    }
+    if (maxChars && text.length > maxChars) {
+      text = `${text.slice(0, maxChars)}…`;
+    }
+    return text;
+  }
+}
+
+// 导出单例
+export const contextWindow = new ContextWindow();
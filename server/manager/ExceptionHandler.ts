@@ -1,9 +1,14 @@
 import { EventEmitter } from 'events';
 import { randomUUID } from 'crypto';
 import { masterAgent, type TaskResult, type SubTask } from './MasterAgent.js';
-import { taskScheduler } from './TaskScheduler.js';
+import { taskScheduler, type SchedulerEvent } from './TaskScheduler.js';
 import { taskExecutor } from './TaskExecutor.js';
 import { collaborationManager, type CollaborationRequest } from './CollaborationManager.js';
+import { taskStore } from './TaskStore.js';
+import { budgetManager, type BudgetEvent, type BudgetLimits } from './BudgetManager.js';
+import { agentManager } from './AgentManager.js';
+import { modelRouter, type ModelRoute } from './ModelRouter.js';
+import { workspaceScoped } from './WorkspaceContext.js';
 
 // 异常类型
 export type ExceptionType = 
@@ -13,8 +18,18 @@ export type ExceptionType =
   | 'dependency_fail'   // 依赖失败
   | 'resource_unavailable' // 资源不可用
   | 'validation_error'  // 验证错误
+  | 'budget_exceeded'   // 预算超限
   | 'unknown';          // 未知错误
 
+// 人工介入决策（extend_budget / downgrade 用于预算超限）
+export type InterventionDecision = 'retry' | 'skip' | 'abort' | 'reassign' | 'extend_budget' | 'downgrade';
+
+// 人工介入附加参数
+export interface InterventionOptions {
+  budget?: BudgetLimits;  // extend_budget / downgrade：追加后的预算限制
+  model?: ModelRoute;     // downgrade：切换到的模型
+}
+
 // 异常级别
 export type ExceptionSeverity = 'low' | 'medium' | 'high' | 'critical';
 
@@ -28,6 +43,7 @@ export interface ExceptionRecord {
   agentId?: string;
   message: string;
   stack?: string;
+  blockedSubTaskIds?: string[];  // dependency_fail：因依赖失败无法执行的子任务
   timestamp: number;
   status: 'pending' | 'acknowledged' | 'resolving' | 'resolved' | 'escalated';
   resolution?: {
@@ -40,7 +56,7 @@ export interface ExceptionRecord {
   humanIntervention?: {
     requestedAt: number;
     respondedAt?: number;
-    decision: 'retry' | 'skip' | 'abort' | 'reassign' | 'pending';
+    decision: InterventionDecision | 'pending';
     notes?: string;
     respondedBy?: string;
   };
@@ -106,6 +122,41 @@ export class ExceptionHandler extends EventEmitter {
   constructor(config: Partial<ExceptionConfig> = {}) {
     super();
     this.config = { ...DEFAULT_CONFIG, ...config };
+
+    // 预算超限时由调度器停止派发，这里记录异常等待人工决策
+    budgetManager.on('event', (event: BudgetEvent) => {
+      if (event.type === 'budget_exceeded' && event.taskId && event.data.violation) {
+        const { scope, metric, used, limit } = event.data.violation;
+        this.recordException({
+          type: 'budget_exceeded',
+          severity: 'high',
+          taskId: event.taskId,
+          message: `${scope === 'global' ? '全局' : '任务'}预算超限（${metric}: ${used} / ${limit}），已停止派发新的子任务`,
+          requiresHumanIntervention: true
+        });
+      }
+    });
+
+    // 依赖失败导致死锁时由调度器移出队列，这里记录异常并列出被阻塞的子任务
+    taskScheduler.on('event', (event: SchedulerEvent) => {
+      if (event.type !== 'dependency_deadlock') return;
+
+      const task = masterAgent.getTaskStatus(event.taskId);
+      const titleOf = (id: string) => task?.subtasks.find(st => st.id === id)?.title || id;
+      const failedIds: string[] = event.data.failedSubTaskIds;
+      const blockedIds: string[] = event.data.blockedSubTaskIds;
+
+      this.recordException({
+        type: 'dependency_fail',
+        severity: 'high',
+        taskId: event.taskId,
+        subTaskId: event.subTaskId,
+        message: `子任务「${failedIds.map(titleOf).join('」「')}」失败，` +
+          `${blockedIds.length} 个依赖它的子任务无法执行：${blockedIds.map(titleOf).join('、')}`,
+        blockedSubTaskIds: blockedIds,
+        requiresHumanIntervention: true
+      });
+    });
   }
 
   // ========== 异常记录与分类 ==========
@@ -121,6 +172,7 @@ export class ExceptionHandler extends EventEmitter {
     agentId?: string;
     message: string;
     error?: Error;
+    blockedSubTaskIds?: string[];
     requiresHumanIntervention?: boolean;
   }): ExceptionRecord {
     const exception: ExceptionRecord = {
@@ -132,6 +184,7 @@ export class ExceptionHandler extends EventEmitter {
       agentId: params.agentId,
       message: params.message,
       stack: params.error?.stack,
+      blockedSubTaskIds: params.blockedSubTaskIds,
       timestamp: Date.now(),
       status: 'pending',
       requiresHumanIntervention: params.requiresHumanIntervention ?? 
@@ -139,6 +192,7 @@ export class ExceptionHandler extends EventEmitter {
     };
 
     this.exceptions.set(exception.id, exception);
+    this.persistException(exception);
 
     console.error(`[ExceptionHandler] Exception recorded:`, {
       id: exception.id,
@@ -266,15 +320,9 @@ export class ExceptionHandler extends EventEmitter {
     // 延迟后重试
     await this.delay(this.config.autoRetryDelayMs * (currentRetries + 1));
 
-    // 重新提交任务
+    // 重新排队失败的子任务
     if (exception.subTaskId) {
-      const task = masterAgent.getTaskStatus(exception.taskId);
-      if (task) {
-        taskScheduler.submitTask(
-          task as any,
-          masterAgent.getAllSubAgents()
-        );
-      }
+      taskScheduler.requeueSubtasks(exception.taskId, [exception.subTaskId]);
     }
 
     // 标记为已解决
@@ -289,6 +337,15 @@ export class ExceptionHandler extends EventEmitter {
     
     console.log(`[ExceptionHandler] Skipping task ${exception.taskId}-${exception.subTaskId}`);
 
+    // 依赖失败：放弃被阻塞的子任务，让任务结束
+    if (exception.type === 'dependency_fail') {
+      for (const subTaskId of exception.blockedSubTaskIds || []) {
+        masterAgent.updateSubtaskResult(exception.taskId, subTaskId, '依赖的子任务失败，已跳过', false);
+      }
+      this.resolveException(exception.id, 'skip', exception.humanIntervention?.respondedBy || 'system', '跳过被阻塞的子任务');
+      return;
+    }
+
     // 更新子任务状态为失败但允许继续
     if (exception.subTaskId) {
       masterAgent.updateSubtaskResult(
@@ -321,14 +378,8 @@ export class ExceptionHandler extends EventEmitter {
       if (exception.subTaskId) {
         await masterAgent.assignTask(exception.taskId, newAgent.id, exception.subTaskId);
         
-        // 重新提交
-        const task = masterAgent.getTaskStatus(exception.taskId);
-        if (task) {
-          taskScheduler.submitTask(
-            task as any,
-            masterAgent.getAllSubAgents()
-          );
-        }
+        // 重新排队（使用新分配的Agent）
+        taskScheduler.requeueSubtasks(exception.taskId, [exception.subTaskId]);
       }
 
       this.resolveException(exception.id, 'reassign', 'system', `重新分配给Agent: ${newAgent.name}`);
@@ -369,13 +420,17 @@ export class ExceptionHandler extends EventEmitter {
       notes: reason
     };
 
+    this.persistException(exception);
+
     // 如果配置了关键错误暂停，暂停整个任务
     if (this.config.pauseOnCritical && exception.severity === 'critical') {
       this.pauseTask(exception.taskId, `Critical exception: ${exception.message}`);
     }
 
-    // 通知其他Agent
-    this.notifyAgentsOfException(exception);
+    // 通知其他Agent（预算超限时不通知，避免产生额外调用）
+    if (exception.type !== 'budget_exceeded') {
+      this.notifyAgentsOfException(exception);
+    }
 
     this.emit('event', {
       type: 'human_intervention_required',
@@ -398,9 +453,10 @@ export class ExceptionHandler extends EventEmitter {
    */
   respondToIntervention(
     exceptionId: string,
-    decision: 'retry' | 'skip' | 'abort' | 'reassign',
+    decision: InterventionDecision,
     respondedBy: string,
-    notes?: string
+    notes?: string,
+    options: InterventionOptions = {}
   ): boolean {
     const exception = this.exceptions.get(exceptionId);
     if (!exception || !exception.humanIntervention) return false;
@@ -410,6 +466,7 @@ export class ExceptionHandler extends EventEmitter {
     exception.humanIntervention.respondedBy = respondedBy;
     exception.humanIntervention.notes = notes;
     exception.status = 'resolving';
+    this.persistException(exception);
 
     this.emit('event', {
       type: 'human_intervention_responded',
@@ -433,11 +490,66 @@ export class ExceptionHandler extends EventEmitter {
       case 'reassign':
         this.handleReassign(exception);
         break;
+      case 'extend_budget':
+        this.handleExtendBudget(exception, options.budget);
+        break;
+      case 'downgrade':
+        this.handleDowngrade(exception, options);
+        break;
     }
 
     return true;
   }
 
+  /**
+   * 追加预算并恢复派发
+   */
+  private handleExtendBudget(exception: ExceptionRecord, limits?: BudgetLimits): void {
+    budgetManager.extend(exception.taskId, limits);
+    this.resolveException(exception.id, 'extend_budget', exception.humanIntervention?.respondedBy, '人工追加预算');
+    this.resolveUnblockedBudgetExceptions(exception.humanIntervention?.respondedBy);
+    taskScheduler.triggerDispatch();
+  }
+
+  /**
+   * 将任务中未完成子任务的Agent切换到更便宜的模型，并恢复派发
+   */
+  private handleDowngrade(exception: ExceptionRecord, options: InterventionOptions): void {
+    const task = masterAgent.getTaskStatus(exception.taskId);
+    if (task && options.model) {
+      const modelConfig = modelRouter.resolveRoute(options.model, 'execution');
+      const agentIds = new Set(
+        task.subtasks
+          .filter(st => st.status !== 'completed' && st.assignedAgentId)
+          .map(st => st.assignedAgentId!)
+      );
+      for (const agentId of agentIds) {
+        agentManager.updateAgentModel(agentId, modelConfig);
+      }
+      console.log(`[ExceptionHandler] Task ${exception.taskId} downgraded to ${modelConfig.model} (${agentIds.size} agents)`);
+    }
+
+    budgetManager.extend(exception.taskId, options.budget);
+    this.resolveException(exception.id, 'downgrade', exception.humanIntervention?.respondedBy, `切换模型: ${options.model?.model || options.model?.presetId}`);
+    this.resolveUnblockedBudgetExceptions(exception.humanIntervention?.respondedBy);
+    taskScheduler.triggerDispatch();
+  }
+
+  /**
+   * 全局预算追加后，其他因全局预算被阻塞的任务一并解除
+   */
+  private resolveUnblockedBudgetExceptions(resolvedBy?: string): void {
+    for (const other of this.exceptions.values()) {
+      if (
+        other.type === 'budget_exceeded' &&
+        other.status === 'pending' &&
+        budgetManager.getTaskBudget(other.taskId)?.status === 'active'
+      ) {
+        this.resolveException(other.id, 'extend_budget', resolvedBy, '全局预算已追加');
+      }
+    }
+  }
+
   /**
    * 手动重试
    */
@@ -445,14 +557,18 @@ export class ExceptionHandler extends EventEmitter {
     const retryKey = `${exception.taskId}-${exception.subTaskId}`;
     this.retryCounts.delete(retryKey); // 重置重试计数
 
+    // 依赖失败：重新执行失败或超时的子任务，被阻塞的子任务随之恢复排队
+    if (exception.type === 'dependency_fail') {
+      const failedIds = masterAgent.getTaskStatus(exception.taskId)?.subtasks
+        .filter(st => st.status === 'failed' || st.status === 'cancelled')
+        .map(st => st.id) || [];
+      taskScheduler.requeueSubtasks(exception.taskId, [...failedIds, ...(exception.blockedSubTaskIds || [])]);
+      this.resolveException(exception.id, 'manual_retry', exception.humanIntervention?.respondedBy, '人工重试失败的依赖');
+      return Promise.resolve();
+    }
+
     if (exception.subTaskId) {
-      const task = masterAgent.getTaskStatus(exception.taskId);
-      if (task) {
-        taskScheduler.submitTask(
-          task as any,
-          masterAgent.getAllSubAgents()
-        );
-      }
+      taskScheduler.requeueSubtasks(exception.taskId, [exception.subTaskId]);
     }
 
     this.resolveException(exception.id, 'manual_retry', exception.humanIntervention?.respondedBy, '人工触发重试');
@@ -523,14 +639,8 @@ export class ExceptionHandler extends EventEmitter {
     // 从暂停状态移除
     this.pausedTasks.delete(taskId);
 
-    // 重新触发队列处理
-    const task = masterAgent.getTaskStatus(taskId);
-    if (task) {
-      taskScheduler.submitTask(
-        task as any,
-        masterAgent.getAllSubAgents()
-      );
-    }
+    // 恢复派发（暂停时中止的子任务已重新入队）
+    taskScheduler.resumeTask(taskId);
 
     console.log(`[ExceptionHandler] Task ${taskId} resumed`);
     return true;
@@ -627,6 +737,7 @@ export class ExceptionHandler extends EventEmitter {
     if (!exception || exception.status !== 'pending') return false;
 
     exception.status = 'acknowledged';
+    this.persistException(exception);
     
     this.emit('event', {
       type: 'exception_acknowledged',
@@ -658,6 +769,7 @@ export class ExceptionHandler extends EventEmitter {
       resolvedAt: Date.now(),
       notes
     };
+    this.persistException(exception);
 
     this.emit('event', {
       type: 'exception_resolved',
@@ -677,6 +789,26 @@ export class ExceptionHandler extends EventEmitter {
     this.config = { ...this.config, ...config };
   }
 
+  // ========== 持久化 ==========
+
+  /**
+   * 保存异常记录
+   */
+  private persistException(exception: ExceptionRecord): void {
+    taskStore.persist('exceptions', exception.id, exception);
+  }
+
+  /**
+   * 从持久化存储恢复异常记录
+   */
+  async restore(): Promise<void> {
+    const exceptions = await taskStore.load<ExceptionRecord>('exceptions');
+    for (const exception of exceptions) {
+      this.exceptions.set(exception.id, exception);
+    }
+    console.log(`[ExceptionHandler] Restored ${exceptions.length} exceptions`);
+  }
+
   // ========== 工具方法 ==========
 
   private delay(ms: number): Promise<void> {
@@ -684,5 +816,5 @@ export class ExceptionHandler extends EventEmitter {
   }
 }
 
-// 导出单例
-export const exceptionHandler = new ExceptionHandler();
+// 导出单例（按工作区隔离）
+export const exceptionHandler = workspaceScoped('exceptionHandler', () => new ExceptionHandler());
@@ -1,8 +1,12 @@
 import { randomUUID } from 'crypto';
-import { BaseAdapter } from '../adapters/BaseAdapter.js';
-import { MinimaxAdapter } from '../adapters/MinimaxAdapter.js';
-import type { Message, ModelConfig, AgentStatus, AgentInstance } from '../types.js';
+import type { Message, AgentStatus, JsonSchema, Attachment, RecalledMemory, ServedModel } from '../types.js';
+import { withAttachments } from '../adapters/content.js';
 import { agentManager } from './AgentManager.js';
+import { modelRouter } from './ModelRouter.js';
+import { usageLedger } from './UsageLedger.js';
+import { structuredOutput, dropInvalidFields, validateSchema, JsonStreamParser, type SchemaIssue } from './StructuredOutput.js';
+import { taskStore } from './TaskStore.js';
+import { workspaceScoped } from './WorkspaceContext.js';
 
 // 任务分析结果
 export interface TaskAnalysis {
@@ -14,6 +18,7 @@ export interface TaskAnalysis {
   requiredSkills: string[];
   recommendedAgents: number;
   reasoning: string;
+  warnings?: string[]; // 解析时丢弃的无效子任务等提示
 }
 
 // 子任务
@@ -25,13 +30,29 @@ export interface SubTask {
   estimatedMinutes: number;
   dependencies: string[]; // 依赖的其他子任务ID
   requiredSkills: string[];
+  requiresApproval?: boolean; // 派发前需要人工审批
+  approval?: SubTaskApproval;
   assignedAgentId?: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'awaiting_approval' | 'running' | 'completed' | 'failed' | 'cancelled';
   result?: string;
+  recalledMemories?: RecalledMemory[]; // 执行时注入的记忆
+  servedBy?: ServedModel; // 实际应答的模型（启用备用模型链时）
   startTime?: number;
   endTime?: number;
 }
 
+// 审批决定
+export type ApprovalDecision = 'approve' | 'reject' | 'edit';
+
+// 子任务审批记录
+export interface SubTaskApproval {
+  requestedAt: number;
+  decision?: 'approved' | 'rejected';
+  decidedAt?: number;
+  decidedBy?: string;
+  notes?: string;
+}
+
 // 子Agent信息
 export interface SubAgentInfo {
   id: string;
@@ -43,30 +64,31 @@ export interface SubAgentInfo {
   completedTasks: number;
 }
 
+// 流式分析进度：推理说明和每个子任务解析完整后立即推送
+export type AnalysisProgressEvent =
+  | { type: 'started'; analysisId: string }
+  | { type: 'reasoning'; reasoning: string }
+  | { type: 'subtask'; index: number; subtask: SubTask };
+
+// 任务分析选项
+export interface AnalyzeOptions {
+  attachments?: Attachment[];  // 随任务上传的图片和文件，分析和执行子任务时都会附带
+  signal?: AbortSignal;
+  onProgress?: (event: AnalysisProgressEvent) => void;  // 提供时以流式请求模型
+}
+
 // 任务执行结果
 export interface TaskResult {
   taskId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress: number; // 0-100
   subtasks: SubTask[];
+  attachments?: Attachment[];
   summary?: string;
   createdAt: number;
   completedAt?: number;
 }
 
-// MiniMax 默认配置
-const MINIMAX_CONFIG: ModelConfig = {
-  id: 'minimax-master',
-  name: 'MiniMax M2.5',
-  provider: 'minimax',
-  baseUrl: 'https://api.minimaxi.com/anthropic',
-  model: 'MiniMax-M2.5',
-  temperature: 0.7,
-  maxTokens: 4000,
-  enabled: true,
-  apiKey: process.env.MINIMAX_API_KEY || ''
-};
-
 // 任务分析系统提示词
 const TASK_ANALYSIS_PROMPT = `你是总指挥Agent，专门负责分析复杂任务并制定执行策略。
 
@@ -81,6 +103,7 @@ const TASK_ANALYSIS_PROMPT = `你是总指挥Agent，专门负责分析复杂任
 - 任务拆分：识别可以并行执行的子任务
 - 技能需求：列出完成任务所需的关键技能
 - 依赖关系：识别子任务之间的依赖顺序
+- 人工审批：涉及删除数据、对外发布、付费操作等高风险的子任务，将 requiresApproval 设为 true
 
 重要：你必须只返回 JSON 格式，不要返回任何其他文本、解释或 markdown 代码块。
 
@@ -96,43 +119,106 @@ const TASK_ANALYSIS_PROMPT = `你是总指挥Agent，专门负责分析复杂任
       "priority": "high",
       "estimatedMinutes": 5,
       "dependencies": [],
-      "requiredSkills": ["技能1"]
+      "requiredSkills": ["技能1"],
+      "requiresApproval": false
     }
   ],
   "requiredSkills": ["技能1", "技能2"],
   "recommendedAgents": 2
 }`;
 
+// 子任务输出格式（重新分析单个子任务时复用）
+export const SUBTASK_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['title', 'description'],
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+    estimatedMinutes: { type: 'number', minimum: 0 },
+    dependencies: { type: 'array', items: { type: ['string', 'integer'] } },
+    requiredSkills: { type: 'array', items: { type: 'string' } },
+    requiresApproval: { type: 'boolean' }
+  }
+};
+
+// 任务分析输出格式
+export const TASK_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['complexity', 'subtasks'],
+  properties: {
+    complexity: { type: 'string', enum: ['simple', 'medium', 'complex'] },
+    estimatedTime: { type: 'number', minimum: 0 },
+    reasoning: { type: 'string' },
+    subtasks: { type: 'array', minItems: 1, items: SUBTASK_SCHEMA },
+    requiredSkills: { type: 'array', items: { type: 'string' } },
+    recommendedAgents: { type: 'integer', minimum: 1 }
+  }
+};
+
+// 模型返回的原始分析结果（已通过或部分通过 Schema 校验）
+interface RawTaskAnalysis {
+  complexity?: TaskAnalysis['complexity'];
+  estimatedTime?: number;
+  reasoning?: string;
+  subtasks: Array<Partial<Omit<SubTask, 'dependencies'>> & {
+    dependencies?: Array<string | number>;
+    sourceIndex?: number;  // 挽救后保留模型输出中的原始序号
+  }>;
+  requiredSkills?: string[];
+  recommendedAgents?: number;
+}
+
 export class MasterAgent {
-  private adapter: BaseAdapter;
   private subAgents: Map<string, SubAgentInfo> = new Map();
   private tasks: Map<string, TaskResult> = new Map();
   private taskCounter: number = 0;
 
-  constructor() {
-    console.log('[MasterAgent] Initializing with MINIMAX_CONFIG:', {
-      ...MINIMAX_CONFIG,
-      apiKey: MINIMAX_CONFIG.apiKey ? '***已设置***' : '***未设置***'
-    });
-    this.adapter = new MinimaxAdapter(MINIMAX_CONFIG);
-  }
-
   // ========== 任务分析 ==========
 
   /**
    * 分析任务并生成执行计划
+   * 提供 onProgress 时边生成边解析，推送的子任务仅供预览，最终计划以校验后的完整结果为准
    */
-  async analyzeTask(taskDescription: string): Promise<TaskAnalysis> {
+  async analyzeTask(taskDescription: string, options: AnalyzeOptions = {}): Promise<TaskAnalysis> {
     const analysisId = `analysis-${++this.taskCounter}`;
+    const { attachments, signal, onProgress } = options;
     
     const messages: Message[] = [
       { role: 'system', content: TASK_ANALYSIS_PROMPT },
-      { role: 'user', content: `请分析以下任务：\n\n${taskDescription}` }
+      { role: 'user', content: withAttachments(`请分析以下任务：\n\n${taskDescription}`, attachments) }
     ];
 
+    onProgress?.({ type: 'started', analysisId });
+    const parser = onProgress && new JsonStreamParser({
+      onField: (key, value) => {
+        if (key === 'reasoning' && typeof value === 'string') {
+          onProgress({ type: 'reasoning', reasoning: value });
+        }
+      },
+      onArrayItem: (key, index, value) => {
+        if (key === 'subtasks' && validateSchema(value, SUBTASK_SCHEMA).length === 0) {
+          const subtask = value as RawTaskAnalysis['subtasks'][number];
+          onProgress({ type: 'subtask', index, subtask: this.buildSubtask(subtask, index, analysisId) });
+        }
+      }
+    });
+
     try {
-      const response = await this.adapter.chat(messages);
-      const analysisResult = this.parseAnalysisResponse(response.content, analysisId, taskDescription);
+      const { value, salvaged, issues } = await structuredOutput.request<RawTaskAnalysis>({
+        role: 'analysis',
+        messages,
+        name: 'task_analysis',
+        schema: TASK_ANALYSIS_SCHEMA,
+        usageContext: { taskId: analysisId },
+        signal,
+        onDelta: parser ? delta => parser.push(delta) : undefined,
+        salvage: (raw, rawIssues) => this.salvageAnalysis(raw, rawIssues)
+      });
+      const analysisResult = this.buildAnalysis(value, analysisId, taskDescription);
+      if (salvaged) {
+        analysisResult.warnings = [`模型输出部分不符合格式，已保留有效内容：${issues.map(issue => `${issue.path} ${issue.message}`).join('；')}`];
+      }
       
       // 初始化任务结果跟踪
       this.tasks.set(analysisResult.id, {
@@ -140,56 +226,78 @@ export class MasterAgent {
         status: 'pending',
         progress: 0,
         subtasks: analysisResult.subtasks,
+        attachments,
         createdAt: Date.now()
       });
+      this.persistTask(analysisResult.id);
 
       return analysisResult;
     } catch (error) {
-      console.error('[MasterAgent] Task analysis failed:', error);
+      if (!signal?.aborted) {
+        console.error('[MasterAgent] Task analysis failed:', error);
+      }
       throw new Error(`任务分析失败: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * 解析分析响应
+   * 由校验通过的输出构建分析结果（子任务ID按模型输出中的序号生成，序号依赖因此保持有效）
    */
-  private parseAnalysisResponse(content: string, id: string, originalTask: string): TaskAnalysis {
-    try {
-      // 尝试提取JSON（处理可能包含markdown代码块的情况）
-      const jsonMatch = content.match(/```json\n?([\s\S]*?)\n?```/) || 
-                        content.match(/\{[\s\S]*\}/);
-      
-      const jsonStr = jsonMatch ? jsonMatch[1] || jsonMatch[0] : content;
-      const parsed = JSON.parse(jsonStr.trim());
-
-      // 生成子任务ID
-      const subtasks: SubTask[] = (parsed.subtasks || []).map((st: any, index: number) => ({
-        id: `subtask-${id}-${index}`,
-        title: st.title || `子任务 ${index + 1}`,
-        description: st.description || '',
-        priority: st.priority || 'medium',
-        estimatedMinutes: st.estimatedMinutes || 5,
-        dependencies: st.dependencies || [],
-        requiredSkills: st.requiredSkills || [],
-        status: 'pending'
-      }));
-
-      return {
-        id,
-        originalTask,
-        complexity: parsed.complexity || 'medium',
-        estimatedTime: parsed.estimatedTime || 10,
-        subtasks,
-        requiredSkills: parsed.requiredSkills || [],
-        recommendedAgents: parsed.recommendedAgents || Math.min(subtasks.length, 3),
-        reasoning: parsed.reasoning || ''
-      };
-    } catch (error) {
-      console.error('[MasterAgent] Failed to parse analysis:', error);
-      console.error('[MasterAgent] Raw content:', content);
-      // 抛出错误而不是返回默认配置，让前端知道出了问题
-      throw new Error(`解析分析结果失败: ${error instanceof Error ? error.message : String(error)}`);
+  private buildAnalysis(raw: RawTaskAnalysis, id: string, originalTask: string): TaskAnalysis {
+    const subtasks = raw.subtasks.map((st, index) => this.buildSubtask(st, index, id));
+
+    return {
+      id,
+      originalTask,
+      complexity: raw.complexity || 'medium',
+      estimatedTime: raw.estimatedTime || 10,
+      subtasks,
+      requiredSkills: raw.requiredSkills || [],
+      recommendedAgents: raw.recommendedAgents || Math.min(subtasks.length, 3),
+      reasoning: raw.reasoning || ''
+    };
+  }
+
+  private buildSubtask(st: RawTaskAnalysis['subtasks'][number], index: number, analysisId: string): SubTask {
+    return {
+      id: `subtask-${analysisId}-${st.sourceIndex ?? index}`,
+      title: st.title || `子任务 ${index + 1}`,
+      description: st.description || '',
+      priority: st.priority || 'medium',
+      estimatedMinutes: st.estimatedMinutes || 5,
+      dependencies: (st.dependencies || []).map(String),
+      requiredSkills: st.requiredSkills || [],
+      requiresApproval: st.requiresApproval === true,
+      status: 'pending'
+    };
+  }
+
+  /**
+   * 部分挽救：丢弃校验失败的子任务及指向它们的序号依赖，顶层字段错误时使用默认值
+   * 子任务列表本身无效或没有剩余有效子任务时无法挽救
+   */
+  private salvageAnalysis(raw: unknown, issues: SchemaIssue[]): RawTaskAnalysis | null {
+    const record = dropInvalidFields(raw, issues.filter(issue => !issue.path.startsWith('$.subtasks[')));
+    if (!record || !Array.isArray(record.subtasks)) return null;
+
+    const invalid = new Set<number>();
+    for (const issue of issues) {
+      const match = issue.path.match(/^\$\.subtasks\[(\d+)\]/);
+      if (match) invalid.add(Number(match[1]));
     }
+
+    const subtasks: RawTaskAnalysis['subtasks'] = [];
+    (record.subtasks as RawTaskAnalysis['subtasks']).forEach((st, index) => {
+      if (invalid.has(index)) return;
+      subtasks.push({
+        ...st,
+        sourceIndex: index,
+        dependencies: (st.dependencies || []).filter(dep => !(/^\d+$/.test(String(dep)) && invalid.has(Number(dep))))
+      });
+    });
+    if (subtasks.length === 0) return null;
+
+    return { ...record, subtasks } as RawTaskAnalysis;
   }
 
   // ========== 子Agent管理 ==========
@@ -219,6 +327,7 @@ export class MasterAgent {
       };
 
       this.subAgents.set(subAgent.id, subAgent);
+      taskStore.persist('subAgents', subAgent.id, subAgent);
       
       // 同步创建到AgentManager
       await this.createServerAgent(subAgent);
@@ -237,10 +346,15 @@ export class MasterAgent {
       // 创建系统提示词
       const systemPrompt = this.generateSystemPrompt(subAgent);
       
+      // 角色和技能写入灵魂文件和技能文件，系统提示词与调度都以文件为准
       await agentManager.createAgent(subAgent.name, {
-        ...MINIMAX_CONFIG,
+        ...modelRouter.resolve('execution'),
         id: subAgent.id,
         name: subAgent.name
+      }, subAgent.id, {
+        personality: '专注、严谨，及时汇报进展',
+        role: subAgent.role,
+        skills: subAgent.skills.map(skill => ({ name: skill, enabled: true }))
       });
 
       // 设置系统提示词
@@ -258,14 +372,11 @@ export class MasterAgent {
   }
 
   /**
-   * 生成系统提示词
+   * 生成基础系统提示词（角色和技能由 PromptComposer 从灵魂文件和技能文件组装）
    */
   private generateSystemPrompt(subAgent: SubAgentInfo): string {
     return `你是${subAgent.name}，在总指挥Agent的协调下工作。
 
-你的角色：${subAgent.role}
-你的技能：${subAgent.skills.join(', ')}
-
 工作原则：
 1. 专注于分配给你的子任务
 2. 完成后向总指挥汇报结果
@@ -332,6 +443,7 @@ export class MasterAgent {
     await agentManager.removeAgent(id);
     
     this.subAgents.delete(id);
+    taskStore.delete('subAgents', id);
     return true;
   }
 
@@ -341,6 +453,7 @@ export class MasterAgent {
   async clearSubAgents(): Promise<void> {
     for (const [id] of this.subAgents) {
       await agentManager.removeAgent(id);
+      taskStore.delete('subAgents', id);
     }
     this.subAgents.clear();
   }
@@ -375,14 +488,15 @@ export class MasterAgent {
     if (task.status === 'pending') {
       task.status = 'running';
     }
+    this.persistTask(taskId);
 
     return true;
   }
 
   /**
-   * 更新子任务结果
+   * 更新子任务结果（servedBy 为实际应答的模型）
    */
-  updateSubtaskResult(taskId: string, subTaskId: string, result: string, success: boolean = true): void {
+  updateSubtaskResult(taskId: string, subTaskId: string, result: string, success: boolean = true, servedBy?: ServedModel): void {
     const task = this.tasks.get(taskId);
     if (!task) return;
 
@@ -390,6 +504,7 @@ export class MasterAgent {
     if (subtask) {
       subtask.result = result;
       subtask.status = success ? 'completed' : 'failed';
+      subtask.servedBy = servedBy;
 
       // 更新子Agent状态
       if (subtask.assignedAgentId) {
@@ -406,6 +521,157 @@ export class MasterAgent {
 
     // 更新整体进度
     this.updateTaskProgress(taskId);
+    this.persistTask(taskId);
+  }
+
+  /**
+   * 取消任务：未完成的子任务标记为 cancelled
+   */
+  cancelTask(taskId: string): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+
+    for (const subtask of task.subtasks) {
+      if (subtask.status !== 'completed' && subtask.status !== 'failed') {
+        subtask.status = 'cancelled';
+      }
+    }
+    if (task.status !== 'completed' && task.status !== 'failed') {
+      task.status = 'cancelled';
+      task.completedAt = Date.now();
+    }
+
+    this.persistTask(taskId);
+    return true;
+  }
+
+  /**
+   * 取消单个子任务（如执行超时），reason 记为结果；全部子任务结束后更新任务状态
+   */
+  cancelSubtask(taskId: string, subTaskId: string, reason: string): void {
+    const task = this.tasks.get(taskId);
+    const subtask = task?.subtasks.find(st => st.id === subTaskId);
+    if (!task || !subtask || subtask.status === 'completed' || subtask.status === 'failed') return;
+
+    subtask.status = 'cancelled';
+    subtask.result = reason;
+
+    const subAgent = subtask.assignedAgentId ? this.subAgents.get(subtask.assignedAgentId) : undefined;
+    if (subAgent) {
+      subAgent.status = 'idle';
+      subAgent.currentTaskId = undefined;
+    }
+
+    this.updateTaskProgress(taskId);
+    this.persistTask(taskId);
+  }
+
+  /**
+   * 将子任务重置为待执行（人工重试失败的子任务时使用）
+   */
+  resetSubtask(taskId: string, subTaskId: string): SubTask | undefined {
+    const task = this.tasks.get(taskId);
+    const subtask = task?.subtasks.find(st => st.id === subTaskId);
+    if (!task || !subtask) return undefined;
+
+    subtask.status = 'pending';
+    subtask.result = undefined;
+    if (task.status === 'failed' || task.status === 'completed' || task.status === 'cancelled') {
+      task.status = 'running';
+      task.completedAt = undefined;
+    }
+
+    this.persistTask(taskId);
+    return subtask;
+  }
+
+  /**
+   * 替换任务的执行计划（提交执行前编辑计划时使用）
+   */
+  updatePlan(taskId: string, subtasks: SubTask[]): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+
+    task.subtasks = subtasks;
+    this.persistTask(taskId);
+    return true;
+  }
+
+  // ========== 审批 ==========
+
+  /**
+   * 标记子任务等待审批
+   */
+  requestApproval(taskId: string, subTaskId: string): SubTask | undefined {
+    const subtask = this.tasks.get(taskId)?.subtasks.find(st => st.id === subTaskId);
+    if (!subtask) return undefined;
+
+    subtask.status = 'awaiting_approval';
+    subtask.approval = { requestedAt: Date.now() };
+    this.persistTask(taskId);
+    return subtask;
+  }
+
+  /**
+   * 处理审批决定
+   * approve 放行（可同时修改描述），edit 只修改描述并继续等待，reject 将子任务标记为失败
+   */
+  resolveApproval(
+    taskId: string,
+    subTaskId: string,
+    decision: ApprovalDecision,
+    decidedBy: string,
+    edits: { title?: string; description?: string; notes?: string } = {}
+  ): SubTask | undefined {
+    const subtask = this.tasks.get(taskId)?.subtasks.find(st => st.id === subTaskId);
+    if (!subtask || subtask.status !== 'awaiting_approval') return undefined;
+
+    if (edits.title) subtask.title = edits.title;
+    if (edits.description) subtask.description = edits.description;
+
+    const approval: SubTaskApproval = subtask.approval || { requestedAt: Date.now() };
+    approval.notes = edits.notes ?? approval.notes;
+
+    if (decision === 'edit') {
+      subtask.approval = approval;
+      this.persistTask(taskId);
+      return subtask;
+    }
+
+    approval.decision = decision === 'approve' ? 'approved' : 'rejected';
+    approval.decidedAt = Date.now();
+    approval.decidedBy = decidedBy;
+    subtask.approval = approval;
+
+    if (decision === 'approve') {
+      subtask.status = subtask.assignedAgentId ? 'running' : 'pending';
+      this.persistTask(taskId);
+      return subtask;
+    }
+
+    // 拒绝：子任务失败，释放已分配的Agent
+    subtask.status = 'failed';
+    subtask.result = `审批被拒绝${edits.notes ? `：${edits.notes}` : ''}`;
+    const subAgent = subtask.assignedAgentId ? this.subAgents.get(subtask.assignedAgentId) : undefined;
+    if (subAgent?.currentTaskId === subTaskId) {
+      subAgent.status = 'idle';
+      subAgent.currentTaskId = undefined;
+    }
+
+    this.updateTaskProgress(taskId);
+    this.persistTask(taskId);
+    return subtask;
+  }
+
+  /**
+   * 获取所有等待审批的子任务
+   */
+  getPendingApprovals(): Array<{ taskId: string; subtask: SubTask }> {
+    return this.getAllTasks().flatMap(task =>
+      task.subtasks
+        .filter(st => st.status === 'awaiting_approval')
+        .map(subtask => ({ taskId: task.taskId, subtask }))
+    );
   }
 
   /**
@@ -417,13 +683,14 @@ export class MasterAgent {
 
     const completed = task.subtasks.filter(st => st.status === 'completed').length;
     const failed = task.subtasks.filter(st => st.status === 'failed').length;
+    const cancelled = task.subtasks.filter(st => st.status === 'cancelled').length;
     const total = task.subtasks.length;
 
     task.progress = Math.round((completed / total) * 100);
 
-    // 检查是否全部完成
-    if (completed + failed === total) {
-      task.status = failed > 0 ? 'failed' : 'completed';
+    // 检查是否全部结束（超时的子任务为 cancelled）
+    if (completed + failed + cancelled === total) {
+      task.status = failed > 0 ? 'failed' : cancelled > 0 ? 'cancelled' : 'completed';
       task.completedAt = Date.now();
       
       // 生成总结
@@ -444,16 +711,19 @@ export class MasterAgent {
     const summaryPrompt = `请总结以下子任务的执行结果：\n\n${results}`;
     
     try {
-      const response = await this.adapter.chat([
+      const adapter = modelRouter.getAdapter('summary');
+      const response = await adapter.chat([
         { role: 'system', content: '你是任务总结专家，请简明扼要地汇总各子任务的执行结果。' },
         { role: 'user', content: summaryPrompt }
       ]);
+      usageLedger.record(adapter, response.usage, { taskId, role: 'summary' }, response.servedBy);
       
       task.summary = response.content;
     } catch (error) {
       console.error('[MasterAgent] Failed to generate summary:', error);
       task.summary = '总结生成失败';
     }
+    this.persistTask(taskId);
   }
 
   /**
@@ -477,6 +747,46 @@ export class MasterAgent {
     return this.tasks.get(taskId);
   }
 
+  // ========== 持久化 ==========
+
+  /**
+   * 保存任务到持久化存储
+   */
+  private persistTask(taskId: string): void {
+    const task = this.tasks.get(taskId);
+    if (task) {
+      taskStore.persist('tasks', taskId, task);
+    }
+  }
+
+  /**
+   * 从持久化存储恢复任务和子Agent
+   */
+  async restore(): Promise<TaskResult[]> {
+    const tasks = await taskStore.load<TaskResult>('tasks');
+    for (const task of tasks) {
+      this.tasks.set(task.taskId, task);
+
+      // 恢复计数器，避免新任务ID与已保存的任务冲突
+      const counter = parseInt(task.taskId.replace('analysis-', ''), 10);
+      if (!isNaN(counter) && counter > this.taskCounter) {
+        this.taskCounter = counter;
+      }
+    }
+
+    const subAgents = await taskStore.load<SubAgentInfo>('subAgents');
+    for (const subAgent of subAgents) {
+      // 重启后没有正在执行的任务，状态重置为空闲
+      subAgent.status = 'idle';
+      subAgent.currentTaskId = undefined;
+      this.subAgents.set(subAgent.id, subAgent);
+      await this.createServerAgent(subAgent);
+    }
+
+    console.log(`[MasterAgent] Restored ${tasks.length} tasks and ${subAgents.length} sub-agents`);
+    return tasks;
+  }
+
   // ========== 状态管理 ==========
 
   /**
@@ -498,5 +808,5 @@ export class MasterAgent {
   }
 }
 
-// 导出单例
-export const masterAgent = new MasterAgent();
+// 导出单例（按工作区隔离）
+export const masterAgent = workspaceScoped('masterAgent', () => new MasterAgent());
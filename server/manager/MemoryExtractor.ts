@@ -0,0 +1,288 @@
+import type { JsonSchema } from '../types.js';
+import { agentFileManager, type AgentMemoryEntry, type MemoryOrigin } from './AgentFileManager.js';
+import { agentManager } from './AgentManager.js';
+import { tokenize } from './MemoryRetriever.js';
+import { structuredOutput, type SchemaIssue } from './StructuredOutput.js';
+import { workspaceScoped } from './WorkspaceContext.js';
+
+// ========== 类型定义 ==========
+
+export interface MemoryExtractionConfig {
+  enabled: boolean;             // 是否在对话和子任务后自动提取记忆
+  chatIdleMs: number;           // 对话空闲多久后视为会话结束并提取
+  maxPerExtraction: number;     // 单次最多保存的记忆条数
+  duplicateThreshold: number;   // 与已有记忆的词重合度（Jaccard）达到该值视为重复
+  consolidateAt: number;        // 记忆超过该条数时整理
+  consolidateTarget: number;    // 整理后的记忆条数上限
+  transcriptMaxChars: number;   // 提取输入的长度上限（超出时保留末尾）
+}
+
+// 整理结果
+export interface ConsolidationResult {
+  before: number;
+  after: number;
+}
+
+// 模型提取或整理出的记忆
+interface ExtractedMemory {
+  content: string;
+  kind?: AgentMemoryEntry['kind'];
+}
+
+// 会话中尚未提取的对话轮次
+interface PendingChat {
+  turns: Array<{ user: string; assistant: string }>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_CONFIG: MemoryExtractionConfig = {
+  enabled: process.env.MEMORY_EXTRACTION === 'true',
+  chatIdleMs: 60000,
+  maxPerExtraction: 5,
+  duplicateThreshold: 0.8,
+  consolidateAt: 60,
+  consolidateTarget: 30,
+  transcriptMaxChars: 8000
+};
+
+const MEMORY_LIST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['memories'],
+  properties: {
+    memories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['content'],
+        properties: {
+          content: { type: 'string', minLength: 1 },
+          kind: { type: 'string', enum: ['fact', 'preference', 'lesson'] }
+        }
+      }
+    }
+  }
+};
+
+const EXTRACTION_PROMPT = `你负责为 Agent 整理长期记忆。请从给出的对话或任务记录中提取以后仍然有用的信息：
+- fact：关于用户、项目或环境的事实（名称、版本、路径、约定等）
+- preference：用户的偏好、习惯和要求
+- lesson：完成工作中得到的经验教训（哪些做法有效、哪些会出错）
+不要提取寒暄、一次性的请求或只和当前对话有关的细节；每条记忆独立成句，不依赖上下文也能看懂；没有值得记住的内容时返回空数组。
+
+只返回 JSON，格式：{"memories": [{"content": "记忆内容", "kind": "fact"}]}`;
+
+const CONSOLIDATION_PROMPT = `你负责整理 Agent 的长期记忆。请合并重复或相近的条目，更新相互矛盾的条目（以较新的为准），删除过时或价值不高的条目，保留最重要的信息。每条记忆独立成句。
+
+只返回 JSON，格式：{"memories": [{"content": "记忆内容", "kind": "fact"}]}`;
+
+// 对话轮次在提取输入中的格式
+const TURN_LABELS = { user: '用户', assistant: '助手' };
+
+// ========== MemoryExtractor 类 ==========
+
+/**
+ * 记忆提取：对话结束或子任务完成后，用 Agent 自己的模型提取值得长期记住的内容，去重后写入记忆文件；
+ * 记忆过多时整理合并
+ */
+export class MemoryExtractor {
+  private config: MemoryExtractionConfig;
+  private pendingChats: Map<string, PendingChat> = new Map();
+
+  constructor(config: Partial<MemoryExtractionConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * 记录一轮对话，对话空闲 chatIdleMs 后把整段会话一起提取
+   */
+  observeChat(agentId: string, user: string, assistant: string): void {
+    if (!this.config.enabled || !assistant.trim()) return;
+
+    const pending = this.pendingChats.get(agentId);
+    if (pending) clearTimeout(pending.timer);
+
+    const timer = setTimeout(() => {
+      this.flushChat(agentId).catch(error =>
+        console.error(`[MemoryExtractor] Failed to extract chat memories for ${agentId}:`, error)
+      );
+    }, this.config.chatIdleMs);
+    timer.unref();
+
+    this.pendingChats.set(agentId, {
+      turns: [...(pending?.turns ?? []), { user, assistant }],
+      timer
+    });
+  }
+
+  /**
+   * 立即提取尚未处理的会话（不等待空闲），返回新增的记忆
+   */
+  async flushChat(agentId: string): Promise<AgentMemoryEntry[]> {
+    const pending = this.pendingChats.get(agentId);
+    if (!pending) return [];
+    clearTimeout(pending.timer);
+    this.pendingChats.delete(agentId);
+
+    const transcript = pending.turns
+      .map(turn => `${TURN_LABELS.user}：${turn.user}\n${TURN_LABELS.assistant}：${turn.assistant}`)
+      .join('\n\n');
+    return this.extract(agentId, transcript, { source: 'chat' });
+  }
+
+  /**
+   * 从完成的子任务中提取记忆
+   */
+  async extractFromSubtask(
+    agentId: string,
+    subtask: { id: string; title: string; description: string; result?: string },
+    taskId: string
+  ): Promise<AgentMemoryEntry[]> {
+    if (!this.config.enabled || !subtask.result) return [];
+
+    const transcript = `子任务：${subtask.title}\n描述：${subtask.description}\n\n执行结果：\n${subtask.result}`;
+    return this.extract(agentId, transcript, { source: 'subtask', taskId, subTaskId: subtask.id });
+  }
+
+  /**
+   * 整理记忆：合并重复、删除过时条目，整理期间新增的记忆原样保留
+   */
+  async consolidate(agentId: string): Promise<ConsolidationResult | null> {
+    const adapter = agentManager.getAdapter(agentId);
+    const memory = await agentFileManager.readMemoryFile(agentId);
+    if (!adapter || !memory) return null;
+
+    const before = memory.memories;
+    if (before.length <= 1) {
+      return { before: before.length, after: before.length };
+    }
+
+    const listed = before.map(entry => `- ${entry.kind ? `[${entry.kind}] ` : ''}${entry.content}`).join('\n');
+    const { value } = await structuredOutput.request<{ memories: ExtractedMemory[] }>({
+      role: 'agent',
+      adapter,
+      messages: [
+        { role: 'system', content: CONSOLIDATION_PROMPT },
+        { role: 'user', content: `现有记忆（共 ${before.length} 条，按时间从早到晚）：\n${listed}\n\n请整理为不超过 ${this.config.consolidateTarget} 条。` }
+      ],
+      name: 'memory_consolidation',
+      schema: MEMORY_LIST_SCHEMA,
+      usageContext: { role: 'memory', agentId }
+    });
+
+    const consolidated = this.dedupe(value.memories, []).slice(0, this.config.consolidateTarget);
+    if (consolidated.length === 0) {
+      throw new Error('Consolidation returned no memories');
+    }
+
+    const now = Date.now();
+    const snapshot = new Set(before.map(entry => entry.id));
+    const current = await agentFileManager.readMemoryFile(agentId);
+    const addedSince = current?.memories.filter(entry => !snapshot.has(entry.id)) ?? [];
+    const memories: AgentMemoryEntry[] = [
+      ...consolidated.map((entry, index) => ({
+        id: `consolidated-${now}-${index}`,
+        content: entry.content,
+        kind: entry.kind,
+        source: 'consolidation' as const,
+        createdAt: now
+      })),
+      ...addedSince
+    ];
+
+    await agentFileManager.updateMemoryFile(agentId, { memories });
+    console.log(`[MemoryExtractor] Consolidated memories of ${agentId}: ${before.length} -> ${memories.length}`);
+    return { before: before.length, after: memories.length };
+  }
+
+  // ========== 配置 ==========
+
+  getConfig(): MemoryExtractionConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Partial<MemoryExtractionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  // ========== 私有方法 ==========
+
+  // 请求模型提取记忆，去重后保存；超过条数阈值时整理
+  private async extract(agentId: string, transcript: string, origin: MemoryOrigin): Promise<AgentMemoryEntry[]> {
+    const adapter = agentManager.getAdapter(agentId);
+    const memory = await agentFileManager.readMemoryFile(agentId);
+    if (!adapter || !memory) return [];
+
+    const input = transcript.length > this.config.transcriptMaxChars
+      ? `…${transcript.slice(-this.config.transcriptMaxChars)}`
+      : transcript;
+    const { value } = await structuredOutput.request<{ memories: ExtractedMemory[] }>({
+      role: 'agent',
+      adapter,
+      messages: [
+        { role: 'system', content: EXTRACTION_PROMPT },
+        { role: 'user', content: `${input}\n\n请最多提取 ${this.config.maxPerExtraction} 条记忆。` }
+      ],
+      name: 'memory_extraction',
+      schema: MEMORY_LIST_SCHEMA,
+      usageContext: { role: 'memory', agentId, taskId: origin.taskId, subTaskId: origin.subTaskId },
+      salvage: (raw, issues) => salvageMemories(raw, issues)
+    });
+
+    const fresh = this.dedupe(value.memories, memory.memories).slice(0, this.config.maxPerExtraction);
+    if (fresh.length === 0) return [];
+
+    const updated = await agentFileManager.addMemories(agentId, fresh.map(entry => ({ ...entry, ...origin })));
+    if (!updated) return [];
+    const added = updated.memories.slice(-fresh.length);
+    console.log(`[MemoryExtractor] Extracted ${added.length} memories for ${agentId} from ${origin.source}`);
+
+    if (updated.memories.length > this.config.consolidateAt) {
+      await this.consolidate(agentId).catch(error =>
+        console.error(`[MemoryExtractor] Failed to consolidate memories of ${agentId}:`, error)
+      );
+    }
+    return added;
+  }
+
+  // 去掉空内容、彼此重复以及与已有记忆重复的条目
+  private dedupe(candidates: ExtractedMemory[], existing: AgentMemoryEntry[]): ExtractedMemory[] {
+    const seen = existing.map(entry => new Set(tokenize(entry.content)));
+    const result: ExtractedMemory[] = [];
+    for (const candidate of candidates) {
+      const content = candidate.content.trim();
+      if (!content) continue;
+
+      const terms = new Set(tokenize(content));
+      if (seen.some(other => jaccard(terms, other) >= this.config.duplicateThreshold)) continue;
+
+      seen.push(terms);
+      result.push({ ...candidate, content });
+    }
+    return result;
+  }
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+// 只丢弃格式不对的条目，保留其余记忆
+function salvageMemories(raw: unknown, issues: SchemaIssue[]): { memories: ExtractedMemory[] } | null {
+  const memories = (raw as { memories?: unknown })?.memories;
+  if (!Array.isArray(memories)) return null;
+
+  const invalid = new Set<number>();
+  for (const issue of issues) {
+    const match = issue.path.match(/^\$\.memories\[(\d+)\]/);
+    if (match) invalid.add(Number(match[1]));
+  }
+  return { memories: memories.filter((_, index) => !invalid.has(index)) as ExtractedMemory[] };
+}
+
+// 导出单例（按工作区隔离，会话按 Agent ID 区分）
+export const memoryExtractor = workspaceScoped('memoryExtractor', () => new MemoryExtractor());
@@ -0,0 +1,235 @@
+import type { AgentInstance, RecalledMemory } from '../types.js';
+import { agentFileManager, type AgentMemory } from './AgentFileManager.js';
+import { contextWindow, estimateTextTokens } from './ContextWindow.js';
+
+// ========== 类型定义 ==========
+
+// 参与检索的记忆条目
+export interface MemoryDocument {
+  id: string;                  // memory:<id> / workFile:<序号> / conversation:<id>
+  source: RecalledMemory['source'];
+  content: string;
+}
+
+// 检索结果（score 越大越相关，仅在同一次检索内可比较）
+export interface RankedMemory {
+  document: MemoryDocument;
+  score: number;
+}
+
+/**
+ * 记忆索引：按查询对记忆排序，只返回相关（score > 0）的条目
+ * 默认使用本地 BM25，可替换为基于向量的实现
+ */
+export interface MemoryIndex {
+  readonly name: string;
+  rank(query: string, documents: MemoryDocument[]): Promise<RankedMemory[]>;
+}
+
+// 文本向量化函数（一次处理多条，返回顺序与输入一致）
+export type EmbedFunction = (texts: string[]) => Promise<number[][]>;
+
+export interface MemoryRetrieverConfig {
+  maxResults: number;       // 最多注入的记忆条数
+  maxTokens: number;        // 注入记忆的 Token 上限
+  budgetRatio: number;      // 注入记忆最多占模型输入窗口的比例
+  memoryMaxChars: number;   // 单条记忆的长度上限（超出部分截断）
+}
+
+const DEFAULT_CONFIG: MemoryRetrieverConfig = {
+  maxResults: 5,
+  maxTokens: 800,
+  budgetRatio: 0.1,
+  memoryMaxChars: 500
+};
+
+// ========== 分词 ==========
+
+// 英文、数字按单词切分；中日韩文本没有空格，按单字和相邻两字切分
+const TERM_PATTERN = /[a-z0-9_]+|[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]+/g;
+const CJK_RUN = /^[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/;
+
+/**
+ * 把文本切分为检索词
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const run of text.toLowerCase().match(TERM_PATTERN) ?? []) {
+    if (!CJK_RUN.test(run)) {
+      terms.push(run);
+      continue;
+    }
+    for (let i = 0; i < run.length; i++) {
+      terms.push(run[i]);
+      if (i + 1 < run.length) terms.push(run.slice(i, i + 2));
+    }
+  }
+  return terms;
+}
+
+// ========== 索引实现 ==========
+
+/**
+ * 本地 BM25 词法索引（每次检索时现算，记忆文件规模较小，无需维护倒排表）
+ */
+export class Bm25Index implements MemoryIndex {
+  readonly name = 'bm25';
+  private k1: number;
+  private b: number;
+
+  constructor(k1: number = 1.2, b: number = 0.75) {
+    this.k1 = k1;
+    this.b = b;
+  }
+
+  async rank(query: string, documents: MemoryDocument[]): Promise<RankedMemory[]> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || documents.length === 0) return [];
+
+    const termCounts = documents.map(document => {
+      const counts = new Map<string, number>();
+      for (const term of tokenize(document.content)) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      }
+      return counts;
+    });
+    const lengths = documents.map(document => tokenize(document.content).length);
+    const averageLength = lengths.reduce((sum, length) => sum + length, 0) / documents.length || 1;
+
+    const idf = new Map(queryTerms.map(term => {
+      const df = termCounts.filter(counts => counts.has(term)).length;
+      return [term, Math.log(1 + (documents.length - df + 0.5) / (df + 0.5))];
+    }));
+
+    return documents
+      .map((document, index) => {
+        const score = queryTerms.reduce((total, term) => {
+          const tf = termCounts[index].get(term) ?? 0;
+          if (tf === 0) return total;
+          const norm = this.k1 * (1 - this.b + this.b * lengths[index] / averageLength);
+          return total + idf.get(term)! * (tf * (this.k1 + 1)) / (tf + norm);
+        }, 0);
+        return { document, score };
+      })
+      .filter(ranked => ranked.score > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+/**
+ * 向量索引：按余弦相似度排序，记忆的向量按内容缓存
+ */
+export class EmbeddingIndex implements MemoryIndex {
+  readonly name: string;
+  private embed: EmbedFunction;
+  private minSimilarity: number;
+  private cache: Map<string, number[]> = new Map();
+
+  constructor(embed: EmbedFunction, options: { name?: string; minSimilarity?: number } = {}) {
+    this.embed = embed;
+    this.name = options.name ?? 'embedding';
+    this.minSimilarity = options.minSimilarity ?? 0.2;
+  }
+
+  async rank(query: string, documents: MemoryDocument[]): Promise<RankedMemory[]> {
+    if (!query.trim() || documents.length === 0) return [];
+
+    const missing = Array.from(new Set(documents.map(document => document.content).filter(content => !this.cache.has(content))));
+    const [queryVector, ...vectors] = await this.embed([query, ...missing]);
+    missing.forEach((content, index) => this.cache.set(content, vectors[index]));
+
+    return documents
+      .map(document => ({ document, score: cosineSimilarity(queryVector, this.cache.get(document.content)!) }))
+      .filter(ranked => ranked.score >= this.minSimilarity)
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// ========== MemoryRetriever 类 ==========
+
+/**
+ * 记忆检索：对话和子任务执行前，从 Agent 的记忆文件中找出与当前输入相关的记忆，在 Token 预算内注入系统提示词
+ */
+export class MemoryRetriever {
+  private config: MemoryRetrieverConfig;
+  private index: MemoryIndex;
+
+  constructor(config: Partial<MemoryRetrieverConfig> = {}, index: MemoryIndex = new Bm25Index()) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.index = index;
+  }
+
+  /**
+   * 替换检索使用的索引（如接入向量模型）
+   */
+  setIndex(index: MemoryIndex): void {
+    this.index = index;
+    console.log(`[MemoryRetriever] Using ${index.name} index`);
+  }
+
+  /**
+   * 检索与查询相关的记忆，按相关度从高到低在预算内选取
+   */
+  async retrieve(agent: AgentInstance, query: string): Promise<RecalledMemory[]> {
+    const memory = await agentFileManager.readMemoryFile(agent.id);
+    const documents = memory ? toDocuments(memory) : [];
+    if (documents.length === 0 || !query.trim()) return [];
+
+    const ranked = await this.index.rank(query, documents);
+    const budget = Math.min(
+      this.config.maxTokens,
+      Math.floor(contextWindow.getInputBudget(agent.modelConfig) * this.config.budgetRatio)
+    );
+
+    const recalled: RecalledMemory[] = [];
+    let remaining = budget;
+    for (const { document, score } of ranked) {
+      if (recalled.length >= this.config.maxResults) break;
+
+      const content = document.content.length > this.config.memoryMaxChars
+        ? `${document.content.slice(0, this.config.memoryMaxChars)}…`
+        : document.content;
+      const tokens = estimateTextTokens(content);
+      // 放不下的长记忆跳过，继续尝试排在后面的短记忆
+      if (tokens > remaining) continue;
+
+      remaining -= tokens;
+      recalled.push({ id: document.id, source: document.source, content, score: Math.round(score * 1000) / 1000 });
+    }
+    return recalled;
+  }
+
+  // ========== 配置 ==========
+
+  getConfig(): MemoryRetrieverConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Partial<MemoryRetrieverConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+}
+
+// 记忆文件中的三类内容都参与检索
+function toDocuments(memory: AgentMemory): MemoryDocument[] {
+  return [
+    ...memory.memories.map(entry => ({ id: `memory:${entry.id}`, source: 'memory' as const, content: entry.content })),
+    ...memory.workFiles.map((filePath, index) => ({ id: `workFile:${index}`, source: 'workFile' as const, content: filePath })),
+    ...memory.conversations.map(conversation => ({ id: `conversation:${conversation.id}`, source: 'conversation' as const, content: conversation.content }))
+  ].filter(document => document.content.trim());
+}
+
+// 导出单例
+export const memoryRetriever = new MemoryRetriever();
@@ -0,0 +1,88 @@
+import { createHash } from 'crypto';
+import { AdapterFactory } from '../adapters/index.js';
+import type { ModelConfig, ModelInfo } from '../types.js';
+
+// ========== 类型定义 ==========
+
+// 发现结果
+export interface DiscoveryResult {
+  models: ModelInfo[];
+  fetchedAt: number;
+  cached: boolean;
+}
+
+// 发现配置
+export interface DiscoveryConfig {
+  cacheTtlMs: number;   // 模型列表缓存时间
+}
+
+const DEFAULT_CONFIG: DiscoveryConfig = {
+  cacheTtlMs: 10 * 60 * 1000
+};
+
+// ========== ModelDiscovery 类 ==========
+
+/**
+ * 模型发现：查询供应商的可用模型并按服务地址和密钥缓存
+ */
+export class ModelDiscovery {
+  private config: DiscoveryConfig;
+  private cache: Map<string, { models: ModelInfo[]; fetchedAt: number }> = new Map();
+  private pending: Map<string, Promise<ModelInfo[]>> = new Map();
+
+  constructor(config: Partial<DiscoveryConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * 获取模型列表：缓存有效时直接返回，refresh 为 true 时重新查询；同一供应商的并发查询合并为一次
+   */
+  async discover(modelConfig: ModelConfig, refresh = false): Promise<DiscoveryResult> {
+    const key = this.cacheKey(modelConfig);
+    const cached = this.cache.get(key);
+    if (!refresh && cached && Date.now() - cached.fetchedAt < this.config.cacheTtlMs) {
+      return { models: cached.models, fetchedAt: cached.fetchedAt, cached: true };
+    }
+
+    let request = this.pending.get(key);
+    if (!request) {
+      // 备用模型链只查询主模型
+      const adapter = AdapterFactory.createAdapter({ ...modelConfig, fallbacks: undefined });
+      request = adapter.listModels().finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+
+    const models = await request;
+    const fetchedAt = Date.now();
+    this.cache.set(key, { models, fetchedAt });
+    return { models, fetchedAt, cached: false };
+  }
+
+  /**
+   * 清空缓存
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  // ========== 配置 ==========
+
+  getConfig(): DiscoveryConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Partial<DiscoveryConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  // ========== 私有方法 ==========
+
+  // 缓存键：供应商 + 服务地址 + 密钥摘要或密钥库引用（不同密钥可见的模型可能不同，密钥本身不保存）
+  private cacheKey(config: ModelConfig): string {
+    const keyHash = config.apiKey ? createHash('sha256').update(config.apiKey).digest('hex').slice(0, 16) : config.apiKeyRef || '';
+    return `${config.provider}|${config.baseUrl || ''}|${keyHash}`;
+  }
+}
+
+// 导出单例
+export const modelDiscovery = new ModelDiscovery();
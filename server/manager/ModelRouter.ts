@@ -0,0 +1,228 @@
+import { AdapterFactory, BaseAdapter } from '../adapters/index.js';
+import type { ModelConfig } from '../types.js';
+import { REDACTED, secretVault } from './SecretVault.js';
+
+// ========== 类型定义 ==========
+
+// 模型用途
+export type ModelRole =
+  | 'analysis'     // 总指挥任务分析
+  | 'execution'    // 子Agent执行子任务
+  | 'aggregation'  // 结果聚合与报告
+  | 'summary'      // 任务总结、依赖结果压缩
+  | 'agent';       // 默认对话 Agent
+
+// 路由：引用 presetModels 中的预设，并可覆盖部分字段
+export interface ModelRoute {
+  presetId: string;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;      // 更新路由时存入密钥库，替换为 apiKeyRef
+  apiKeyRef?: string;
+  temperature?: number;
+  maxTokens?: number;
+  fallbacks?: Array<Omit<ModelRoute, 'fallbacks'>>;  // 备用模型，按顺序尝试
+}
+
+export type ModelRoutingConfig = Record<ModelRole, ModelRoute>;
+
+export const MODEL_ROLES: ModelRole[] = ['analysis', 'execution', 'aggregation', 'summary', 'agent'];
+
+// 默认预设，设置 LLM_PROVIDER=mock 可离线运行
+const DEFAULT_PRESET_ID = process.env.LLM_PROVIDER || 'minimax';
+
+// 默认备用模型（预设 ID，逗号分隔），例如 LLM_FALLBACKS=deepseek,ollama
+const DEFAULT_FALLBACKS = (process.env.LLM_FALLBACKS || '')
+  .split(',')
+  .map(id => id.trim())
+  .filter(Boolean)
+  .map(presetId => ({ presetId }));
+
+// 默认路由（与原先各管理器的 MiniMax 配置一致）
+const DEFAULT_ROUTES: ModelRoutingConfig = {
+  analysis: { presetId: DEFAULT_PRESET_ID, maxTokens: 4000, fallbacks: DEFAULT_FALLBACKS },
+  execution: { presetId: DEFAULT_PRESET_ID, maxTokens: 4000, fallbacks: DEFAULT_FALLBACKS },
+  aggregation: { presetId: DEFAULT_PRESET_ID, temperature: 0.5, maxTokens: 8000, fallbacks: DEFAULT_FALLBACKS },
+  summary: { presetId: DEFAULT_PRESET_ID, maxTokens: 4000, fallbacks: DEFAULT_FALLBACKS },
+  agent: { presetId: DEFAULT_PRESET_ID, maxTokens: 2000, fallbacks: DEFAULT_FALLBACKS }
+};
+
+// ========== ModelRouter 类 ==========
+
+export class ModelRouter {
+  private routes: ModelRoutingConfig;
+  private adapters: Map<ModelRole, BaseAdapter> = new Map();
+
+  constructor(routes: Partial<ModelRoutingConfig> = {}) {
+    this.routes = { ...DEFAULT_ROUTES, ...routes };
+  }
+
+  /**
+   * 解析某个用途对应的模型配置（每次返回新对象，适配器可以安全修改）
+   */
+  resolve(role: ModelRole): ModelConfig {
+    const route = this.routes[role];
+    let preset = this.findPreset(route.presetId);
+    if (!preset) {
+      console.warn(`[ModelRouter] Preset "${route.presetId}" not found for ${role}, falling back to ${DEFAULT_PRESET_ID}`);
+      preset = this.findPreset(DEFAULT_PRESET_ID) || AdapterFactory.getPresetModels()[0];
+    }
+
+    return this.buildConfig(preset, route, role);
+  }
+
+  /**
+   * 按指定路由解析模型配置（不修改当前路由，例如预算超限时为任务降级模型）
+   */
+  resolveRoute(route: ModelRoute, role: ModelRole): ModelConfig {
+    const preset = this.findPreset(route.presetId);
+    if (!preset) {
+      throw new Error(`未知的预设模型: ${route.presetId}`);
+    }
+    return this.buildConfig(preset, route, role);
+  }
+
+  // idSuffix 区分用途（备用模型为 <用途>-fallback-<序号>），保证各适配器缓存互不冲突
+  private buildConfig(preset: ModelConfig, route: ModelRoute, idSuffix: string): ModelConfig {
+    const overrides = Object.fromEntries(
+      Object.entries(route).filter(([key, value]) => key !== 'presetId' && key !== 'fallbacks' && value !== undefined)
+    );
+
+    // 备用模型沿用主路由的 maxTokens / temperature，未知预设跳过
+    const fallbacks: ModelConfig[] = [];
+    for (const fallback of route.fallbacks || []) {
+      const fallbackPreset = this.findPreset(fallback.presetId);
+      if (!fallbackPreset) {
+        console.warn(`[ModelRouter] Fallback preset "${fallback.presetId}" not found for ${idSuffix}, skipped`);
+        continue;
+      }
+      fallbacks.push(this.buildConfig(
+        fallbackPreset,
+        { temperature: route.temperature, maxTokens: route.maxTokens, ...fallback },
+        `${idSuffix}-fallback-${fallbacks.length + 1}`
+      ));
+    }
+
+    return {
+      ...preset,
+      ...overrides,
+      id: `${preset.id}-${idSuffix}`,
+      enabled: true,
+      fallbacks: fallbacks.length > 0 ? fallbacks : undefined
+    };
+  }
+
+  /**
+   * 获取某个用途的适配器（按用途缓存，路由变更后重建）
+   */
+  getAdapter(role: ModelRole): BaseAdapter {
+    let adapter = this.adapters.get(role);
+    if (!adapter) {
+      adapter = AdapterFactory.createAdapter(this.resolve(role));
+      this.adapters.set(role, adapter);
+    }
+    return adapter;
+  }
+
+  /**
+   * 获取路由配置（API Key 脱敏）
+   */
+  getRoutes(): ModelRoutingConfig {
+    const routes = {} as ModelRoutingConfig;
+    for (const role of MODEL_ROLES) {
+      const route = this.routes[role];
+      routes[role] = {
+        ...route,
+        apiKey: route.apiKey || route.apiKeyRef ? REDACTED : undefined,
+        apiKeyRef: undefined,
+        fallbacks: route.fallbacks?.map(fallback => ({
+          ...fallback,
+          apiKey: fallback.apiKey || fallback.apiKeyRef ? REDACTED : undefined,
+          apiKeyRef: undefined
+        }))
+      };
+    }
+    return routes;
+  }
+
+  /**
+   * 更新路由（校验用途与预设ID，全部通过后才生效；明文 API Key 存入密钥库）
+   */
+  async updateRoutes(updates: Partial<Record<ModelRole, Partial<ModelRoute>>>): Promise<void> {
+    const next = this.mergeRoutes(updates);
+
+    // 校验全部通过后再写入密钥库：主路由未提供新密钥时沿用原有密钥；
+    // 备用模型整体替换，只有回传脱敏占位值且预设不变时才沿用同位置原有的密钥
+    for (const role of Object.keys(updates) as ModelRole[]) {
+      const previous = this.routes[role];
+      const fallbacks = next[role].fallbacks;
+      next[role] = {
+        ...(await this.sealRoute(next[role], `route:${role}`, previous.apiKeyRef)),
+        fallbacks: fallbacks
+          ? await Promise.all(fallbacks.map((fallback, index) => {
+            const previousFallback = previous.fallbacks?.[index];
+            const inherited = fallback.apiKey === REDACTED && previousFallback?.presetId === fallback.presetId
+              ? previousFallback.apiKeyRef
+              : undefined;
+            return this.sealRoute(fallback, `route:${role}:fallback-${index + 1}`, inherited);
+          }))
+          : undefined
+      };
+    }
+
+    for (const role of Object.keys(updates) as ModelRole[]) {
+      this.adapters.get(role)?.clearListeners();
+      this.adapters.delete(role);
+    }
+    this.routes = next;
+  }
+
+  /**
+   * 校验路由更新（不修改当前路由），不合法时抛出错误
+   */
+  validateRoutes(updates: Partial<Record<ModelRole, Partial<ModelRoute>>>): void {
+    this.mergeRoutes(updates);
+  }
+
+  // 把更新合并到当前路由的副本上，逐项校验用途与预设ID
+  private mergeRoutes(updates: Partial<Record<ModelRole, Partial<ModelRoute>>>): ModelRoutingConfig {
+    const next = { ...this.routes };
+
+    for (const [role, update] of Object.entries(updates)) {
+      if (!MODEL_ROLES.includes(role as ModelRole)) {
+        throw new Error(`未知的模型用途: ${role}`);
+      }
+      if (!update) continue;
+
+      const merged = { ...next[role as ModelRole], ...update };
+      for (const presetId of [merged.presetId, ...(merged.fallbacks || []).map(fallback => fallback.presetId)]) {
+        if (!this.findPreset(presetId)) {
+          throw new Error(`未知的预设模型: ${presetId}`);
+        }
+      }
+      next[role as ModelRole] = merged;
+    }
+
+    return next;
+  }
+
+  // 路由只保存引用：明文 API Key 写入沿用的密钥库条目（没有时新建），请求中直接携带的 apiKeyRef 一律忽略
+  private async sealRoute(route: Omit<ModelRoute, 'fallbacks'>, label: string, inheritedRef?: string): Promise<Omit<ModelRoute, 'fallbacks'>> {
+    const { apiKey, ...rest } = route;
+    if (!apiKey || apiKey === REDACTED) {
+      return { ...rest, apiKeyRef: inheritedRef };
+    }
+    if (inheritedRef) {
+      await secretVault.set(inheritedRef, apiKey, label);
+      return { ...rest, apiKeyRef: inheritedRef };
+    }
+    return { ...rest, apiKeyRef: await secretVault.put(apiKey, label) };
+  }
+
+  private findPreset(presetId: string): ModelConfig | undefined {
+    return AdapterFactory.getPresetModels().find(preset => preset.id === presetId);
+  }
+}
+
+// 导出单例
+export const modelRouter = new ModelRouter();
@@ -0,0 +1,73 @@
+import type { AgentInstance, Message, RecalledMemory } from '../types.js';
+import { describePart, toContentParts } from '../adapters/content.js';
+
+// ========== 类型定义 ==========
+
+// 系统提示词的组成部分，按发送顺序排列
+export interface PromptSection {
+  name: 'base' | 'identity' | 'skills' | 'summary' | 'memories';
+  content: string;
+}
+
+export interface ComposedPrompt {
+  content: string;
+  sections: PromptSection[];
+}
+
+// 各部分在系统提示词中的标题（基础提示词没有标题）
+const SECTION_HEADINGS: Record<Exclude<PromptSection['name'], 'base'>, string> = {
+  identity: '【身份】',
+  skills: '【技能】',
+  summary: '【此前对话摘要】',
+  memories: '【相关记忆】'
+};
+
+// ========== PromptComposer 类 ==========
+
+/**
+ * 系统提示词组装：基础提示词（默认 Agent 的角色设定、子Agent 的工作说明）、
+ * 灵魂文件中的身份、技能文件中已启用的技能、对话摘要和检索到的记忆合并为一条系统消息
+ */
+export class PromptComposer {
+  /**
+   * 组装系统提示词；memories 未提供时使用 Agent 最近一次检索到的记忆
+   */
+  compose(agent: AgentInstance, pinned: Message[], memories: RecalledMemory[] = agent.recalledMemories ?? []): ComposedPrompt {
+    const sections: PromptSection[] = pinned
+      .map(message => ({ name: 'base' as const, content: messageContent(message) }))
+      .filter(section => section.content.trim());
+
+    const profile = agent.profile;
+    if (profile) {
+      const identity = [`你是${profile.name}${profile.role ? `，角色是${profile.role}` : ''}。`];
+      if (profile.personality) identity.push(`性格：${profile.personality}`);
+      sections.push({ name: 'identity', content: identity.join('\n') });
+
+      if (profile.skills.length > 0) {
+        sections.push({ name: 'skills', content: `你擅长：${profile.skills.join('、')}。处理请求时优先运用这些技能。` });
+      }
+    }
+
+    if (agent.contextSummary) {
+      sections.push({ name: 'summary', content: agent.contextSummary.content });
+    }
+    if (memories.length > 0) {
+      sections.push({ name: 'memories', content: memories.map(memory => `- ${memory.content}`).join('\n') });
+    }
+
+    const content = sections
+      .map(section => section.name === 'base' ? section.content : `${SECTION_HEADINGS[section.name]}\n${section.content}`)
+      .join('\n\n');
+    return { content, sections };
+  }
+}
+
+// 系统消息的文本形式（图片和文件以描述代替）
+function messageContent(message: Message): string {
+  return toContentParts(message.content)
+    .map(part => part.type === 'text' ? part.text : `[${describePart(part)}]`)
+    .join('\n');
+}
+
+// 导出单例
+export const promptComposer = new PromptComposer();
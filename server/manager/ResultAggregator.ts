@@ -1,7 +1,11 @@
 import { EventEmitter } from 'events';
 import { masterAgent, type SubTask, type TaskResult, type TaskAnalysis } from './MasterAgent.js';
-import { MinimaxAdapter } from '../adapters/MinimaxAdapter.js';
-import type { Message, ModelConfig } from '../types.js';
+import { modelRouter } from './ModelRouter.js';
+import { usageLedger, type UsageTotals } from './UsageLedger.js';
+import { agentManager } from './AgentManager.js';
+import type { Message, ServedModel } from '../types.js';
+import { taskStore } from './TaskStore.js';
+import { workspaceScoped } from './WorkspaceContext.js';
 
 // 结果聚合配置
 interface AggregatorConfig {
@@ -19,16 +23,27 @@ interface SubTaskResult {
   subTaskId: string;
   title: string;
   description: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: SubTask['status'];
   assignedAgentId?: string;
   agentName?: string;
   result?: string;
   error?: string;
+  servedBy?: ServedModel;
   startTime?: number;
   endTime?: number;
   durationMs?: number;
 }
 
+// 模型切换记录：主模型不可用时由备用模型应答
+export interface ModelFallbackRecord {
+  role?: string;
+  subTaskId?: string;
+  subTaskTitle?: string;
+  fromModel: string;     // 配置的主模型
+  toModel: string;       // 实际应答的模型
+  calls: number;
+}
+
 // 聚合结果
 export interface AggregatedResult {
   taskId: string;
@@ -45,7 +60,9 @@ export interface AggregatedResult {
     successRate: number;
     totalDurationMs: number;
     averageSubTaskDurationMs: number;
+    usage: UsageTotals & { currency: string };
   };
+  modelFallbacks: ModelFallbackRecord[];
   exportData: {
     markdown: string;
     html: string;
@@ -72,18 +89,6 @@ const DEFAULT_CONFIG: AggregatorConfig = {
   includeMetrics: true
 };
 
-// MiniMax 配置
-const MINIMAX_CONFIG: ModelConfig = {
-  id: 'minimax-aggregator',
-  name: 'MiniMax M2.5',
-  provider: 'minimax',
-  baseUrl: 'https://api.minimaxi.com/anthropic',
-  model: 'MiniMax-M2.5',
-  temperature: 0.5,  // 较低温度以获得更稳定的输出
-  maxTokens: 8000,
-  enabled: true
-};
-
 // 报告生成提示词
 const REPORT_GENERATION_PROMPT = `你是专业的任务报告撰写专家。
 你的职责是根据子任务的执行结果，生成一份完整、清晰、专业的任务执行报告。
@@ -98,13 +103,11 @@ const REPORT_GENERATION_PROMPT = `你是专业的任务报告撰写专家。
 
 export class ResultAggregator extends EventEmitter {
   private config: AggregatorConfig;
-  private adapter: MinimaxAdapter;
   private aggregatedResults: Map<string, AggregatedResult> = new Map();
 
   constructor(config: Partial<AggregatorConfig> = {}) {
     super();
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.adapter = new MinimaxAdapter(MINIMAX_CONFIG);
   }
 
   // ========== 核心聚合方法 ==========
@@ -134,20 +137,26 @@ export class ResultAggregator extends EventEmitter {
       const subTaskResults = this.collectSubTaskResults(taskResult);
 
       // 计算指标
-      const metrics = this.calculateMetrics(subTaskResults);
+      const metrics = this.calculateMetrics(taskId, subTaskResults);
 
       // 确定整体状态
       const status = this.determineOverallStatus(subTaskResults);
 
       // 生成总结
-      const summary = await this.generateSummary(subTaskResults, originalTask, metrics);
+      const summary = await this.generateSummary(taskId, subTaskResults, originalTask, metrics);
+
+      // 总结调用也计入用量
+      metrics.usage = this.getUsageMetrics(taskId);
+
+      const modelFallbacks = this.collectModelFallbacks(taskId, subTaskResults);
 
       // 生成详细报告
       const report = await this.generateDetailedReport(
         subTaskResults, 
         originalTask, 
         metrics,
-        summary
+        summary,
+        modelFallbacks
       );
 
       // 生成导出格式
@@ -159,7 +168,8 @@ export class ResultAggregator extends EventEmitter {
         summary,
         report,
         subTaskResults,
-        metrics
+        metrics,
+        modelFallbacks
       } as AggregatedResult);
 
       // 构建聚合结果
@@ -172,11 +182,13 @@ export class ResultAggregator extends EventEmitter {
         report,
         subTaskResults,
         metrics,
+        modelFallbacks,
         exportData
       };
 
       // 保存结果
       this.aggregatedResults.set(taskId, aggregatedResult);
+      taskStore.persist('aggregatedResults', taskId, aggregatedResult);
 
       this.emit('event', {
         type: 'aggregation_completed',
@@ -216,6 +228,7 @@ export class ResultAggregator extends EventEmitter {
         assignedAgentId: subtask.assignedAgentId,
         agentName: agent?.name,
         result: subtask.result,
+        servedBy: subtask.servedBy,
         durationMs: subtask.endTime && subtask.startTime 
           ? subtask.endTime - subtask.startTime 
           : undefined
@@ -226,7 +239,7 @@ export class ResultAggregator extends EventEmitter {
   /**
    * 计算执行指标
    */
-  private calculateMetrics(subTaskResults: SubTaskResult[]): AggregatedResult['metrics'] {
+  private calculateMetrics(taskId: string, subTaskResults: SubTaskResult[]): AggregatedResult['metrics'] {
     const totalSubTasks = subTaskResults.length;
     const completedSubTasks = subTaskResults.filter(st => st.status === 'completed').length;
     const failedSubTasks = subTaskResults.filter(st => st.status === 'failed').length;
@@ -249,7 +262,64 @@ export class ResultAggregator extends EventEmitter {
       failedSubTasks,
       successRate,
       totalDurationMs,
-      averageSubTaskDurationMs
+      averageSubTaskDurationMs,
+      usage: this.getUsageMetrics(taskId)
+    };
+  }
+
+  /**
+   * 汇总模型切换（按用途、子任务和模型合并）
+   * 子任务以结果上记录的实际应答模型为准，供应商未返回用量时账本中没有对应记录
+   */
+  private collectModelFallbacks(taskId: string, subTaskResults: SubTaskResult[]): ModelFallbackRecord[] {
+    const records = new Map<string, ModelFallbackRecord>();
+
+    for (const entry of usageLedger.getEntries(taskId)) {
+      if (!entry.fallbackFrom) continue;
+
+      const key = [entry.role, entry.subTaskId, entry.fallbackFrom, entry.model].join('|');
+      const record = records.get(key);
+      if (record) {
+        record.calls++;
+        continue;
+      }
+      records.set(key, {
+        role: entry.role,
+        subTaskId: entry.subTaskId,
+        subTaskTitle: subTaskResults.find(st => st.subTaskId === entry.subTaskId)?.title,
+        fromModel: entry.fallbackFrom,
+        toModel: entry.model,
+        calls: 1
+      });
+    }
+
+    // 账本中已有记录的子任务不重复计入
+    const recorded = new Set(Array.from(records.values()).map(record => record.subTaskId));
+    for (const subtask of subTaskResults) {
+      const servedBy = subtask.servedBy;
+      if (!servedBy || servedBy.fallbackIndex === 0 || recorded.has(subtask.subTaskId)) continue;
+
+      const agentModel = subtask.assignedAgentId ? agentManager.getAgent(subtask.assignedAgentId)?.modelConfig.model : undefined;
+      records.set(['execution', subtask.subTaskId, servedBy.model].join('|'), {
+        role: 'execution',
+        subTaskId: subtask.subTaskId,
+        subTaskTitle: subtask.title,
+        fromModel: servedBy.failures?.[0]?.model || agentModel || 'unknown',
+        toModel: servedBy.model,
+        calls: 1
+      });
+    }
+
+    return Array.from(records.values());
+  }
+
+  /**
+   * 任务的 Token 用量与费用
+   */
+  private getUsageMetrics(taskId: string): AggregatedResult['metrics']['usage'] {
+    return {
+      ...usageLedger.getTaskTotals(taskId),
+      currency: usageLedger.getConfig().currency
     };
   }
 
@@ -270,6 +340,7 @@ export class ResultAggregator extends EventEmitter {
    * 生成执行总结
    */
   private async generateSummary(
+    taskId: string,
     subTaskResults: SubTaskResult[],
     originalTask: string,
     metrics: AggregatedResult['metrics']
@@ -293,10 +364,12 @@ ${completedResults}
 请生成一段简洁的执行摘要（200字以内），概括任务完成情况和主要成果。`;
 
     try {
-      const response = await this.adapter.chat([
+      const adapter = modelRouter.getAdapter('aggregation');
+      const response = await adapter.chat([
         { role: 'system', content: REPORT_GENERATION_PROMPT },
         { role: 'user', content: prompt }
       ]);
+      usageLedger.record(adapter, response.usage, { taskId, role: 'aggregation' }, response.servedBy);
       
       return response.content.trim();
     } catch (error) {
@@ -312,7 +385,8 @@ ${completedResults}
     subTaskResults: SubTaskResult[],
     originalTask: string,
     metrics: AggregatedResult['metrics'],
-    summary: string
+    summary: string,
+    modelFallbacks: ModelFallbackRecord[]
   ): Promise<string> {
     const report: string[] = [];
 
@@ -337,6 +411,19 @@ ${completedResults}
       report.push(`| 成功率 | ${metrics.successRate}% |`);
       report.push(`| 总耗时 | ${this.formatDuration(metrics.totalDurationMs)} |`);
       report.push(`| 平均子任务耗时 | ${this.formatDuration(metrics.averageSubTaskDurationMs)} |`);
+      report.push(`| Token 用量 | ${metrics.usage.totalTokens}（输入 ${metrics.usage.promptTokens} / 输出 ${metrics.usage.completionTokens}） |`);
+      report.push(`| 费用 | ${metrics.usage.cost.toFixed(4)} ${metrics.usage.currency} |`);
+    }
+
+    // 模型切换
+    if (modelFallbacks.length > 0) {
+      report.push(`\n## 🔀 模型切换`);
+      report.push(`部分调用因主模型不可用由备用模型完成：`);
+      report.push(`| 用途 | 子任务 | 主模型 | 实际模型 | 次数 |`);
+      report.push(`|------|--------|--------|----------|------|`);
+      for (const fallback of modelFallbacks) {
+        report.push(`| ${fallback.role || '-'} | ${fallback.subTaskTitle || fallback.subTaskId || '-'} | ${fallback.fromModel} | ${fallback.toModel} | ${fallback.calls} |`);
+      }
     }
 
     // 详细结果
@@ -401,6 +488,7 @@ ${completedResults}
       completedAt: result.completedAt,
       summary: result.summary,
       metrics: result.metrics,
+      modelFallbacks: result.modelFallbacks,
       subTaskResults: result.subTaskResults.map(st => ({
         title: st.title,
         status: st.status,
@@ -490,9 +578,21 @@ ${html}
    * 清理结果
    */
   clearResult(taskId: string): boolean {
+    taskStore.delete('aggregatedResults', taskId);
     return this.aggregatedResults.delete(taskId);
   }
 
+  /**
+   * 从持久化存储恢复聚合结果
+   */
+  async restore(): Promise<void> {
+    const results = await taskStore.load<AggregatedResult>('aggregatedResults');
+    for (const result of results) {
+      this.aggregatedResults.set(result.taskId, result);
+    }
+    console.log(`[ResultAggregator] Restored ${results.length} aggregated results`);
+  }
+
   /**
    * 更新配置
    */
@@ -518,5 +618,5 @@ ${html}
   }
 }
 
-// 导出单例
-export const resultAggregator = new ResultAggregator();
+// 导出单例（按工作区隔离）
+export const resultAggregator = workspaceScoped('resultAggregator', () => new ResultAggregator());
@@ -0,0 +1,356 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID, scryptSync } from 'crypto';
+import type { ModelConfig } from '../types.js';
+
+// ========== 类型定义 ==========
+
+// 加密后的密钥条目（AES-256-GCM，引用作为附加认证数据，条目不能互换）
+interface SecretEntry {
+  keyId: string;       // 加密所用主密钥的指纹
+  iv: string;          // base64
+  tag: string;         // base64
+  data: string;        // base64
+  label?: string;      // 用途说明，例如 agent:<id>
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface VaultFile {
+  version: 1;
+  secrets: Record<string, SecretEntry>;
+}
+
+// 密钥元数据（不含明文）
+export interface SecretInfo {
+  ref: string;
+  label?: string;
+  keyId: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 主密钥来源：环境变量 SECRETS_MASTER_KEY，或密钥文件（不存在时自动生成）
+type MasterKeySource = 'env' | 'file';
+
+// 引用前缀，例如 secret://3f2a...
+const REF_PREFIX = 'secret://';
+
+// 脱敏后的占位值
+export const REDACTED = '***已设置***';
+
+// 口令派生主密钥时的固定盐（口令本身需要足够随机）
+const PASSPHRASE_SALT = 'ai-agent-viz-secrets';
+
+// ========== 工具函数 ==========
+
+/**
+ * 是否为密钥库引用
+ */
+export function isSecretRef(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(REF_PREFIX);
+}
+
+/**
+ * 解析主密钥：32 字节的 base64 / hex，其他字符串视为口令并用 scrypt 派生
+ */
+export function parseMasterKey(value: string): Buffer {
+  const trimmed = value.trim();
+  if (/^[0-9a-f]{64}$/i.test(trimmed)) return Buffer.from(trimmed, 'hex');
+  const decoded = Buffer.from(trimmed, 'base64');
+  if (decoded.length === 32 && decoded.toString('base64').replace(/=+$/, '') === trimmed.replace(/=+$/, '')) {
+    return decoded;
+  }
+  return scryptSync(trimmed, PASSPHRASE_SALT, 32);
+}
+
+function fingerprint(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 12);
+}
+
+/**
+ * 模型配置脱敏：隐藏 API Key 和密钥引用，只保留是否已设置
+ */
+export function redactModelConfig(config: ModelConfig): ModelConfig {
+  return {
+    ...config,
+    apiKey: config.apiKey || config.apiKeyRef ? REDACTED : undefined,
+    apiKeyRef: undefined,
+    fallbacks: config.fallbacks?.map(redactModelConfig)
+  };
+}
+
+// ========== SecretVault 类 ==========
+
+/**
+ * 密钥库：API Key 以 AES-256-GCM 加密保存在 vault.json，其他地方只保存 secret:// 引用，适配器在请求时解析
+ * 密钥库在首次使用时同步加载（文件很小，且解析发生在请求路径上）
+ */
+export class SecretVault {
+  private vaultPath: string;
+  private keyFilePath: string;
+  private masterKey: Buffer | null = null;
+  private keySource: MasterKeySource = 'file';
+  private secrets: Record<string, SecretEntry> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(baseDir: string = path.join(process.cwd(), 'data', 'secrets')) {
+    this.vaultPath = path.join(baseDir, 'vault.json');
+    this.keyFilePath = process.env.SECRETS_KEY_FILE || path.join(baseDir, 'master.key');
+  }
+
+  // ========== 读写 ==========
+
+  /**
+   * 保存密钥，返回引用
+   */
+  async put(value: string, label?: string): Promise<string> {
+    const ref = `${REF_PREFIX}${randomUUID()}`;
+    await this.set(ref, value, label);
+    return ref;
+  }
+
+  /**
+   * 写入或覆盖指定引用的密钥
+   */
+  async set(ref: string, value: string, label?: string): Promise<void> {
+    if (!isSecretRef(ref)) throw new Error(`Invalid secret reference: ${ref}`);
+    const secrets = this.load();
+    const now = Date.now();
+    secrets[ref] = {
+      ...this.encrypt(ref, value, this.getMasterKey()),
+      label: label ?? secrets[ref]?.label,
+      createdAt: secrets[ref]?.createdAt ?? now,
+      updatedAt: now
+    };
+    await this.persist();
+  }
+
+  /**
+   * 解析引用为明文（不存在时返回 undefined，主密钥不匹配时抛出）
+   */
+  resolve(ref: string): string | undefined {
+    const entry = this.load()[ref];
+    if (!entry) return undefined;
+
+    const key = this.getMasterKey();
+    if (entry.keyId !== fingerprint(key)) {
+      throw new Error(`Secret ${ref} was encrypted with master key ${entry.keyId}, current key is ${fingerprint(key)}`);
+    }
+    return this.decrypt(ref, entry, key);
+  }
+
+  has(ref: string): boolean {
+    return ref in this.load();
+  }
+
+  /**
+   * 删除密钥
+   */
+  async delete(ref: string): Promise<boolean> {
+    const secrets = this.load();
+    if (!(ref in secrets)) return false;
+    delete secrets[ref];
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * 列出密钥元数据（不含明文）
+   */
+  list(): SecretInfo[] {
+    return Object.entries(this.load()).map(([ref, entry]) => ({
+      ref,
+      label: entry.label,
+      keyId: entry.keyId,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt
+    }));
+  }
+
+  // ========== 模型配置 ==========
+
+  /**
+   * 将模型配置（含备用模型）中的明文 API Key 存入密钥库，替换为引用
+   */
+  async sealModelConfig(config: ModelConfig, label?: string): Promise<ModelConfig> {
+    const fallbacks = config.fallbacks
+      ? await Promise.all(config.fallbacks.map((fallback, index) => this.sealModelConfig(fallback, label && `${label}:fallback-${index + 1}`)))
+      : undefined;
+
+    if (!config.apiKey || config.apiKey === REDACTED) {
+      return { ...config, apiKey: undefined, fallbacks };
+    }
+    const apiKeyRef = await this.put(config.apiKey, label);
+    return { ...config, apiKey: undefined, apiKeyRef, fallbacks };
+  }
+
+  /**
+   * 复制模型配置（含备用模型）引用的密钥，返回引用新副本的配置（克隆工作区时使用，避免两边共用同一条密钥）
+   */
+  async copyModelConfig(config: ModelConfig, label?: string): Promise<ModelConfig> {
+    const fallbacks = config.fallbacks
+      ? await Promise.all(config.fallbacks.map((fallback, index) => this.copyModelConfig(fallback, label && `${label}:fallback-${index + 1}`)))
+      : undefined;
+
+    const apiKey = config.apiKeyRef ? this.resolve(config.apiKeyRef) : undefined;
+    if (!apiKey) {
+      return { ...config, fallbacks };
+    }
+    const apiKeyRef = await this.put(apiKey, label);
+    return { ...config, apiKeyRef, fallbacks };
+  }
+
+  /**
+   * 删除模型配置（含备用模型）引用的密钥，只删除属于 owner 的条目（标签为 owner 或 owner:...）
+   */
+  async releaseModelConfig(config: ModelConfig, owner: string): Promise<void> {
+    const ref = config.apiKeyRef;
+    const label = ref ? this.load()[ref]?.label : undefined;
+    if (ref && label && (label === owner || label.startsWith(`${owner}:`))) {
+      await this.delete(ref);
+    }
+    for (const fallback of config.fallbacks || []) {
+      await this.releaseModelConfig(fallback, owner);
+    }
+  }
+
+  // ========== 轮换 ==========
+
+  /**
+   * 轮换主密钥并重新加密所有密钥
+   * 主密钥来自密钥文件时可省略 newKey（随机生成并写回文件）；来自环境变量时必须提供，完成后需要更新 SECRETS_MASTER_KEY
+   */
+  async rotate(newKey?: string): Promise<{ keyId: string; reencrypted: number; source: MasterKeySource }> {
+    const secrets = this.load();
+    const oldKey = this.getMasterKey();
+    if (this.keySource === 'env' && !newKey) {
+      throw new Error('Master key comes from SECRETS_MASTER_KEY, a new key must be provided');
+    }
+
+    const nextKey = newKey ? parseMasterKey(newKey) : randomBytes(32);
+    if (fingerprint(nextKey) === fingerprint(oldKey)) {
+      throw new Error('New master key is identical to the current one');
+    }
+
+    // 先全部解密，任何一条失败都不修改密钥库
+    const plain = Object.entries(secrets).map(([ref, entry]) => [ref, this.decrypt(ref, entry, oldKey)] as const);
+    const rotated: Record<string, SecretEntry> = {};
+    for (const [ref, value] of plain) {
+      rotated[ref] = { ...secrets[ref], ...this.encrypt(ref, value, nextKey), updatedAt: Date.now() };
+    }
+
+    // 密钥文件先写到 .next，密钥库落盘后再替换，中途失败时启动会按条目的 keyId 选择正确的文件
+    if (this.keySource === 'file') {
+      this.writeFileAtomic(`${this.keyFilePath}.next`, nextKey.toString('base64'), 0o600);
+    }
+    this.secrets = rotated;
+    this.masterKey = nextKey;
+    await this.persist();
+    if (this.keySource === 'file') {
+      renameSync(`${this.keyFilePath}.next`, this.keyFilePath);
+    }
+
+    console.log(`[SecretVault] Master key rotated to ${fingerprint(nextKey)}, ${plain.length} secrets re-encrypted`);
+    return { keyId: fingerprint(nextKey), reencrypted: plain.length, source: this.keySource };
+  }
+
+  /**
+   * 当前主密钥的指纹和来源
+   */
+  getKeyInfo(): { keyId: string; source: MasterKeySource } {
+    return { keyId: fingerprint(this.getMasterKey()), source: this.keySource };
+  }
+
+  // ========== 私有方法 ==========
+
+  private encrypt(ref: string, value: string, key: Buffer): Pick<SecretEntry, 'keyId' | 'iv' | 'tag' | 'data'> {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(ref));
+    const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+    return {
+      keyId: fingerprint(key),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+  }
+
+  private decrypt(ref: string, entry: SecretEntry, key: Buffer): string {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(entry.iv, 'base64'));
+    decipher.setAAD(Buffer.from(ref));
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()]).toString('utf-8');
+  }
+
+  private getMasterKey(): Buffer {
+    if (this.masterKey) return this.masterKey;
+
+    if (process.env.SECRETS_MASTER_KEY) {
+      this.masterKey = parseMasterKey(process.env.SECRETS_MASTER_KEY);
+      this.keySource = 'env';
+      return this.masterKey;
+    }
+
+    this.keySource = 'file';
+    this.masterKey = this.loadKeyFile();
+    return this.masterKey;
+  }
+
+  // 读取密钥文件；上次轮换中断时（存在 .next 且密钥库已用它加密）完成替换；都不存在时生成新密钥
+  private loadKeyFile(): Buffer {
+    const nextPath = `${this.keyFilePath}.next`;
+    if (existsSync(nextPath)) {
+      const nextKey = parseMasterKey(readFileSync(nextPath, 'utf-8'));
+      const usesNext = Object.values(this.load()).some(entry => entry.keyId === fingerprint(nextKey));
+      if (usesNext) {
+        renameSync(nextPath, this.keyFilePath);
+        return nextKey;
+      }
+    }
+
+    if (existsSync(this.keyFilePath)) {
+      return parseMasterKey(readFileSync(this.keyFilePath, 'utf-8'));
+    }
+
+    const key = randomBytes(32);
+    this.writeFileAtomic(this.keyFilePath, key.toString('base64'), 0o600);
+    console.warn(`[SecretVault] Generated a new master key at ${this.keyFilePath}; back it up or set SECRETS_MASTER_KEY`);
+    return key;
+  }
+
+  private load(): Record<string, SecretEntry> {
+    if (this.secrets) return this.secrets;
+    try {
+      const file = JSON.parse(readFileSync(this.vaultPath, 'utf-8')) as VaultFile;
+      this.secrets = file.secrets || {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        // 密钥库损坏时不能当作空库继续写入，否则会覆盖原有密钥
+        throw new Error(`Failed to load secret vault ${this.vaultPath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      this.secrets = {};
+    }
+    return this.secrets;
+  }
+
+  // 写入按顺序排队，避免并发写入交错
+  private persist(): Promise<void> {
+    const file: VaultFile = { version: 1, secrets: { ...this.load() } };
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => this.writeFileAtomic(this.vaultPath, JSON.stringify(file, null, 2), 0o600));
+    return this.writeQueue;
+  }
+
+  private writeFileAtomic(filePath: string, content: string, mode: number): void {
+    mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, content, { encoding: 'utf-8', mode });
+    renameSync(tmpPath, filePath);
+  }
+}
+
+// 导出单例
+export const secretVault = new SecretVault();
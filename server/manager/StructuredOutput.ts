@@ -0,0 +1,421 @@
+import { modelRouter, type ModelRole } from './ModelRouter.js';
+import { usageLedger, type UsageContext } from './UsageLedger.js';
+import type { BaseAdapter } from '../adapters/BaseAdapter.js';
+import type { ChatOptions, ChatResponse, JsonSchema, Message } from '../types.js';
+
+// ========== 类型定义 ==========
+
+// 校验问题
+export interface SchemaIssue {
+  path: string;      // 例如 $.subtasks[1].priority
+  message: string;
+}
+
+// 结构化输出请求
+export interface StructuredRequest<T> {
+  role: ModelRole;
+  adapter?: BaseAdapter;       // 指定适配器（如 Agent 自己的模型），默认使用 role 对应的路由
+  messages: Message[];
+  name: string;                // 格式名称（传给供应商的原生结构化输出）
+  schema: JsonSchema;
+  usageContext?: UsageContext;
+  signal?: AbortSignal;
+  // 提供时首次请求以流式方式发出，并逐段回调模型输出（修复请求仍一次性返回）
+  onDelta?: (delta: string) => void;
+  // 修复次数用尽后尝试保留有效部分，返回 null 表示无法挽救
+  salvage?: (value: unknown, issues: SchemaIssue[]) => T | null;
+}
+
+// 结构化输出结果
+export interface StructuredResult<T> {
+  value: T;
+  repairAttempts: number;      // 请求模型修复的次数
+  salvaged: boolean;           // 是否由 salvage 挽救了部分内容
+  issues: SchemaIssue[];       // 挽救时被丢弃部分的校验问题
+}
+
+// 结构化输出配置
+interface StructuredOutputConfig {
+  maxRepairAttempts: number;   // 校验失败后请求模型修复的最大次数
+  maxIssuesInPrompt: number;   // 修复提示中列出的问题数上限
+}
+
+// 修复次数用尽且无法挽救
+export class StructuredOutputError extends Error {
+  readonly issues: SchemaIssue[];
+  readonly raw: string;
+
+  constructor(message: string, issues: SchemaIssue[], raw: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.issues = issues;
+    this.raw = raw;
+  }
+}
+
+// 默认配置
+const DEFAULT_CONFIG: StructuredOutputConfig = {
+  maxRepairAttempts: 2,
+  maxIssuesInPrompt: 10
+};
+
+// ========== JSON 解析与校验 ==========
+
+/**
+ * 从模型输出中提取 JSON：去掉 markdown 代码块，解析失败时截取首个 { / [ 到最后一个 } / ]
+ */
+export function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  const text = (fenced ? fenced[1] : content).trim();
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const start = text.search(/[{[]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(text.slice(start, end + 1));
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeOf(value) === type;
+  }
+}
+
+/**
+ * 按 JSON Schema 子集校验（type / enum / required / properties / items / 长度与范围），返回全部问题
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = '$'): SchemaIssue[] {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [{ path, message: `应为 ${types.join(' | ')}，实际为 ${typeOf(value)}` }];
+    }
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    issues.push({ path, message: `应为 ${schema.enum.map(option => JSON.stringify(option)).join(' / ')} 之一` });
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    issues.push({ path, message: `长度不能小于 ${schema.minLength}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `不能小于 ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `不能大于 ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `至少需要 ${schema.minItems} 项` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => issues.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        issues.push({ path: `${path}.${key}`, message: '缺少必填字段' });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) {
+        issues.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * 部分挽救的常用做法：去掉存在校验问题的顶层字段，由调用方使用默认值（值不是对象时返回 null）
+ */
+export function dropInvalidFields(value: unknown, issues: SchemaIssue[]): Record<string, unknown> | null {
+  if (typeOf(value) !== 'object') return null;
+
+  const result = { ...(value as Record<string, unknown>) };
+  for (const issue of issues) {
+    const key = issue.path.match(/^\$\.([^.[]+)/)?.[1];
+    if (key) delete result[key];
+  }
+  return result;
+}
+
+// ========== 流式解析 ==========
+
+// 流式解析回调
+export interface JsonStreamHandlers {
+  onField?: (key: string, value: unknown) => void;                      // 顶层字段的值完整时
+  onArrayItem?: (key: string, index: number, value: unknown) => void;   // 顶层数组字段的元素完整时
+}
+
+/**
+ * 增量 JSON 解析：按分片喂入模型输出，顶层字段和顶层数组的元素一旦完整立即回调
+ * 只跟踪字符串、转义和嵌套深度，不做完整校验；首个 { 之前的内容（如 markdown 代码块标记）被忽略
+ * 解析失败的片段直接跳过，最终结果仍以完整输出的校验为准
+ */
+export class JsonStreamParser {
+  private handlers: JsonStreamHandlers;
+  private text = '';
+  private position = 0;
+  private depth = 0;
+  private started = false;
+  private finished = false;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private expectingKey = false;
+  private currentKey: string | null = null;
+  private valueStart = -1;
+  private inArrayField = false;
+  private itemStart = -1;
+  private itemIndex = 0;
+
+  constructor(handlers: JsonStreamHandlers) {
+    this.handlers = handlers;
+  }
+
+  push(chunk: string): void {
+    this.text += chunk;
+
+    for (; this.position < this.text.length && !this.finished; this.position++) {
+      const i = this.position;
+      const ch = this.text[i];
+
+      if (!this.started) {
+        if (ch === '{') {
+          this.started = true;
+          this.depth = 1;
+          this.expectingKey = true;
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === '\\') {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+          if (this.depth === 1 && this.expectingKey) {
+            this.currentKey = this.parse(this.text.slice(this.stringStart, i + 1)) as string;
+          }
+        }
+        continue;
+      }
+
+      if (/\s/.test(ch)) continue;
+
+      switch (ch) {
+        case '"':
+          this.inString = true;
+          this.stringStart = i;
+          this.markValueStart(i);
+          break;
+        case ':':
+          if (this.depth === 1) this.expectingKey = false;
+          break;
+        case ',':
+          if (this.depth === 1) {
+            this.finishField(i);
+            this.expectingKey = true;
+          } else if (this.depth === 2 && this.inArrayField) {
+            this.finishItem(i);
+          }
+          break;
+        case '{':
+        case '[':
+          if (this.depth === 1 && !this.expectingKey && this.valueStart === -1) {
+            this.inArrayField = ch === '[';
+            this.itemIndex = 0;
+          }
+          this.markValueStart(i);
+          this.depth++;
+          break;
+        case '}':
+        case ']':
+          // 数组结束时先收尾最后一个原始值元素
+          if (this.depth === 2 && this.inArrayField) this.finishItem(i);
+          this.depth--;
+          if (this.depth === 2 && this.inArrayField) this.finishItem(i + 1);
+          if (this.depth === 0) {
+            this.finishField(i);
+            this.finished = true;
+          }
+          break;
+        default:
+          this.markValueStart(i);
+      }
+    }
+  }
+
+  // 记录顶层字段值或数组元素的起点
+  private markValueStart(i: number): void {
+    if (this.depth === 1 && !this.expectingKey && this.valueStart === -1) {
+      this.valueStart = i;
+    } else if (this.depth === 2 && this.inArrayField && this.itemStart === -1) {
+      this.itemStart = i;
+    }
+  }
+
+  private finishField(end: number): void {
+    if (this.valueStart !== -1 && this.currentKey !== null) {
+      const value = this.parse(this.text.slice(this.valueStart, end));
+      if (value !== undefined) this.handlers.onField?.(this.currentKey, value);
+    }
+    this.valueStart = -1;
+    this.currentKey = null;
+    this.inArrayField = false;
+  }
+
+  private finishItem(end: number): void {
+    if (this.itemStart === -1 || this.currentKey === null) return;
+    // 解析失败也占用序号，保证与完整输出中的下标一致
+    const value = this.parse(this.text.slice(this.itemStart, end));
+    if (value !== undefined) this.handlers.onArrayItem?.(this.currentKey, this.itemIndex, value);
+    this.itemStart = -1;
+    this.itemIndex++;
+  }
+
+  private parse(text: string): unknown {
+    try {
+      return JSON.parse(text.trim());
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// ========== StructuredOutput 类 ==========
+
+/**
+ * 结构化输出：请求模型返回符合 Schema 的 JSON
+ * 支持原生结构化输出的适配器通过 ChatOptions.responseFormat 约束输出；
+ * 校验失败时把问题列表发回模型修复，次数用尽后交给 salvage 保留有效部分
+ */
+export class StructuredOutput {
+  private config: StructuredOutputConfig;
+
+  constructor(config: Partial<StructuredOutputConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async request<T>(request: StructuredRequest<T>): Promise<StructuredResult<T>> {
+    const { role, name, schema, signal } = request;
+    const adapter = request.adapter ?? modelRouter.getAdapter(role);
+    const messages = [...request.messages];
+    const maxRepairs = this.config.maxRepairAttempts;
+
+    let raw = '';
+    let value: unknown;
+    let issues: SchemaIssue[] = [];
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+      const options: ChatOptions = { responseFormat: { name, schema }, signal };
+      const response = attempt === 0 && request.onDelta
+        ? await this.streamOnce(adapter, messages, options, request.onDelta)
+        : await adapter.chat(messages, options);
+      usageLedger.record(adapter, response.usage, { role, ...request.usageContext }, response.servedBy);
+      raw = response.content;
+
+      try {
+        value = extractJson(raw);
+        issues = validateSchema(value, schema);
+      } catch (error) {
+        value = undefined;
+        issues = [{ path: '$', message: `不是合法的 JSON：${error instanceof Error ? error.message : String(error)}` }];
+      }
+
+      if (issues.length === 0) {
+        return { value: value as T, repairAttempts: attempt, salvaged: false, issues: [] };
+      }
+
+      if (attempt < maxRepairs) {
+        console.warn(`[StructuredOutput] ${name} invalid (${issues.length} issues), repair attempt ${attempt + 1}/${maxRepairs}`);
+        messages.push(
+          { role: 'assistant', content: raw },
+          { role: 'user', content: this.buildRepairPrompt(issues, schema) }
+        );
+      }
+    }
+
+    const salvaged = value !== undefined ? request.salvage?.(value, issues) : null;
+    if (salvaged) {
+      console.warn(`[StructuredOutput] ${name} salvaged after ${maxRepairs} repair attempts, dropped: ${this.formatIssues(issues)}`);
+      return { value: salvaged, repairAttempts: maxRepairs, salvaged: true, issues };
+    }
+
+    throw new StructuredOutputError(`${name} 不符合格式要求：${this.formatIssues(issues)}`, issues, raw);
+  }
+
+  /**
+   * 流式请求并拼接为完整响应，用量与实际服务模型取自结束分片
+   */
+  private async streamOnce(
+    adapter: BaseAdapter,
+    messages: Message[],
+    options: ChatOptions,
+    onDelta: (delta: string) => void
+  ): Promise<ChatResponse> {
+    const response: ChatResponse = { content: '' };
+    for await (const chunk of adapter.streamChat(messages, options)) {
+      if (chunk.content) {
+        response.content += chunk.content;
+        onDelta(chunk.content);
+      }
+      if (chunk.done) {
+        response.usage = chunk.usage;
+        response.servedBy = chunk.servedBy;
+      }
+    }
+    return response;
+  }
+
+  private buildRepairPrompt(issues: SchemaIssue[], schema: JsonSchema): string {
+    const listed = issues.slice(0, this.config.maxIssuesInPrompt).map(issue => `- ${issue.path}: ${issue.message}`);
+    if (issues.length > listed.length) {
+      listed.push(`- 以及另外 ${issues.length - listed.length} 个问题`);
+    }
+    return `你上一次的输出不符合要求的 JSON 格式，存在以下问题：\n${listed.join('\n')}\n\n` +
+      `JSON Schema：\n${JSON.stringify(schema)}\n\n请修正以上问题，只返回完整的 JSON，不要包含任何其他文本或 markdown 代码块。`;
+  }
+
+  private formatIssues(issues: SchemaIssue[]): string {
+    return issues.slice(0, 5).map(issue => `${issue.path} ${issue.message}`).join('; ');
+  }
+
+  // ========== 配置 ==========
+
+  getConfig(): StructuredOutputConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Partial<StructuredOutputConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+}
+
+// 导出单例
+export const structuredOutput = new StructuredOutput();
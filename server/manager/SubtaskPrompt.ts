@@ -0,0 +1,156 @@
+import { masterAgent, type SubTask, type TaskResult } from './MasterAgent.js';
+import { modelRouter } from './ModelRouter.js';
+import { usageLedger } from './UsageLedger.js';
+import { taskPlanner } from './TaskPlanner.js';
+import { withAttachments } from '../adapters/content.js';
+import type { Message } from '../types.js';
+import { workspaceScoped } from './WorkspaceContext.js';
+
+// 子任务提示词配置
+export interface SubtaskPromptConfig {
+  dependencyContextMaxChars: number; // 注入依赖结果的总字符预算
+  dependencyResultMode: 'truncate' | 'summarize'; // 依赖结果超长时的处理方式
+}
+
+// 默认配置
+const DEFAULT_CONFIG: SubtaskPromptConfig = {
+  dependencyContextMaxChars: 6000,
+  dependencyResultMode: 'truncate'
+};
+
+// 依赖结果摘要提示词
+const DEPENDENCY_SUMMARY_PROMPT = `你是任务结果压缩专家。请在保留关键结论、数据和产出物的前提下，压缩下面的子任务执行结果。
+只输出压缩后的内容，不要添加解释。`;
+
+/**
+ * 子任务执行消息的构建（TaskScheduler 和 TaskExecutor 共用，保证执行时看到前置任务的结果）
+ */
+export class SubtaskPromptBuilder {
+  private config: SubtaskPromptConfig;
+
+  constructor(config: Partial<SubtaskPromptConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * 构建任务消息：系统消息为执行说明，用户消息包含子任务、附件和前置任务结果
+   */
+  async build(task: TaskResult, subtask: SubTask, agentId: string): Promise<Message[]> {
+    const subAgent = masterAgent.getSubAgent(agentId);
+    const dependencyContext = await this.buildDependencyContext(task, subtask);
+
+    return [
+      {
+        role: 'system',
+        content: `你是 ${subAgent?.name || 'Agent'}，负责执行总指挥分配的子任务。
+
+任务要求：
+1. 专注于当前子任务，不要偏离主题
+2. 提供详细、准确的执行结果
+3. 如果遇到问题，明确说明阻塞原因
+4. 完成后简要总结关键成果
+
+请开始执行任务。`
+      },
+      {
+        role: 'user',
+        content: withAttachments(`【子任务】${subtask.title}
+
+描述：${subtask.description}
+
+优先级：${subtask.priority}
+预计耗时：${subtask.estimatedMinutes} 分钟
+${dependencyContext}
+请开始执行并提供详细结果。`, task.attachments)
+      }
+    ];
+  }
+
+  /**
+   * 构建前置依赖的结果上下文
+   * 按字符预算平均分配给每个已完成的依赖，超长结果截断或摘要
+   */
+  async buildDependencyContext(task: TaskResult, subtask: SubTask): Promise<string> {
+    // 依赖在提交时已规范化为子任务ID，这里按同样的规则解析，不做模糊的后缀匹配
+    const completedDeps = subtask.dependencies
+      .map(ref => taskPlanner.resolveDependency(ref, task.subtasks))
+      .map(depId => task.subtasks.find(st => st.id === depId))
+      .filter((st): st is SubTask => !!st && st.status === 'completed' && !!st.result);
+
+    if (completedDeps.length === 0) {
+      return '';
+    }
+
+    const budgetPerDep = Math.floor(this.config.dependencyContextMaxChars / completedDeps.length);
+    const sections: string[] = [];
+
+    for (const dep of completedDeps) {
+      const content = await this.fitResultToBudget(dep.result!, budgetPerDep, task.taskId);
+      sections.push(`### ${dep.title}\n${content}`);
+    }
+
+    return `\n【前置任务结果】\n以下是本子任务所依赖的前置任务的执行结果，请在此基础上继续：\n\n${sections.join('\n\n')}\n`;
+  }
+
+  /**
+   * 更新配置
+   */
+  updateConfig(config: Partial<SubtaskPromptConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * 获取配置
+   */
+  getConfig(): SubtaskPromptConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 将结果压缩到预算以内
+   */
+  private async fitResultToBudget(result: string, budget: number, taskId: string): Promise<string> {
+    if (result.length <= budget) {
+      return result;
+    }
+
+    if (this.config.dependencyResultMode === 'summarize') {
+      try {
+        const adapter = modelRouter.getAdapter('summary');
+        const response = await adapter.chat([
+          { role: 'system', content: DEPENDENCY_SUMMARY_PROMPT },
+          { role: 'user', content: `请将以下内容压缩到 ${budget} 字以内：\n\n${result}` }
+        ]);
+        usageLedger.record(adapter, response.usage, { taskId, role: 'summary' }, response.servedBy);
+        const summary = response.content.trim();
+        if (summary && summary.length <= budget) {
+          return summary;
+        }
+        // 摘要仍然超长时退回截断
+        return this.truncateResult(summary || result, budget);
+      } catch (error) {
+        console.error('[SubtaskPrompt] Dependency summary failed, falling back to truncation:', error);
+      }
+    }
+
+    return this.truncateResult(result, budget);
+  }
+
+  /**
+   * 截断结果，保留开头和结尾
+   */
+  private truncateResult(result: string, budget: number): string {
+    const marker = '\n...[内容已截断]...\n';
+    if (budget <= marker.length) {
+      return result.slice(0, budget);
+    }
+
+    const keep = budget - marker.length;
+    const head = Math.ceil(keep * 0.7);
+    const tail = keep - head;
+    return result.slice(0, head) + marker + (tail > 0 ? result.slice(-tail) : '');
+  }
+}
+
+// 导出单例（按工作区隔离）
+export const subtaskPrompt = workspaceScoped('subtaskPrompt', () => new SubtaskPromptBuilder());
@@ -1,9 +1,14 @@
 import { EventEmitter } from 'events';
-import { masterAgent, type SubTask, type TaskResult } from './MasterAgent.js';
+import { masterAgent } from './MasterAgent.js';
 import { agentManager } from './AgentManager.js';
 import { taskScheduler, type SchedulerEvent } from './TaskScheduler.js';
-import { MinimaxAdapter } from '../adapters/MinimaxAdapter.js';
-import type { Message, ModelConfig } from '../types.js';
+import { modelRouter } from './ModelRouter.js';
+import { usageLedger, type UsageContext } from './UsageLedger.js';
+import { isAbortError } from '../adapters/BaseAdapter.js';
+import { ProviderError } from '../adapters/resilience.js';
+import type { Message, ServedModel, StreamChunk } from '../types.js';
+import { subtaskPrompt } from './SubtaskPrompt.js';
+import { workspaceScoped } from './WorkspaceContext.js';
 
 // 执行配置
 interface ExecutorConfig {
@@ -18,7 +23,7 @@ interface ExecuteState {
   taskId: string;
   subTaskId: string;
   agentId: string;
-  status: 'pending' | 'running' | 'streaming' | 'completed' | 'failed' | 'retrying';
+  status: 'pending' | 'running' | 'streaming' | 'completed' | 'failed' | 'retrying' | 'cancelled';
   progress: number;            // 0-100
   currentOutput: string;       // 当前输出内容
   fullOutput: string;          // 完整输出
@@ -26,11 +31,12 @@ interface ExecuteState {
   endTime?: number;
   retryCount: number;
   error?: string;
+  servedBy?: ServedModel;      // 实际应答的模型（启用备用模型链时）
 }
 
 // 执行事件
 export interface ExecuteEvent {
-  type: 'task_start' | 'task_progress' | 'task_stream' | 'task_complete' | 'task_failed' | 'task_retry';
+  type: 'task_start' | 'task_progress' | 'task_stream' | 'task_complete' | 'task_failed' | 'task_retry' | 'task_cancelled';
   taskId: string;
   subTaskId: string;
   agentId: string;
@@ -40,6 +46,7 @@ export interface ExecuteEvent {
     delta?: string;
     error?: string;
     retryCount?: number;
+    servedBy?: ServedModel;
   };
   timestamp: number;
 }
@@ -52,27 +59,14 @@ const DEFAULT_CONFIG: ExecutorConfig = {
   enableProgressStream: true
 };
 
-// MiniMax 配置（用于子Agent）
-const MINIMAX_CONFIG: ModelConfig = {
-  id: 'minimax-subagent',
-  name: 'MiniMax M2.5',
-  provider: 'minimax',
-  baseUrl: 'https://api.minimaxi.com/anthropic',
-  model: 'MiniMax-M2.5',
-  temperature: 0.7,
-  maxTokens: 4000,
-  enabled: true
-};
-
 export class TaskExecutor extends EventEmitter {
   private config: ExecutorConfig;
   private executeStates: Map<string, ExecuteState> = new Map(); // key: `${taskId}-${subTaskId}`
-  private adapter: MinimaxAdapter;
+  private abortControllers: Map<string, AbortController> = new Map(); // key 同上
 
   constructor(config: Partial<ExecutorConfig> = {}) {
     super();
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.adapter = new MinimaxAdapter(MINIMAX_CONFIG);
 
     // 监听调度器事件
     taskScheduler.on('event', this.handleSchedulerEvent.bind(this));
@@ -82,9 +76,9 @@ export class TaskExecutor extends EventEmitter {
 
   /**
    * 执行任务
-   * 这是主要的任务执行入口
+   * 这是主要的任务执行入口，signal 中止时立即停止生成
    */
-  async executeTask(taskId: string, subTaskId: string, agentId: string): Promise<string> {
+  async executeTask(taskId: string, subTaskId: string, agentId: string, signal?: AbortSignal): Promise<string> {
     const stateKey = `${taskId}-${subTaskId}`;
     
     // 检查是否已在执行
@@ -109,18 +103,27 @@ export class TaskExecutor extends EventEmitter {
     };
     this.executeStates.set(stateKey, state);
 
+    const abortController = new AbortController();
+    signal?.addEventListener('abort', () => abortController.abort(signal.reason), { once: true });
+    this.abortControllers.set(stateKey, abortController);
+
     // 开始执行
-    return this.runWithRetry(state);
+    try {
+      return await this.runWithRetry(state, abortController.signal);
+    } finally {
+      if (this.abortControllers.get(stateKey) === abortController) {
+        this.abortControllers.delete(stateKey);
+      }
+    }
   }
 
   /**
    * 带重试的执行逻辑
    */
-  private async runWithRetry(state: ExecuteState): Promise<string> {
-    const stateKey = `${state.taskId}-${state.subTaskId}`;
-    
+  private async runWithRetry(state: ExecuteState, signal: AbortSignal): Promise<string> {
     while (state.retryCount <= this.config.maxRetries) {
       try {
+        signal.throwIfAborted();
         state.status = 'running';
         state.error = undefined;
         
@@ -128,7 +131,7 @@ export class TaskExecutor extends EventEmitter {
         this.emitExecuteEvent('task_start', state);
 
         // 执行实际任务
-        const result = await this.runSubtaskWithStream(state);
+        const result = await this.runSubtaskWithStream(state, signal);
         
         // 标记完成
         state.status = 'completed';
@@ -136,15 +139,22 @@ export class TaskExecutor extends EventEmitter {
         state.endTime = Date.now();
         state.fullOutput = result;
         
-        this.emitExecuteEvent('task_complete', state);
+        this.emitExecuteEvent('task_complete', state, { servedBy: state.servedBy });
         
         return result;
 
       } catch (error) {
+        // 取消不重试
+        if (isAbortError(error, signal)) {
+          this.cancelState(state, state.error || 'Aborted');
+          throw error;
+        }
+
         state.retryCount++;
         state.error = error instanceof Error ? error.message : String(error);
-        
-        if (state.retryCount <= this.config.maxRetries) {
+
+        // 供应商错误已由适配器按类型重试过（或不可重试），直接失败
+        if (!(error instanceof ProviderError) && state.retryCount <= this.config.maxRetries) {
           // 进入重试状态
           state.status = 'retrying';
           this.emitExecuteEvent('task_retry', state, { retryCount: state.retryCount });
@@ -157,6 +167,7 @@ export class TaskExecutor extends EventEmitter {
           state.endTime = Date.now();
           this.emitExecuteEvent('task_failed', state, { error: state.error });
           
+          if (error instanceof ProviderError) throw error;
           throw new Error(`Task execution failed after ${this.config.maxRetries} retries: ${state.error}`);
         }
       }
@@ -168,7 +179,7 @@ export class TaskExecutor extends EventEmitter {
   /**
    * 带流式响应的子任务执行
    */
-  private async runSubtaskWithStream(state: ExecuteState): Promise<string> {
+  private async runSubtaskWithStream(state: ExecuteState, signal: AbortSignal): Promise<string> {
     const { taskId, subTaskId, agentId } = state;
     
     // 获取任务和子任务信息
@@ -180,7 +191,7 @@ export class TaskExecutor extends EventEmitter {
     }
 
     // 构建任务消息
-    const messages = this.buildTaskMessages(subtask, agentId);
+    const messages = await subtaskPrompt.build(task, subtask, agentId);
     
     // 开始流式调用
     state.status = 'streaming';
@@ -189,7 +200,11 @@ export class TaskExecutor extends EventEmitter {
 
     try {
       // 使用 streamChat 获取流式响应
-      const stream = await this.getAgentStream(agentId, messages);
+      const stream = await this.getAgentStream(agentId, messages, {
+        taskId,
+        subTaskId,
+        role: 'execution'
+      }, signal);
       
       for await (const chunk of stream) {
         if (chunk.content) {
@@ -220,6 +235,7 @@ export class TaskExecutor extends EventEmitter {
         
         if (chunk.done) {
           state.progress = 100;
+          state.servedBy = chunk.servedBy ?? state.servedBy;
         }
       }
 
@@ -233,6 +249,7 @@ export class TaskExecutor extends EventEmitter {
 
     } catch (error) {
       // 处理流式过程中的错误
+      if (isAbortError(error, signal)) throw error;
       console.error(`[TaskExecutor] Stream error for ${state.taskId}-${state.subTaskId}:`, error);
       throw error;
     }
@@ -242,53 +259,37 @@ export class TaskExecutor extends EventEmitter {
    * 获取 Agent 的流式响应
    */
   private async getAgentStream(
-    agentId: string, 
-    messages: Message[]
-  ): Promise<AsyncGenerator<{ content: string; done: boolean }, void, unknown>> {
+    agentId: string,
+    messages: Message[],
+    usageContext: UsageContext,
+    signal: AbortSignal
+  ): Promise<AsyncGenerator<StreamChunk, void, unknown>> {
     // 首先尝试通过 agentManager
-    const stream = await agentManager.sendMessage(agentId, messages[messages.length - 1].content);
-    
+    const stream = await agentManager.sendMessage(agentId, messages[messages.length - 1].content, usageContext, signal);
+
     if (stream) {
       return stream;
     }
 
-    // 备用：直接使用 adapter
-    return this.adapter.streamChat(messages);
+    // 备用：直接使用执行模型
+    return this.streamWithUsage(messages, { ...usageContext, agentId }, signal);
   }
 
   /**
-   * 构建任务消息
+   * 直接调用执行模型，并在结束分片上记录用量
    */
-  private buildTaskMessages(subtask: SubTask, agentId: string): Message[] {
-    const subAgent = masterAgent.getSubAgent(agentId);
-    
-    const messages: Message[] = [
-      {
-        role: 'system',
-        content: `你是 ${subAgent?.name || 'Agent'}，负责执行总指挥分配的子任务。
-
-任务要求：
-1. 专注于当前子任务，不要偏离主题
-2. 提供详细、准确的执行结果
-3. 如果遇到问题，明确说明阻塞原因
-4. 完成后简要总结关键成果
-
-请开始执行任务。`
-      },
-      {
-        role: 'user',
-        content: `【子任务】${subtask.title}
-
-描述：${subtask.description}
-
-优先级：${subtask.priority}
-预计耗时：${subtask.estimatedMinutes} 分钟
-
-请开始执行并提供详细结果。`
+  private async *streamWithUsage(
+    messages: Message[],
+    usageContext: UsageContext,
+    signal: AbortSignal
+  ): AsyncGenerator<StreamChunk, void, unknown> {
+    const adapter = modelRouter.getAdapter('execution');
+    for await (const chunk of adapter.streamChat(messages, { signal })) {
+      if (chunk.done) {
+        usageLedger.record(adapter, chunk.usage, usageContext, chunk.servedBy);
       }
-    ];
-
-    return messages;
+      yield chunk;
+    }
   }
 
   // ========== 事件处理 ==========
@@ -303,7 +304,9 @@ export class TaskExecutor extends EventEmitter {
         if (event.agentId && event.subTaskId) {
           this.executeTask(event.taskId, event.subTaskId, event.agentId)
             .catch(error => {
-              console.error(`[TaskExecutor] Execution error:`, error);
+              if (!isAbortError(error)) {
+                console.error(`[TaskExecutor] Execution error:`, error);
+              }
             });
         }
         break;
@@ -312,6 +315,13 @@ export class TaskExecutor extends EventEmitter {
         // 处理超时
         this.handleTimeout(event.taskId, event.subTaskId!);
         break;
+
+      case 'task_cancelled':
+        // 调度器暂停或取消子任务，同步中止执行
+        if (event.subTaskId) {
+          this.abortTask(event.taskId, event.subTaskId, event.data?.reason === 'paused' ? 'Paused' : 'Cancelled');
+        }
+        break;
     }
   }
 
@@ -319,16 +329,20 @@ export class TaskExecutor extends EventEmitter {
    * 处理超时
    */
   private handleTimeout(taskId: string, subTaskId: string): void {
-    const stateKey = `${taskId}-${subTaskId}`;
-    const state = this.executeStates.get(stateKey);
-    
-    if (state) {
-      state.status = 'failed';
-      state.error = 'Task execution timeout';
-      state.endTime = Date.now();
-      
-      this.emitExecuteEvent('task_failed', state, { error: 'Execution timeout' });
-    }
+    this.abortTask(taskId, subTaskId, 'Execution timeout');
+  }
+
+  /**
+   * 标记执行状态为已取消
+   */
+  private cancelState(state: ExecuteState, reason: string): void {
+    if (state.status === 'cancelled') return;
+
+    state.status = 'cancelled';
+    state.error = reason;
+    state.endTime = Date.now();
+
+    this.emitExecuteEvent('task_cancelled', state, { error: reason });
   }
 
   /**
@@ -396,22 +410,19 @@ export class TaskExecutor extends EventEmitter {
   }
 
   /**
-   * 强制停止任务
+   * 强制停止任务：中止进行中的生成并标记为 cancelled
    */
-  abortTask(taskId: string, subTaskId?: string): boolean {
+  abortTask(taskId: string, subTaskId?: string, reason: string = 'Aborted by user'): boolean {
     const states = subTaskId 
       ? [this.executeStates.get(`${taskId}-${subTaskId}`)].filter(Boolean) as ExecuteState[]
       : this.getTaskExecuteStates(taskId);
 
     let aborted = false;
     for (const state of states) {
-      if (state.status === 'running' || state.status === 'streaming' || state.status === 'pending') {
-        state.status = 'failed';
-        state.error = 'Aborted by user';
-        state.endTime = Date.now();
+      if (['running', 'streaming', 'pending', 'retrying'].includes(state.status)) {
+        this.cancelState(state, reason);
+        this.abortControllers.get(`${state.taskId}-${state.subTaskId}`)?.abort();
         aborted = true;
-        
-        this.emitExecuteEvent('task_failed', state, { error: 'Aborted by user' });
       }
     }
 
@@ -439,5 +450,5 @@ export class TaskExecutor extends EventEmitter {
   }
 }
 
-// 导出单例
-export const taskExecutor = new TaskExecutor();
+// 导出单例（按工作区隔离）
+export const taskExecutor = workspaceScoped('taskExecutor', () => new TaskExecutor());
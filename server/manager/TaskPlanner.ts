@@ -0,0 +1,328 @@
+import type { Message } from '../types.js';
+import { masterAgent, SUBTASK_SCHEMA, type SubTask, type TaskAnalysis } from './MasterAgent.js';
+import { structuredOutput, dropInvalidFields } from './StructuredOutput.js';
+
+// ========== 类型定义 ==========
+
+// 计划校验问题
+export interface PlanIssue {
+  type: 'empty_plan' | 'duplicate_id' | 'missing_title' | 'self_dependency' | 'dangling_dependency' | 'cycle';
+  subTaskId?: string;
+  message: string;
+  cycle?: string[];  // 环路上的子任务ID（首尾相同）
+}
+
+export interface PlanValidation {
+  valid: boolean;
+  issues: PlanIssue[];
+}
+
+// 可编辑的子任务字段
+export type SubTaskEdit = Partial<Pick<
+  SubTask,
+  'title' | 'description' | 'priority' | 'estimatedMinutes' | 'dependencies' | 'requiredSkills' | 'requiresApproval'
+>>;
+
+export const EDITABLE_SUBTASK_FIELDS: Array<keyof SubTaskEdit> = [
+  'title', 'description', 'priority', 'estimatedMinutes', 'dependencies', 'requiredSkills', 'requiresApproval'
+];
+
+// 单个子任务重新分析提示词
+const SUBTASK_REANALYSIS_PROMPT = `你是总指挥Agent，负责重新规划执行计划中的单个子任务。
+
+根据原始任务、计划中的其他子任务以及用户的修改意见，重新给出该子任务的标题、描述、优先级、预估时间和所需技能。
+不要修改它与其他子任务的依赖关系。
+
+重要：你必须只返回 JSON 格式，不要返回任何其他文本、解释或 markdown 代码块。
+
+输出格式（严格的 JSON）：
+{
+  "title": "子任务标题",
+  "description": "详细描述",
+  "priority": "high",
+  "estimatedMinutes": 5,
+  "requiredSkills": ["技能1"],
+  "requiresApproval": false
+}`;
+
+// ========== TaskPlanner 类 ==========
+
+/**
+ * 执行计划编辑与校验
+ * 分析结果与 MasterAgent 中的任务共享 subtasks 数组，编辑时原地修改以保持同步
+ */
+export class TaskPlanner {
+  // ========== 依赖解析 ==========
+
+  /**
+   * 将依赖引用解析为子任务ID
+   * 支持子任务ID、从0开始的序号、子任务标题，以及 ID 后缀（如 "0" 对应 subtask-xxx-0）
+   */
+  resolveDependency(ref: string, subtasks: SubTask[]): string | undefined {
+    const value = String(ref).trim();
+    if (!value) return undefined;
+
+    const byId = subtasks.find(st => st.id === value);
+    if (byId) return byId.id;
+
+    if (/^\d+$/.test(value)) {
+      const bySuffix = subtasks.find(st => st.id.endsWith(`-${value}`));
+      if (bySuffix) return bySuffix.id;
+      return subtasks[Number(value)]?.id;
+    }
+
+    const lower = value.toLowerCase();
+    return subtasks.find(st => st.title.trim().toLowerCase() === lower)?.id;
+  }
+
+  /**
+   * 规范化所有子任务的依赖（无法解析的引用原样保留，由 validate 报告）
+   */
+  normalizeDependencies(subtasks: SubTask[]): void {
+    for (const subtask of subtasks) {
+      subtask.dependencies = this.normalizeRefs(subtask.dependencies, subtasks);
+    }
+  }
+
+  /**
+   * 新分析结果入库前的整理：依赖引用统一为子任务ID
+   */
+  preparePlan(analysis: TaskAnalysis): PlanValidation {
+    this.normalizeDependencies(analysis.subtasks);
+    this.save(analysis);
+    return this.validate(analysis.subtasks);
+  }
+
+  // ========== 校验 ==========
+
+  /**
+   * 校验执行计划：非空、ID 唯一、标题非空、依赖可解析且无环
+   */
+  validate(subtasks: SubTask[]): PlanValidation {
+    const issues: PlanIssue[] = [];
+
+    if (subtasks.length === 0) {
+      issues.push({ type: 'empty_plan', message: '执行计划中没有子任务' });
+    }
+
+    const ids = new Set<string>();
+    for (const subtask of subtasks) {
+      if (ids.has(subtask.id)) {
+        issues.push({ type: 'duplicate_id', subTaskId: subtask.id, message: `子任务ID重复: ${subtask.id}` });
+      }
+      ids.add(subtask.id);
+
+      if (!subtask.title?.trim()) {
+        issues.push({ type: 'missing_title', subTaskId: subtask.id, message: `子任务 ${subtask.id} 缺少标题` });
+      }
+
+      for (const dep of subtask.dependencies) {
+        if (dep === subtask.id) {
+          issues.push({ type: 'self_dependency', subTaskId: subtask.id, message: `子任务「${subtask.title}」依赖了自身` });
+        } else if (!subtasks.some(st => st.id === dep)) {
+          issues.push({ type: 'dangling_dependency', subTaskId: subtask.id, message: `子任务「${subtask.title}」的依赖 ${dep} 不存在` });
+        }
+      }
+    }
+
+    for (const cycle of this.findCycles(subtasks)) {
+      const titles = cycle.map(id => subtasks.find(st => st.id === id)?.title || id);
+      issues.push({
+        type: 'cycle',
+        subTaskId: cycle[0],
+        message: `依赖存在环路: ${titles.join(' → ')}`,
+        cycle
+      });
+    }
+
+    return { valid: issues.length === 0, issues };
+  }
+
+  /**
+   * 查找依赖环（深度优先，忽略自依赖和悬空依赖）
+   */
+  private findCycles(subtasks: SubTask[]): string[][] {
+    const byId = new Map(subtasks.map(st => [st.id, st]));
+    const state = new Map<string, 'visiting' | 'done'>();
+    const cycles: string[][] = [];
+    const path: string[] = [];
+
+    const visit = (id: string): void => {
+      state.set(id, 'visiting');
+      path.push(id);
+
+      for (const dep of byId.get(id)?.dependencies || []) {
+        if (dep === id || !byId.has(dep)) continue;
+        if (state.get(dep) === 'visiting') {
+          cycles.push([...path.slice(path.indexOf(dep)), dep]);
+        } else if (!state.has(dep)) {
+          visit(dep);
+        }
+      }
+
+      path.pop();
+      state.set(id, 'done');
+    };
+
+    for (const subtask of subtasks) {
+      if (!state.has(subtask.id)) visit(subtask.id);
+    }
+    return cycles;
+  }
+
+  // ========== 编辑 ==========
+
+  /**
+   * 计划是否仍可编辑（提交执行前）
+   */
+  isEditable(analysisId: string): boolean {
+    const task = masterAgent.getTaskStatus(analysisId);
+    return !task || task.status === 'pending';
+  }
+
+  /**
+   * 添加子任务（index 缺省时追加到末尾）
+   */
+  addSubtask(analysis: TaskAnalysis, input: SubTaskEdit & { title: string }, index?: number): SubTask {
+    const subtask: SubTask = {
+      id: this.nextSubtaskId(analysis),
+      title: input.title,
+      description: input.description || '',
+      priority: input.priority || 'medium',
+      estimatedMinutes: input.estimatedMinutes || 5,
+      dependencies: this.normalizeRefs(input.dependencies || [], analysis.subtasks),
+      requiredSkills: input.requiredSkills || [],
+      requiresApproval: input.requiresApproval === true,
+      status: 'pending'
+    };
+
+    const position = index === undefined ? analysis.subtasks.length : Math.max(0, Math.min(index, analysis.subtasks.length));
+    analysis.subtasks.splice(position, 0, subtask);
+    this.save(analysis);
+    return subtask;
+  }
+
+  /**
+   * 修改子任务
+   */
+  updateSubtask(analysis: TaskAnalysis, subTaskId: string, edit: SubTaskEdit): SubTask | null {
+    const subtask = analysis.subtasks.find(st => st.id === subTaskId);
+    if (!subtask) return null;
+
+    for (const field of EDITABLE_SUBTASK_FIELDS) {
+      if (edit[field] !== undefined) {
+        Object.assign(subtask, { [field]: edit[field] });
+      }
+    }
+    if (edit.dependencies) {
+      subtask.dependencies = this.normalizeRefs(edit.dependencies, analysis.subtasks);
+    }
+
+    this.save(analysis);
+    return subtask;
+  }
+
+  /**
+   * 删除子任务，并从其他子任务的依赖中移除
+   */
+  removeSubtask(analysis: TaskAnalysis, subTaskId: string): boolean {
+    const index = analysis.subtasks.findIndex(st => st.id === subTaskId);
+    if (index === -1) return false;
+
+    analysis.subtasks.splice(index, 1);
+    for (const subtask of analysis.subtasks) {
+      subtask.dependencies = subtask.dependencies.filter(dep => dep !== subTaskId);
+    }
+
+    this.save(analysis);
+    return true;
+  }
+
+  /**
+   * 调整子任务顺序（必须包含全部子任务ID）
+   */
+  reorderSubtasks(analysis: TaskAnalysis, subTaskIds: string[]): void {
+    const current = new Set(analysis.subtasks.map(st => st.id));
+    if (subTaskIds.length !== current.size || !subTaskIds.every(id => current.has(id))) {
+      throw new Error('排序必须包含且仅包含计划中的全部子任务ID');
+    }
+
+    const ordered = subTaskIds.map(id => analysis.subtasks.find(st => st.id === id)!);
+    analysis.subtasks.splice(0, analysis.subtasks.length, ...ordered);
+    this.save(analysis);
+  }
+
+  /**
+   * 重新分析单个子任务（保留ID和依赖关系）
+   */
+  async reanalyzeSubtask(analysis: TaskAnalysis, subTaskId: string, instructions?: string): Promise<SubTask | null> {
+    const subtask = analysis.subtasks.find(st => st.id === subTaskId);
+    if (!subtask) return null;
+
+    const others = analysis.subtasks
+      .filter(st => st.id !== subTaskId)
+      .map((st, index) => `${index + 1}. ${st.title}`)
+      .join('\n');
+
+    const messages: Message[] = [
+      { role: 'system', content: SUBTASK_REANALYSIS_PROMPT },
+      {
+        role: 'user',
+        content: `[原始任务]\n${analysis.originalTask}\n\n[其他子任务]\n${others || '无'}\n\n` +
+          `[当前子任务]\n${JSON.stringify({
+            title: subtask.title,
+            description: subtask.description,
+            priority: subtask.priority,
+            estimatedMinutes: subtask.estimatedMinutes,
+            requiredSkills: subtask.requiredSkills
+          }, null, 2)}\n\n[修改意见]\n${instructions || '请重新分析该子任务，使其更具体、可执行'}`
+      }
+    ];
+
+    // 输出已通过校验，缺失或无效（被挽救时丢弃）的字段沿用原值
+    const { value: parsed } = await structuredOutput.request<Partial<SubTask>>({
+      role: 'analysis',
+      messages,
+      name: 'subtask',
+      schema: SUBTASK_SCHEMA,
+      usageContext: { taskId: analysis.id, subTaskId },
+      salvage: (raw, issues) => dropInvalidFields(raw, issues)
+    });
+
+    return this.updateSubtask(analysis, subTaskId, {
+      title: parsed.title || subtask.title,
+      description: parsed.description || subtask.description,
+      priority: parsed.priority ?? subtask.priority,
+      estimatedMinutes: parsed.estimatedMinutes ?? subtask.estimatedMinutes,
+      requiredSkills: parsed.requiredSkills ?? subtask.requiredSkills,
+      requiresApproval: parsed.requiresApproval === true || subtask.requiresApproval
+    });
+  }
+
+  // ========== 工具方法 ==========
+
+  private normalizeRefs(refs: string[], subtasks: SubTask[]): string[] {
+    const resolved = refs.map(ref => this.resolveDependency(ref, subtasks) || String(ref));
+    return Array.from(new Set(resolved));
+  }
+
+  /**
+   * 生成新的子任务ID（沿用 subtask-<analysisId>-<序号> 格式）
+   */
+  private nextSubtaskId(analysis: TaskAnalysis): string {
+    const prefix = `subtask-${analysis.id}-`;
+    const used = analysis.subtasks
+      .filter(st => st.id.startsWith(prefix))
+      .map(st => Number(st.id.slice(prefix.length)))
+      .filter(n => Number.isInteger(n));
+    const next = used.length > 0 ? Math.max(...used) + 1 : analysis.subtasks.length;
+    return `${prefix}${next}`;
+  }
+
+  private save(analysis: TaskAnalysis): void {
+    masterAgent.updatePlan(analysis.id, analysis.subtasks);
+  }
+}
+
+// 导出单例
+export const taskPlanner = new TaskPlanner();
@@ -1,7 +1,15 @@
 import { EventEmitter } from 'events';
-import { masterAgent, type TaskAnalysis, type SubTask, type TaskResult } from './MasterAgent.js';
+import { masterAgent, type TaskAnalysis, type SubTask, type TaskResult, type ApprovalDecision } from './MasterAgent.js';
 import { agentManager } from './AgentManager.js';
 import type { SubAgentInfo } from './MasterAgent.js';
+import { taskStore } from './TaskStore.js';
+import { budgetManager } from './BudgetManager.js';
+import { taskPlanner } from './TaskPlanner.js';
+import { memoryExtractor } from './MemoryExtractor.js';
+import { subtaskPrompt } from './SubtaskPrompt.js';
+import { ProviderError } from '../adapters/resilience.js';
+import type { ServedModel } from '../types.js';
+import { workspaceScoped } from './WorkspaceContext.js';
 
 // 任务队列项
 interface QueueItem {
@@ -19,6 +27,7 @@ interface RunningTask {
   agentId: string;
   startTime: number;
   abortController: AbortController;
+  stopReason?: 'paused' | 'cancelled' | 'timeout'; // 中止原因
 }
 
 // 调度器配置
@@ -32,7 +41,7 @@ interface SchedulerConfig {
 
 // 调度器事件
 export interface SchedulerEvent {
-  type: 'task_queued' | 'task_started' | 'task_completed' | 'task_failed' | 'task_timeout' | 'queue_updated';
+  type: 'task_queued' | 'task_started' | 'task_completed' | 'task_failed' | 'task_timeout' | 'task_cancelled' | 'queue_updated' | 'approval_required' | 'approval_resolved' | 'dependency_deadlock';
   taskId: string;
   subTaskId?: string;
   agentId?: string;
@@ -55,6 +64,7 @@ export class TaskScheduler extends EventEmitter {
   private runningTasks: Map<string, RunningTask> = new Map(); // key: `${taskId}-${subTaskId}`
   private isProcessing: boolean = false;
   private taskRetryCount: Map<string, number> = new Map();
+  private pausedTasks: Set<string> = new Set(); // 已暂停的任务ID，恢复前不派发其子任务
 
   constructor(config: Partial<SchedulerConfig> = {}) {
     super();
@@ -70,6 +80,19 @@ export class TaskScheduler extends EventEmitter {
     taskAnalysis: TaskAnalysis,
     subAgents: SubAgentInfo[]
   ): Promise<void> {
+    // 规范化依赖引用（标题 / 序号 / ID），有环或悬空依赖时拒绝提交
+    taskPlanner.normalizeDependencies(taskAnalysis.subtasks);
+    const validation = taskPlanner.validate(taskAnalysis.subtasks);
+    if (!validation.valid) {
+      throw new Error(`Invalid task plan: ${validation.issues.map(issue => issue.message).join('; ')}`);
+    }
+
+    const task = masterAgent.getTaskStatus(taskAnalysis.id);
+    if (task) {
+      taskPlanner.normalizeDependencies(task.subtasks);
+      masterAgent.updatePlan(task.taskId, task.subtasks);
+    }
+
     // 为每个子任务创建队列项
     for (const subtask of taskAnalysis.subtasks) {
       // 计算优先级（高优先级=低数字）
@@ -115,6 +138,14 @@ export class TaskScheduler extends EventEmitter {
     } else {
       this.taskQueue.splice(index, 0, item);
     }
+    this.persistQueue();
+  }
+
+  /**
+   * 保存队列快照
+   */
+  private persistQueue(): void {
+    taskStore.persist('queue', 'pending', this.taskQueue);
   }
 
   /**
@@ -162,12 +193,16 @@ export class TaskScheduler extends EventEmitter {
   }
 
   /**
-   * 检查Agent是否有所需技能
+   * 检查Agent是否有所需技能（以技能文件中已启用的技能和灵魂文件中的角色为准）
    */
   private hasRequiredSkills(agent: SubAgentInfo, requiredSkills: string[]): boolean {
     if (requiredSkills.length === 0) return true;
-    return requiredSkills.some(skill => 
-      agent.skills.includes(skill) || agent.role.toLowerCase().includes(skill.toLowerCase())
+
+    const profile = agentManager.getAgent(agent.id)?.profile;
+    const skills = (profile?.skills ?? agent.skills).map(skill => skill.toLowerCase());
+    const role = (profile?.role ?? agent.role).toLowerCase();
+    return requiredSkills.some(skill =>
+      skills.includes(skill.toLowerCase()) || role.includes(skill.toLowerCase())
     );
   }
 
@@ -183,19 +218,26 @@ export class TaskScheduler extends EventEmitter {
     try {
       while (this.taskQueue.length > 0 && this.runningTasks.size < this.config.maxConcurrency) {
         const executableTasks = this.taskQueue.filter(item => 
-          this.canExecute(item) && item.agentId
+          !this.pausedTasks.has(item.taskId) && this.canExecute(item) && budgetManager.canDispatch(item.taskId) && this.passesApprovalGate(item) &&
+          (item.agentId ? !this.isAgentBusy(item.agentId) : !!this.findDispatchAgent(item))
         );
 
         if (executableTasks.length === 0) {
-          // 没有可执行的任务，等待依赖完成
+          // 没有可执行的任务，等待依赖完成、预算追加、人工审批或Agent空闲
           break;
         }
 
         // 取出最高优先级的任务
         const nextTask = executableTasks[0];
+        if (!nextTask.agentId) {
+          // 提交时没有空闲Agent的子任务，在派发时分配
+          nextTask.agentId = this.findDispatchAgent(nextTask)!;
+          await masterAgent.assignTask(nextTask.taskId, nextTask.agentId, nextTask.subTaskId);
+        }
         this.taskQueue = this.taskQueue.filter(item => 
           !(item.taskId === nextTask.taskId && item.subTaskId === nextTask.subTaskId)
         );
+        this.persistQueue();
 
         // 执行任务
         this.executeTask(nextTask);
@@ -210,6 +252,29 @@ export class TaskScheduler extends EventEmitter {
     }
   }
 
+  /**
+   * 为尚未分配的子任务选择Agent：从同一任务已分配过子任务的Agent（即任务团队）中选择当前没有执行子任务的
+   */
+  private findDispatchAgent(item: QueueItem): string | undefined {
+    const task = masterAgent.getTaskStatus(item.taskId);
+    const subtask = task?.subtasks.find(st => st.id === item.subTaskId);
+    if (!task || !subtask) return undefined;
+
+    const teamIds = new Set(task.subtasks.map(st => st.assignedAgentId).filter((id): id is string => !!id));
+    const available = Array.from(teamIds)
+      .map(id => masterAgent.getSubAgent(id))
+      .filter((agent): agent is SubAgentInfo => !!agent && !this.isAgentBusy(agent.id))
+      .map(agent => ({ ...agent, status: 'idle' as const }));
+    return this.findBestAgent(subtask, available);
+  }
+
+  /**
+   * Agent 是否正在执行子任务（同一 Agent 不并发执行，避免共用对话历史）
+   */
+  private isAgentBusy(agentId: string): boolean {
+    return Array.from(this.runningTasks.values()).some(running => running.agentId === agentId);
+  }
+
   /**
    * 检查任务是否可以执行
    */
@@ -223,9 +288,9 @@ export class TaskScheduler extends EventEmitter {
     // 检查依赖是否完成
     if (subtask.dependencies.length === 0) return true;
 
-    // 检查所有依赖的子任务是否完成
+    // 检查所有依赖的子任务是否完成（依赖在提交时已规范化为子任务ID）
     for (const depId of subtask.dependencies) {
-      const depSubtask = task.subtasks.find(st => st.id === depId || st.id.endsWith(depId));
+      const depSubtask = task.subtasks.find(st => st.id === depId);
       if (!depSubtask || depSubtask.status !== 'completed') {
         return false;
       }
@@ -234,6 +299,79 @@ export class TaskScheduler extends EventEmitter {
     return true;
   }
 
+  /**
+   * 死锁检测：子任务失败或超时后，队列中直接或间接依赖它的子任务永远无法执行
+   * 将这些子任务移出队列并发出 dependency_deadlock 事件，由 ExceptionHandler 记录异常
+   */
+  private detectDeadlock(taskId: string): void {
+    const task = masterAgent.getTaskStatus(taskId);
+    if (!task) return;
+
+    // 超时的子任务标记为 cancelled，同样无法满足依赖
+    const failedIds = task.subtasks.filter(st => st.status === 'failed' || st.status === 'cancelled').map(st => st.id);
+    if (failedIds.length === 0) return;
+
+    // 沿依赖关系传播不可达状态
+    const unreachable = new Set(failedIds);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const subtask of task.subtasks) {
+        if (unreachable.has(subtask.id) || subtask.status === 'completed') continue;
+        if (subtask.dependencies.some(dep => unreachable.has(dep))) {
+          unreachable.add(subtask.id);
+          changed = true;
+        }
+      }
+    }
+
+    const blocked = this.taskQueue.filter(item =>
+      item.taskId === taskId && unreachable.has(item.subTaskId) && !failedIds.includes(item.subTaskId)
+    );
+    if (blocked.length === 0) return;
+
+    const blockedIds = blocked.map(item => item.subTaskId);
+    this.taskQueue = this.taskQueue.filter(item => !blocked.includes(item));
+    this.persistQueue();
+
+    console.warn(`[TaskScheduler] Dependency deadlock in ${taskId}: ${blockedIds.length} subtasks blocked by failed ${failedIds.join(', ')}`);
+
+    this.emit('event', {
+      type: 'dependency_deadlock',
+      taskId,
+      subTaskId: failedIds[0],
+      data: {
+        failedSubTaskIds: failedIds,
+        blockedSubTaskIds: blockedIds,
+        blocked: blockedIds.map(id => ({ id, title: task.subtasks.find(st => st.id === id)?.title }))
+      },
+      timestamp: Date.now()
+    } as SchedulerEvent);
+  }
+
+  /**
+   * 审批关卡：需要审批的子任务在依赖完成后进入 awaiting_approval，审批通过前不派发
+   */
+  private passesApprovalGate(item: QueueItem): boolean {
+    const subtask = masterAgent.getTaskStatus(item.taskId)?.subtasks.find(st => st.id === item.subTaskId);
+    if (!subtask?.requiresApproval || subtask.approval?.decision === 'approved') return true;
+    if (subtask.status === 'awaiting_approval') return false;
+
+    masterAgent.requestApproval(item.taskId, item.subTaskId);
+    console.log(`[TaskScheduler] Subtask ${item.taskId}-${item.subTaskId} awaiting approval`);
+
+    this.emit('event', {
+      type: 'approval_required',
+      taskId: item.taskId,
+      subTaskId: item.subTaskId,
+      agentId: item.agentId,
+      data: { title: subtask.title, description: subtask.description },
+      timestamp: Date.now()
+    } as SchedulerEvent);
+
+    return false;
+  }
+
   /**
    * 执行单个任务
    */
@@ -245,13 +383,14 @@ export class TaskScheduler extends EventEmitter {
     const abortController = new AbortController();
 
     // 记录运行中的任务
-    this.runningTasks.set(taskKey, {
+    const runningTask: RunningTask = {
       taskId,
       subTaskId,
       agentId,
       startTime: Date.now(),
       abortController
-    });
+    };
+    this.runningTasks.set(taskKey, runningTask);
 
     // 更新Agent状态
     const subAgent = masterAgent.getSubAgent(agentId);
@@ -267,25 +406,49 @@ export class TaskScheduler extends EventEmitter {
       timestamp: Date.now()
     } as SchedulerEvent);
 
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+
     try {
-      // 设置超时
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => {
+      // 设置超时：到时中止进行中的生成
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timeoutTimer = setTimeout(() => {
+          runningTask.stopReason = 'timeout';
+          abortController.abort();
+          this.emit('event', {
+            type: 'task_timeout',
+            taskId,
+            subTaskId,
+            agentId,
+            timestamp: Date.now()
+          } as SchedulerEvent);
           reject(new Error('Task timeout'));
         }, this.config.taskTimeoutMs);
       });
 
       // 执行任务
-      const taskPromise = this.runSubtask(taskId, subTaskId, agentId);
+      const taskPromise = this.runSubtask(taskId, subTaskId, agentId, abortController.signal);
 
       // 竞争执行
-      const result = await Promise.race([taskPromise, timeoutPromise]);
+      const { content: result, servedBy } = await Promise.race([taskPromise, timeoutPromise]);
+
+      // 中止时生成恰好结束，结果不再采用
+      if (runningTask.stopReason) {
+        this.handleTaskCancelled(runningTask);
+        return;
+      }
 
       // 任务完成
-      this.handleTaskComplete(taskId, subTaskId, agentId, result as string);
+      this.handleTaskComplete(taskId, subTaskId, agentId, result, servedBy);
 
     } catch (error) {
-      this.handleTaskError(taskId, subTaskId, agentId, error);
+      // 暂停、取消和超时都不算失败，不进入重试
+      if (runningTask.stopReason) {
+        this.handleTaskCancelled(runningTask);
+      } else {
+        this.handleTaskError(taskId, subTaskId, agentId, error);
+      }
+    } finally {
+      clearTimeout(timeoutTimer);
     }
   }
 
@@ -295,8 +458,9 @@ export class TaskScheduler extends EventEmitter {
   private async runSubtask(
     taskId: string,
     subTaskId: string,
-    agentId: string
-  ): Promise<string> {
+    agentId: string,
+    signal: AbortSignal
+  ): Promise<{ content: string; servedBy?: ServedModel }> {
     const task = masterAgent.getTaskStatus(taskId);
     const subtask = task?.subtasks.find(st => st.id === subTaskId);
     
@@ -304,24 +468,35 @@ export class TaskScheduler extends EventEmitter {
       throw new Error('Task or subtask not found');
     }
 
-    // 构建任务描述
-    const taskDescription = `[子任务] ${subtask.title}\n\n描述：${subtask.description}`;
+    // 构建任务消息（含附件和按预算压缩的前置任务结果），系统提示词由 Agent 自己的设定提供
+    const messages = await subtaskPrompt.build(task, subtask, agentId);
 
     // 通过AgentManager发送消息
-    const stream = await agentManager.sendMessage(agentId, taskDescription);
+    const stream = await agentManager.sendMessage(agentId, messages[messages.length - 1].content, {
+      taskId,
+      subTaskId,
+      role: 'execution'
+    }, signal);
     if (!stream) {
       throw new Error('Failed to start agent stream');
     }
 
-    // 收集响应
-    let result = '';
+    // 收集响应（结束分片带有实际应答的模型）
+    let content = '';
+    let servedBy: ServedModel | undefined;
     for await (const chunk of stream) {
       if (chunk.content) {
-        result += chunk.content;
+        content += chunk.content;
+      }
+      if (chunk.memories) {
+        subtask.recalledMemories = chunk.memories;
+      }
+      if (chunk.done) {
+        servedBy = chunk.servedBy;
       }
     }
 
-    return result;
+    return { content, servedBy };
   }
 
   /**
@@ -331,14 +506,15 @@ export class TaskScheduler extends EventEmitter {
     taskId: string,
     subTaskId: string,
     agentId: string,
-    result: string
+    result: string,
+    servedBy?: ServedModel
   ): void {
     const taskKey = `${taskId}-${subTaskId}`;
     this.runningTasks.delete(taskKey);
     this.taskRetryCount.delete(taskKey);
 
     // 更新子任务结果
-    masterAgent.updateSubtaskResult(taskId, subTaskId, result, true);
+    masterAgent.updateSubtaskResult(taskId, subTaskId, result, true, servedBy);
 
     // 更新Agent状态
     const subAgent = masterAgent.getSubAgent(agentId);
@@ -348,12 +524,20 @@ export class TaskScheduler extends EventEmitter {
       subAgent.completedTasks++;
     }
 
+    // 从子任务结果中提取记忆（未开启时忽略）
+    const subtask = masterAgent.getTaskStatus(taskId)?.subtasks.find(st => st.id === subTaskId);
+    if (subtask) {
+      memoryExtractor.extractFromSubtask(agentId, subtask, taskId).catch(error =>
+        console.error(`[TaskScheduler] Failed to extract memories from ${subTaskId}:`, error)
+      );
+    }
+
     this.emit('event', {
       type: 'task_completed',
       taskId,
       subTaskId,
       agentId,
-      data: { resultLength: result.length },
+      data: { resultLength: result.length, servedBy },
       timestamp: Date.now()
     } as SchedulerEvent);
 
@@ -361,6 +545,49 @@ export class TaskScheduler extends EventEmitter {
     this.processQueue();
   }
 
+  /**
+   * 处理被中止的子任务：暂停时已重新入队，取消时由 MasterAgent 标记为 cancelled，超时的子任务在这里标记为 cancelled
+   */
+  private handleTaskCancelled(runningTask: RunningTask): void {
+    const { taskId, subTaskId, agentId, stopReason } = runningTask;
+    const taskKey = `${taskId}-${subTaskId}`;
+
+    // 暂停后可能已重新派发，只清理本次运行
+    if (this.runningTasks.get(taskKey) === runningTask) {
+      this.runningTasks.delete(taskKey);
+    }
+    this.taskRetryCount.delete(taskKey);
+
+    const subAgent = masterAgent.getSubAgent(agentId);
+    if (subAgent) {
+      subAgent.status = 'idle';
+      subAgent.currentTaskId = undefined;
+    }
+
+    if (stopReason === 'timeout') {
+      masterAgent.cancelSubtask(taskId, subTaskId, `Task timeout after ${Math.round(this.config.taskTimeoutMs / 1000)}s`);
+    }
+
+    console.log(`[TaskScheduler] Task ${stopReason}: ${taskKey}`);
+
+    this.emit('event', {
+      type: 'task_cancelled',
+      taskId,
+      subTaskId,
+      agentId,
+      data: { reason: stopReason },
+      timestamp: Date.now()
+    } as SchedulerEvent);
+
+    // 暂停的任务等待恢复，不需要继续派发
+    if (stopReason === 'paused') return;
+
+    if (stopReason === 'timeout') {
+      this.detectDeadlock(taskId);
+    }
+    this.processQueue();
+  }
+
   /**
    * 处理任务错误
    */
@@ -375,14 +602,14 @@ export class TaskScheduler extends EventEmitter {
 
     console.error(`[TaskScheduler] Task failed: ${taskKey}`, error);
 
-    // 检查是否需要重试
-    if (retryCount < this.config.retryAttempts) {
+    // 检查是否需要重试（供应商错误已由适配器按类型重试过，不再重复重试）
+    if (!(error instanceof ProviderError) && retryCount < this.config.retryAttempts) {
       this.taskRetryCount.set(taskKey, retryCount + 1);
       
       // 延迟后重新入队
       setTimeout(() => {
         const task = masterAgent.getTaskStatus(taskId);
-        if (task) {
+        if (task && task.status !== 'cancelled') {
           const subtask = task.subtasks.find(st => st.id === subTaskId);
           if (subtask) {
             this.insertByPriority({
@@ -421,10 +648,12 @@ export class TaskScheduler extends EventEmitter {
       taskId,
       subTaskId,
       agentId,
-      data: { error: errorMessage },
+      data: { error: errorMessage, errorKind: error instanceof ProviderError ? error.kind : undefined },
       timestamp: Date.now()
     } as SchedulerEvent);
 
+    this.detectDeadlock(taskId);
+
     // 继续处理队列
     this.processQueue();
   }
@@ -432,12 +661,15 @@ export class TaskScheduler extends EventEmitter {
   // ========== 控制方法 ==========
 
   /**
-   * 暂停任务
+   * 暂停任务：中止进行中的生成并重新入队，恢复前不再派发该任务的子任务
    */
   pauseTask(taskId: string): boolean {
+    this.pausedTasks.add(taskId);
+
     // 将任务从运行中移到队列前端
     for (const [key, runningTask] of this.runningTasks) {
       if (runningTask.taskId === taskId) {
+        runningTask.stopReason = 'paused';
         runningTask.abortController.abort();
         this.runningTasks.delete(key);
 
@@ -460,24 +692,137 @@ export class TaskScheduler extends EventEmitter {
     return true;
   }
 
+  /**
+   * 恢复暂停的任务，返回任务是否处于暂停状态
+   */
+  resumeTask(taskId: string): boolean {
+    if (!this.pausedTasks.delete(taskId)) return false;
+
+    this.processQueue();
+    return true;
+  }
+
+  /**
+   * 判断任务是否已暂停
+   */
+  isPaused(taskId: string): boolean {
+    return this.pausedTasks.has(taskId);
+  }
+
   /**
    * 取消任务
    */
   cancelTask(taskId: string): boolean {
-    // 中止所有相关运行中的任务
+    this.pausedTasks.delete(taskId);
+
+    // 中止所有相关运行中的任务（立即停止进行中的生成）
     for (const [key, runningTask] of this.runningTasks) {
       if (runningTask.taskId === taskId) {
+        runningTask.stopReason = 'cancelled';
         runningTask.abortController.abort();
         this.runningTasks.delete(key);
       }
     }
 
     // 从队列中移除
+    const removed = this.taskQueue.filter(item => item.taskId === taskId);
     this.taskQueue = this.taskQueue.filter(item => item.taskId !== taskId);
+    this.persistQueue();
+
+    masterAgent.cancelTask(taskId);
+
+    // 运行中的子任务在中止完成后推送 task_cancelled，这里只通知排队中的
+    for (const item of removed) {
+      this.emit('event', {
+        type: 'task_cancelled',
+        taskId,
+        subTaskId: item.subTaskId,
+        agentId: item.agentId,
+        data: { reason: 'cancelled' },
+        timestamp: Date.now()
+      } as SchedulerEvent);
+    }
 
     return true;
   }
 
+  /**
+   * 处理子任务审批（放行 / 修改 / 拒绝）
+   */
+  resolveApproval(
+    taskId: string,
+    subTaskId: string,
+    decision: ApprovalDecision,
+    decidedBy: string,
+    edits: { title?: string; description?: string; notes?: string } = {}
+  ): SubTask | null {
+    const subtask = masterAgent.resolveApproval(taskId, subTaskId, decision, decidedBy, edits);
+    if (!subtask) return null;
+
+    if (decision === 'reject') {
+      this.taskQueue = this.taskQueue.filter(item => !(item.taskId === taskId && item.subTaskId === subTaskId));
+      this.persistQueue();
+    }
+
+    this.emit('event', {
+      type: 'approval_resolved',
+      taskId,
+      subTaskId,
+      agentId: subtask.assignedAgentId,
+      data: { decision, decidedBy, status: subtask.status },
+      timestamp: Date.now()
+    } as SchedulerEvent);
+
+    if (decision === 'reject') {
+      this.detectDeadlock(taskId);
+    }
+
+    this.processQueue();
+    return subtask;
+  }
+
+  /**
+   * 重新入队子任务（依赖失败后人工重试），失败的子任务会重置为 pending
+   */
+  requeueSubtasks(taskId: string, subTaskIds: string[]): number {
+    const task = masterAgent.getTaskStatus(taskId);
+    if (!task) return 0;
+
+    const isScheduled = (subTaskId: string) =>
+      this.taskQueue.some(q => q.taskId === taskId && q.subTaskId === subTaskId) ||
+      this.runningTasks.has(`${taskId}-${subTaskId}`);
+
+    let requeued = 0;
+    for (const subTaskId of subTaskIds) {
+      const subtask = task.subtasks.find(st => st.id === subTaskId);
+      if (!subtask || subtask.status === 'completed' || isScheduled(subTaskId)) continue;
+
+      masterAgent.resetSubtask(taskId, subTaskId);
+      const agentId = subtask.assignedAgentId && masterAgent.getSubAgent(subtask.assignedAgentId)
+        ? subtask.assignedAgentId
+        : this.findBestAgent(subtask, masterAgent.getAllSubAgents());
+
+      this.insertByPriority({
+        taskId,
+        subTaskId,
+        priority: this.calculatePriority(subtask),
+        agentId,
+        enqueueTime: Date.now()
+      });
+      requeued++;
+    }
+
+    this.processQueue();
+    return requeued;
+  }
+
+  /**
+   * 重新触发派发（例如追加预算后）
+   */
+  triggerDispatch(): void {
+    this.processQueue();
+  }
+
   /**
    * 获取队列状态
    */
@@ -513,11 +858,61 @@ export class TaskScheduler extends EventEmitter {
   clearQueue(): void {
     // 中止所有运行中的任务
     for (const [, runningTask] of this.runningTasks) {
+      runningTask.stopReason = 'cancelled';
       runningTask.abortController.abort();
     }
     this.runningTasks.clear();
     this.taskQueue = [];
     this.taskRetryCount.clear();
+    this.pausedTasks.clear();
+    this.persistQueue();
+  }
+
+  /**
+   * 从持久化存储恢复队列
+   * 重启前处于运行中的子任务会被重新入队
+   */
+  async restore(subAgents: SubAgentInfo[]): Promise<void> {
+    const snapshots = await taskStore.load<QueueItem[]>('queue');
+    const savedItems = snapshots.flat();
+
+    for (const item of savedItems) {
+      if (masterAgent.getTaskStatus(item.taskId)) {
+        this.taskQueue.push(item);
+      }
+    }
+
+    const isQueued = (taskId: string, subTaskId: string) =>
+      this.taskQueue.some(q => q.taskId === taskId && q.subTaskId === subTaskId);
+
+    let requeued = 0;
+    for (const task of masterAgent.getAllTasks()) {
+      if (task.status !== 'running') continue;
+
+      for (const subtask of task.subtasks) {
+        if (subtask.status !== 'running' || isQueued(task.taskId, subtask.id)) continue;
+
+        // 重启打断了执行，重新入队
+        const agentId = subtask.assignedAgentId && masterAgent.getSubAgent(subtask.assignedAgentId)
+          ? subtask.assignedAgentId
+          : this.findBestAgent(subtask, subAgents);
+
+        this.taskQueue.push({
+          taskId: task.taskId,
+          subTaskId: subtask.id,
+          priority: this.calculatePriority(subtask),
+          agentId,
+          enqueueTime: Date.now()
+        });
+        requeued++;
+      }
+    }
+
+    this.taskQueue.sort((a, b) => a.priority - b.priority);
+    this.persistQueue();
+
+    console.log(`[TaskScheduler] Restored ${this.taskQueue.length} queued subtasks (${requeued} re-queued after restart)`);
+    this.processQueue();
   }
 
   /**
@@ -528,5 +923,5 @@ export class TaskScheduler extends EventEmitter {
   }
 }
 
-// 导出单例
-export const taskScheduler = new TaskScheduler();
+// 导出单例（按工作区隔离）
+export const taskScheduler = workspaceScoped('taskScheduler', () => new TaskScheduler());
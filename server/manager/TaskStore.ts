@@ -0,0 +1,186 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { workspaceScoped, workspaceDataDir, currentWorkspaceId, DEFAULT_WORKSPACE_ID } from './WorkspaceContext.js';
+
+// 持久化的数据集合
+export type StoreCollection =
+  | 'tasks'              // MasterAgent 任务结果
+  | 'analyses'           // 任务分析结果
+  | 'subAgents'          // 子Agent信息
+  | 'queue'              // 调度器队列
+  | 'exceptions'         // 异常记录
+  | 'sessions'           // 协作会话
+  | 'aggregatedResults'  // 聚合结果
+  | 'usage'              // Token 用量记录（按任务分组）
+  | 'budgets';           // 任务预算与全局预算
+
+// 存储后端接口（可替换为数据库等实现）
+export interface TaskStoreBackend {
+  readonly name: string;
+  loadAll<T>(collection: StoreCollection): Promise<T[]>;
+  save(collection: StoreCollection, id: string, record: unknown): Promise<void>;
+  remove(collection: StoreCollection, id: string): Promise<void>;
+}
+
+/**
+ * JSON 文件存储后端
+ * 每条记录一个文件：data/tasks/<collection>/<id>.json
+ */
+export class JsonFileBackend implements TaskStoreBackend {
+  readonly name = 'json';
+  private basePath: string;
+  // 同一文件的写入串行执行，避免并发写入导致顺序错乱
+  private writeChains: Map<string, Promise<void>> = new Map();
+
+  constructor(basePath: string = path.join(process.cwd(), 'data', 'tasks')) {
+    this.basePath = basePath;
+  }
+
+  private getCollectionDir(collection: StoreCollection): string {
+    return path.join(this.basePath, collection);
+  }
+
+  private getFilePath(collection: StoreCollection, id: string): string {
+    return path.join(this.getCollectionDir(collection), `${encodeURIComponent(id)}.json`);
+  }
+
+  async loadAll<T>(collection: StoreCollection): Promise<T[]> {
+    const dir = this.getCollectionDir(collection);
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch {
+      return [];
+    }
+
+    const records: T[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const content = await fs.readFile(path.join(dir, file), 'utf-8');
+        records.push(JSON.parse(content) as T);
+      } catch (error) {
+        console.error(`[TaskStore] Failed to load ${collection}/${file}:`, error);
+      }
+    }
+    return records;
+  }
+
+  save(collection: StoreCollection, id: string, record: unknown): Promise<void> {
+    const filePath = this.getFilePath(collection, id);
+    // 立即序列化，保存调用时刻的快照
+    const content = JSON.stringify(record, null, 2);
+
+    return this.enqueueWrite(filePath, async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await fs.writeFile(tmpPath, content, 'utf-8');
+      await fs.rename(tmpPath, filePath);
+    });
+  }
+
+  remove(collection: StoreCollection, id: string): Promise<void> {
+    const filePath = this.getFilePath(collection, id);
+    return this.enqueueWrite(filePath, () => fs.rm(filePath, { force: true }));
+  }
+
+  private enqueueWrite(filePath: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.writeChains.get(filePath) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(write);
+    this.writeChains.set(filePath, next);
+
+    return next.finally(() => {
+      if (this.writeChains.get(filePath) === next) {
+        this.writeChains.delete(filePath);
+      }
+    });
+  }
+}
+
+/**
+ * 内存存储后端（不落盘，用于关闭持久化或测试）
+ */
+export class MemoryBackend implements TaskStoreBackend {
+  readonly name = 'memory';
+  private data: Map<StoreCollection, Map<string, string>> = new Map();
+
+  async loadAll<T>(collection: StoreCollection): Promise<T[]> {
+    const records = this.data.get(collection);
+    if (!records) return [];
+    return Array.from(records.values()).map(content => JSON.parse(content) as T);
+  }
+
+  async save(collection: StoreCollection, id: string, record: unknown): Promise<void> {
+    if (!this.data.has(collection)) {
+      this.data.set(collection, new Map());
+    }
+    this.data.get(collection)!.set(id, JSON.stringify(record));
+  }
+
+  async remove(collection: StoreCollection, id: string): Promise<void> {
+    this.data.get(collection)?.delete(id);
+  }
+}
+
+export class TaskStore {
+  private backend: TaskStoreBackend;
+
+  constructor(backend: TaskStoreBackend) {
+    this.backend = backend;
+  }
+
+  /**
+   * 替换存储后端
+   */
+  setBackend(backend: TaskStoreBackend): void {
+    this.backend = backend;
+  }
+
+  getBackendName(): string {
+    return this.backend.name;
+  }
+
+  /**
+   * 保存记录（异步落盘，失败只记录日志，不影响调用方）
+   */
+  persist(collection: StoreCollection, id: string, record: unknown): void {
+    this.backend.save(collection, id, record).catch(error => {
+      console.error(`[TaskStore] Failed to persist ${collection}/${id}:`, error);
+    });
+  }
+
+  /**
+   * 删除记录
+   */
+  delete(collection: StoreCollection, id: string): void {
+    this.backend.remove(collection, id).catch(error => {
+      console.error(`[TaskStore] Failed to delete ${collection}/${id}:`, error);
+    });
+  }
+
+  /**
+   * 加载集合中的所有记录
+   */
+  async load<T>(collection: StoreCollection): Promise<T[]> {
+    try {
+      return await this.backend.loadAll<T>(collection);
+    } catch (error) {
+      console.error(`[TaskStore] Failed to load ${collection}:`, error);
+      return [];
+    }
+  }
+}
+
+// 根据环境变量选择当前工作区的后端（TASK_STORE_PATH 只作用于默认工作区，其余工作区写入各自的 tasks/ 目录）
+function createDefaultBackend(): TaskStoreBackend {
+  switch (process.env.TASK_STORE) {
+    case 'memory':
+      return new MemoryBackend();
+    default:
+      return new JsonFileBackend(currentWorkspaceId() === DEFAULT_WORKSPACE_ID
+        ? process.env.TASK_STORE_PATH || undefined
+        : path.join(workspaceDataDir(), 'tasks'));
+  }
+}
+
+// 导出单例（按工作区隔离）
+export const taskStore = workspaceScoped('taskStore', () => new TaskStore(createDefaultBackend()));
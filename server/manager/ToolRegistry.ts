@@ -0,0 +1,130 @@
+import type { ToolCall, ToolDefinition } from '../types.js';
+import { agentFileManager } from './AgentFileManager.js';
+
+// 工具执行上下文
+export interface ToolContext {
+  agentId: string;
+}
+
+// 服务端工具
+export interface ServerTool {
+  definition: ToolDefinition;
+  handler: (args: Record<string, unknown>, context: ToolContext) => Promise<unknown> | unknown;
+}
+
+// 工具执行结果
+export interface ToolExecutionResult {
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError: boolean;
+}
+
+// 内置工具
+const BUILTIN_TOOLS: ServerTool[] = [
+  {
+    definition: {
+      name: 'get_current_time',
+      description: '获取服务器当前时间（ISO 8601 格式及时间戳）',
+      parameters: { type: 'object', properties: {} }
+    },
+    handler: () => {
+      const now = new Date();
+      return { iso: now.toISOString(), timestamp: now.getTime() };
+    }
+  },
+  {
+    definition: {
+      name: 'add_memory',
+      description: '将一条需要长期记住的信息写入当前 Agent 的记忆文件',
+      parameters: {
+        type: 'object',
+        properties: {
+          memory: { type: 'string', description: '要记住的内容' }
+        },
+        required: ['memory']
+      }
+    },
+    handler: async (args, context) => {
+      const memory = typeof args.memory === 'string' ? args.memory.trim() : '';
+      if (!memory) {
+        throw new Error('memory 不能为空');
+      }
+      const updated = await agentFileManager.addMemory(context.agentId, memory, { source: 'tool' });
+      if (!updated) {
+        throw new Error('记忆文件不存在');
+      }
+      return { saved: true, total: updated.memories.length };
+    }
+  },
+  {
+    definition: {
+      name: 'read_memory',
+      description: '读取当前 Agent 记忆文件中保存的全部记忆',
+      parameters: { type: 'object', properties: {} }
+    },
+    handler: async (_args, context) => {
+      const memory = await agentFileManager.readMemoryFile(context.agentId);
+      return { memories: memory?.memories.map(entry => entry.content) || [] };
+    }
+  }
+];
+
+export class ToolRegistry {
+  private tools: Map<string, ServerTool> = new Map();
+
+  constructor() {
+    BUILTIN_TOOLS.forEach(tool => this.register(tool));
+  }
+
+  /**
+   * 注册工具（同名覆盖）
+   */
+  register(tool: ServerTool): void {
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  /**
+   * 注销工具
+   */
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  /**
+   * 获取所有工具定义（传给模型）
+   */
+  getDefinitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+
+  /**
+   * 执行一次工具调用，错误作为结果返回给模型而不是抛出
+   */
+  async execute(call: ToolCall, context: ToolContext): Promise<ToolExecutionResult> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return { toolCallId: call.id, name: call.name, content: `未知工具: ${call.name}`, isError: true };
+    }
+
+    try {
+      const output = await tool.handler(call.arguments, context);
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: typeof output === 'string' ? output : JSON.stringify(output),
+        isError: false
+      };
+    } catch (error) {
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: `工具执行失败: ${error instanceof Error ? error.message : String(error)}`,
+        isError: true
+      };
+    }
+  }
+}
+
+// 导出单例
+export const toolRegistry = new ToolRegistry();
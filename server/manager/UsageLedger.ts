@@ -0,0 +1,281 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import type { BaseAdapter } from '../adapters/BaseAdapter.js';
+import type { TokenUsage, ServedModel } from '../types.js';
+import { taskStore } from './TaskStore.js';
+import { workspaceScoped } from './WorkspaceContext.js';
+
+// ========== 类型定义 ==========
+
+// 用量归属
+export interface UsageContext {
+  agentId?: string;
+  taskId?: string;
+  subTaskId?: string;
+  role?: string;      // analysis / execution / aggregation / summary / agent / memory
+}
+
+// 单次调用的用量记录
+export interface UsageEntry extends UsageContext {
+  id: string;
+  timestamp: number;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  fallbackFrom?: string;  // 备用模型应答时记录配置的主模型
+}
+
+// 汇总
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+// 模型价格（每百万 Token）
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+export interface UsageSummary {
+  currency: string;
+  total: UsageTotals;
+  byAgent: Record<string, UsageTotals>;
+  byTask: Record<string, UsageTotals>;
+  bySubtask: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+// 用量事件
+export interface UsageEvent {
+  type: 'usage_recorded';
+  taskId?: string;
+  data: {
+    entry: UsageEntry;
+    taskTotals?: UsageTotals;
+    total: UsageTotals;
+  };
+  timestamp: number;
+}
+
+// 账本配置
+export interface LedgerConfig {
+  currency: string;
+  prices: Record<string, ModelPrice>;   // key 为模型名
+  maxAdhocEntries: number;              // 不属于任务的记录最多保留条数
+}
+
+// 默认价格表（美元 / 百万 Token，可通过 /api/usage/prices 修改）
+const DEFAULT_CONFIG: LedgerConfig = {
+  currency: 'USD',
+  prices: {
+    'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+    'gpt-4o': { prompt: 2.5, completion: 10 },
+    'deepseek-chat': { prompt: 0.27, completion: 1.1 },
+    'deepseek-ai/DeepSeek-V3': { prompt: 0.27, completion: 1.1 },
+    'claude-3-5-sonnet-20241022': { prompt: 3, completion: 15 },
+    'MiniMax-M2.5': { prompt: 0.3, completion: 1.2 },
+    'llama3.2': { prompt: 0, completion: 0 },
+    'mock-model': { prompt: 0, completion: 0 }
+  },
+  maxAdhocEntries: 1000
+};
+
+// 不属于任何任务的记录分组
+const ADHOC_BUCKET = 'adhoc';
+
+// ========== UsageLedger 类 ==========
+
+export class UsageLedger extends EventEmitter {
+  private config: LedgerConfig;
+  private buckets: Map<string, UsageEntry[]> = new Map(); // key: taskId | adhoc
+
+  constructor(config: Partial<LedgerConfig> = {}) {
+    super();
+    this.config = { ...DEFAULT_CONFIG, ...config, prices: { ...DEFAULT_CONFIG.prices, ...config.prices } };
+  }
+
+  // ========== 记录 ==========
+
+  /**
+   * 记录一次模型调用的用量（适配器未返回用量时忽略）
+   */
+  record(
+    adapter: BaseAdapter,
+    usage: TokenUsage | undefined,
+    context: UsageContext = {},
+    servedBy?: ServedModel
+  ): UsageEntry | null {
+    if (!usage) return null;
+
+    // 备用模型链按实际应答的模型计费
+    const configured = adapter.getModelInfo();
+    const { provider, model } = servedBy || configured;
+    const entry: UsageEntry = {
+      id: randomUUID(),
+      timestamp: Date.now(),
+      provider,
+      model,
+      ...context,
+      promptTokens: usage.promptTokens || 0,
+      completionTokens: usage.completionTokens || 0,
+      totalTokens: usage.totalTokens || (usage.promptTokens || 0) + (usage.completionTokens || 0),
+      cost: this.calculateCost(model, usage),
+      fallbackFrom: servedBy && servedBy.fallbackIndex > 0 ? configured.model : undefined
+    };
+
+    const bucketKey = context.taskId || ADHOC_BUCKET;
+    const bucket = this.buckets.get(bucketKey) || [];
+    bucket.push(entry);
+    if (bucketKey === ADHOC_BUCKET && bucket.length > this.config.maxAdhocEntries) {
+      bucket.splice(0, bucket.length - this.config.maxAdhocEntries);
+    }
+    this.buckets.set(bucketKey, bucket);
+    taskStore.persist('usage', bucketKey, bucket);
+
+    this.emitEvent({
+      type: 'usage_recorded',
+      taskId: context.taskId,
+      data: {
+        entry,
+        taskTotals: context.taskId ? this.sum(bucket) : undefined,
+        total: this.sum(this.getAllEntries())
+      },
+      timestamp: Date.now()
+    });
+
+    return entry;
+  }
+
+  /**
+   * 计算费用
+   */
+  calculateCost(model: string, usage: TokenUsage): number {
+    const price = this.config.prices[model];
+    if (!price) return 0;
+    return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+  }
+
+  // ========== 查询 ==========
+
+  /**
+   * 全局汇总（按 Agent / 任务 / 子任务 / 模型）
+   */
+  getSummary(): UsageSummary {
+    const entries = this.getAllEntries();
+    return {
+      currency: this.config.currency,
+      total: this.sum(entries),
+      byAgent: this.groupBy(entries, entry => entry.agentId),
+      byTask: this.groupBy(entries, entry => entry.taskId),
+      bySubtask: this.groupBy(entries, entry => entry.subTaskId),
+      byModel: this.groupBy(entries, entry => entry.model)
+    };
+  }
+
+  /**
+   * 单个任务的汇总
+   */
+  getTaskUsage(taskId: string): Omit<UsageSummary, 'byTask'> {
+    const entries = this.buckets.get(taskId) || [];
+    return {
+      currency: this.config.currency,
+      total: this.sum(entries),
+      byAgent: this.groupBy(entries, entry => entry.agentId),
+      bySubtask: this.groupBy(entries, entry => entry.subTaskId),
+      byModel: this.groupBy(entries, entry => entry.model)
+    };
+  }
+
+  /**
+   * 单个任务的总用量
+   */
+  getTaskTotals(taskId: string): UsageTotals {
+    return this.sum(this.buckets.get(taskId) || []);
+  }
+
+  /**
+   * 某个时间点之后的总用量
+   */
+  getTotalsSince(timestamp: number): UsageTotals {
+    return this.sum(this.getAllEntries().filter(entry => entry.timestamp >= timestamp));
+  }
+
+  /**
+   * 获取用量明细
+   */
+  getEntries(taskId?: string): UsageEntry[] {
+    return taskId ? [...(this.buckets.get(taskId) || [])] : this.getAllEntries();
+  }
+
+  // ========== 配置 ==========
+
+  getConfig(): LedgerConfig {
+    return { ...this.config, prices: { ...this.config.prices } };
+  }
+
+  /**
+   * 更新配置（价格表按模型合并）
+   */
+  updateConfig(config: Partial<LedgerConfig>): void {
+    this.config = {
+      ...this.config,
+      ...config,
+      prices: { ...this.config.prices, ...config.prices }
+    };
+  }
+
+  // ========== 持久化 ==========
+
+  /**
+   * 从持久化存储恢复用量记录
+   */
+  async restore(): Promise<void> {
+    const buckets = await taskStore.load<UsageEntry[]>('usage');
+    for (const bucket of buckets) {
+      if (bucket.length === 0) continue;
+      this.buckets.set(bucket[0].taskId || ADHOC_BUCKET, bucket);
+    }
+  }
+
+  // ========== 工具方法 ==========
+
+  private getAllEntries(): UsageEntry[] {
+    return Array.from(this.buckets.values()).flat();
+  }
+
+  private sum(entries: UsageEntry[]): UsageTotals {
+    return entries.reduce<UsageTotals>((totals, entry) => ({
+      calls: totals.calls + 1,
+      promptTokens: totals.promptTokens + entry.promptTokens,
+      completionTokens: totals.completionTokens + entry.completionTokens,
+      totalTokens: totals.totalTokens + entry.totalTokens,
+      cost: totals.cost + entry.cost
+    }), { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 });
+  }
+
+  private groupBy(entries: UsageEntry[], keyOf: (entry: UsageEntry) => string | undefined): Record<string, UsageTotals> {
+    const groups = new Map<string, UsageEntry[]>();
+    for (const entry of entries) {
+      const key = keyOf(entry);
+      if (!key) continue;
+      const group = groups.get(key) || [];
+      group.push(entry);
+      groups.set(key, group);
+    }
+    return Object.fromEntries(Array.from(groups, ([key, group]) => [key, this.sum(group)]));
+  }
+
+  private emitEvent(event: UsageEvent): void {
+    this.emit('event', event);
+  }
+}
+
+// 导出单例（按工作区隔离）
+export const usageLedger = workspaceScoped('usageLedger', () => new UsageLedger());
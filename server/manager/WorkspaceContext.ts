@@ -0,0 +1,104 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import path from 'path';
+
+// ========== 工作区上下文 ==========
+// 每个工作区拥有独立的 Agent、任务、协作会话、异常和数据目录。
+// 各管理器模块导出的单例是按工作区解析的代理：调用时根据当前请求所在的工作区取对应的实例，
+// 因此管理器之间互相引用（如 MasterAgent 调用 agentManager）时自动落在同一个工作区。
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// 当前异步调用链所在的工作区（请求、SSE、WebSocket 和后台执行都从进入时的上下文继承）
+const storage = new AsyncLocalStorage<string>();
+
+// 按注册顺序排列的工厂，以及各个已激活工作区的实例
+const factories: Map<string, () => unknown> = new Map();
+const scopes: Map<string, Map<string, unknown>> = new Map();
+
+/**
+ * 当前工作区 ID（不在任何工作区上下文中时为默认工作区）
+ */
+export function currentWorkspaceId(): string {
+  return storage.getStore() ?? DEFAULT_WORKSPACE_ID;
+}
+
+/**
+ * 在指定工作区内执行，fn 及其发起的异步操作都解析到该工作区的实例
+ */
+export function runInWorkspace<T>(workspaceId: string, fn: () => T): T {
+  return storage.run(workspaceId, fn);
+}
+
+/**
+ * 工作区的数据目录：默认工作区沿用 data/，其余在 data/workspaces/<id>/ 下
+ */
+export function workspaceDataDir(workspaceId: string = currentWorkspaceId()): string {
+  const dataDir = path.join(process.cwd(), 'data');
+  return workspaceId === DEFAULT_WORKSPACE_ID ? dataDir : path.join(dataDir, 'workspaces', workspaceId);
+}
+
+/**
+ * 创建按工作区隔离的单例：返回的代理在每次访问时转发到当前工作区的实例
+ */
+export function workspaceScoped<T extends object>(key: string, create: () => T): T {
+  if (factories.has(key)) {
+    throw new Error(`Workspace-scoped instance "${key}" is already registered`);
+  }
+  factories.set(key, create);
+
+  return new Proxy({} as T, {
+    get(_target, property) {
+      const instance = resolveInstance<T>(key);
+      const value = Reflect.get(instance, property, instance);
+      return typeof value === 'function' ? value.bind(instance) : value;
+    },
+    set(_target, property, value) {
+      return Reflect.set(resolveInstance<T>(key), property, value);
+    },
+    has(_target, property) {
+      return Reflect.has(resolveInstance<T>(key), property);
+    }
+  });
+}
+
+/**
+ * 激活工作区：按注册顺序创建全部实例（与模块加载时创建单例的顺序一致）
+ */
+export function activateScope(workspaceId: string): void {
+  if (scopes.has(workspaceId)) return;
+  scopes.set(workspaceId, new Map());
+  runInWorkspace(workspaceId, () => {
+    for (const key of factories.keys()) {
+      resolveInstance(key);
+    }
+  });
+}
+
+/**
+ * 停用工作区：丢弃实例，之后在该工作区上下文中的访问会抛错
+ */
+export function deactivateScope(workspaceId: string): void {
+  scopes.delete(workspaceId);
+}
+
+/**
+ * 工作区是否已激活
+ */
+export function isScopeActive(workspaceId: string): boolean {
+  return scopes.has(workspaceId);
+}
+
+// 取当前工作区的实例，不存在时创建（构造函数中引用的其他单例按需先行创建）
+function resolveInstance<T>(key: string): T {
+  const workspaceId = currentWorkspaceId();
+  const scope = scopes.get(workspaceId);
+  if (!scope) {
+    throw new Error(`Workspace "${workspaceId}" is not active`);
+  }
+
+  if (!scope.has(key)) {
+    const create = factories.get(key)!;
+    scope.set(key, create());
+  }
+  return scope.get(key) as T;
+}
@@ -0,0 +1,267 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  DEFAULT_WORKSPACE_ID,
+  activateScope,
+  deactivateScope,
+  runInWorkspace,
+  workspaceDataDir
+} from './WorkspaceContext.js';
+import { agentManager } from './AgentManager.js';
+import { agentFileManager } from './AgentFileManager.js';
+import { masterAgent } from './MasterAgent.js';
+import { taskScheduler } from './TaskScheduler.js';
+import { secretVault } from './SecretVault.js';
+
+// ========== 类型定义 ==========
+
+export interface WorkspaceInfo {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: number;
+  createdBy?: string;
+  clonedFrom?: string;
+}
+
+// 列表中附带的概况
+export interface WorkspaceSummary extends WorkspaceInfo {
+  agents: number;
+  tasks: number;
+  queued: number;
+  running: number;
+}
+
+export interface CreateWorkspaceOptions {
+  id?: string;
+  description?: string;
+  createdBy?: string;
+}
+
+interface WorkspaceFile {
+  workspaces: WorkspaceInfo[];
+}
+
+// 工作区激活后执行的初始化（如恢复持久化的任务状态），在该工作区上下文中运行
+type WorkspaceActivator = () => Promise<void>;
+
+// 工作区 ID：小写字母、数字和连字符（同时用作目录名）
+const WORKSPACE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+// ========== WorkspaceManager 类 ==========
+
+/**
+ * 工作区管理：创建、克隆、删除工作区，启动时激活所有工作区
+ * 工作区列表保存在 data/workspaces/workspaces.json，各工作区的数据在 data/workspaces/<id>/ 下（默认工作区沿用 data/）
+ */
+export class WorkspaceManager {
+  private filePath: string;
+  private workspaces: Map<string, WorkspaceInfo> = new Map();
+  private activators: WorkspaceActivator[] = [];
+
+  constructor(basePath: string = path.join(process.cwd(), 'data', 'workspaces')) {
+    this.filePath = path.join(basePath, 'workspaces.json');
+  }
+
+  /**
+   * 注册工作区初始化函数（对之后激活的工作区生效，需在 load 之前注册）
+   */
+  onActivate(activator: WorkspaceActivator): void {
+    this.activators.push(activator);
+  }
+
+  /**
+   * 加载工作区列表并激活所有工作区（默认工作区始终存在）
+   */
+  async load(): Promise<void> {
+    let saved: WorkspaceInfo[] = [];
+    try {
+      const file = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as WorkspaceFile;
+      saved = file.workspaces || [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    if (!saved.some(workspace => workspace.id === DEFAULT_WORKSPACE_ID)) {
+      saved.unshift({ id: DEFAULT_WORKSPACE_ID, name: '默认工作区', createdAt: Date.now() });
+    }
+
+    for (const workspace of saved) {
+      await this.activate(workspace);
+    }
+    console.log(`[WorkspaceManager] Activated ${this.workspaces.size} workspaces`);
+  }
+
+  has(id: string): boolean {
+    return this.workspaces.has(id);
+  }
+
+  get(id: string): WorkspaceInfo | undefined {
+    return this.workspaces.get(id);
+  }
+
+  /**
+   * 所有工作区及其 Agent、任务和队列概况
+   */
+  list(): WorkspaceSummary[] {
+    return Array.from(this.workspaces.values()).map(workspace => runInWorkspace(workspace.id, () => {
+      const queue = taskScheduler.getQueueStatus();
+      return {
+        ...workspace,
+        agents: agentManager.getAllAgents().length,
+        tasks: masterAgent.getAllTasks().length,
+        queued: queue.queued,
+        running: queue.running
+      };
+    }));
+  }
+
+  /**
+   * 创建工作区（包含默认 Agent）
+   */
+  async create(name: string, options: CreateWorkspaceOptions = {}): Promise<WorkspaceInfo> {
+    const workspace = this.prepare(name, options);
+    await fs.mkdir(workspaceDataDir(workspace.id), { recursive: true });
+    await this.activate(workspace);
+    await this.persist();
+    return workspace;
+  }
+
+  /**
+   * 克隆工作区：复制 Agent（模型配置、灵魂、技能和记忆文件），密钥复制为独立副本；任务、会话和总指挥子Agent不复制
+   */
+  async clone(sourceId: string, name: string, options: CreateWorkspaceOptions = {}): Promise<WorkspaceInfo> {
+    if (!this.workspaces.has(sourceId)) {
+      throw new WorkspaceError(`Workspace not found: ${sourceId}`, 404);
+    }
+
+    const workspace = this.prepare(name, options);
+    workspace.clonedFrom = sourceId;
+
+    const agents = runInWorkspace(sourceId, () =>
+      agentManager.getAllAgents().filter(agent => !masterAgent.getSubAgent(agent.id))
+    );
+    const sourceDir = path.join(workspaceDataDir(sourceId), 'agents');
+    const targetDir = path.join(workspaceDataDir(workspace.id), 'agents');
+
+    // 激活前复制文件，默认 Agent 检测到文件已存在时不会重新生成
+    await fs.mkdir(targetDir, { recursive: true });
+    for (const agent of agents) {
+      await copyAgentDir(sourceDir, targetDir, agent.id);
+    }
+    await this.activate(workspace);
+
+    await runInWorkspace(workspace.id, async () => {
+      for (const agent of agents) {
+        if (agentManager.getAgent(agent.id)) continue;
+
+        const modelConfig = await secretVault.copyModelConfig(agent.modelConfig, `agent:${agent.id}`);
+        await agentManager.createAgent(agent.name, modelConfig, agent.id);
+        // createAgent 会生成默认文件，用源工作区的文件覆盖，灵魂文件改为引用复制后的密钥
+        await copyAgentDir(sourceDir, targetDir, agent.id);
+        await agentFileManager.updateSoulFile(agent.id, { apiKeyRef: modelConfig.apiKeyRef });
+      }
+    });
+
+    await this.persist();
+    console.log(`[WorkspaceManager] Cloned workspace ${sourceId} -> ${workspace.id} (${agents.length} agents)`);
+    return workspace;
+  }
+
+  /**
+   * 删除工作区及其数据和 Agent 密钥（默认工作区不可删除，有排队或运行中的任务时拒绝）
+   */
+  async delete(id: string): Promise<boolean> {
+    if (id === DEFAULT_WORKSPACE_ID) {
+      throw new WorkspaceError('The default workspace cannot be deleted', 400);
+    }
+    if (!this.workspaces.has(id)) return false;
+
+    await runInWorkspace(id, async () => {
+      const queue = taskScheduler.getQueueStatus();
+      if (queue.queued > 0 || queue.running > 0) {
+        throw new WorkspaceError('Workspace has queued or running tasks, cancel them first', 409);
+      }
+      for (const agent of agentManager.getAllAgents()) {
+        await agentManager.removeAgent(agent.id);
+      }
+    });
+
+    this.workspaces.delete(id);
+    deactivateScope(id);
+    await this.persist();
+    await fs.rm(workspaceDataDir(id), { recursive: true, force: true });
+    console.log(`[WorkspaceManager] Deleted workspace ${id}`);
+    return true;
+  }
+
+  // ========== 私有方法 ==========
+
+  // 校验名称和 ID，生成工作区信息
+  private prepare(name: string, options: CreateWorkspaceOptions): WorkspaceInfo {
+    const id = options.id || `ws-${randomUUID().slice(0, 8)}`;
+    if (!WORKSPACE_ID_PATTERN.test(id)) {
+      throw new WorkspaceError('id must be 1-40 lowercase letters, digits or "-"', 400);
+    }
+    if (this.workspaces.has(id)) {
+      throw new WorkspaceError(`Workspace already exists: ${id}`, 409);
+    }
+    if (!name.trim()) {
+      throw new WorkspaceError('name must not be empty', 400);
+    }
+
+    return {
+      id,
+      name: name.trim(),
+      description: options.description,
+      createdAt: Date.now(),
+      createdBy: options.createdBy
+    };
+  }
+
+  // 创建工作区的实例，等待默认 Agent 就绪后执行初始化
+  private async activate(workspace: WorkspaceInfo): Promise<void> {
+    activateScope(workspace.id);
+    await runInWorkspace(workspace.id, async () => {
+      await agentManager.whenReady();
+      for (const activator of this.activators) {
+        await activator();
+      }
+    });
+    this.workspaces.set(workspace.id, workspace);
+  }
+
+  private async persist(): Promise<void> {
+    const file: WorkspaceFile = { workspaces: Array.from(this.workspaces.values()) };
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(file, null, 2), 'utf-8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+// 复制单个 Agent 的文件目录（源目录不存在时跳过）
+async function copyAgentDir(sourceDir: string, targetDir: string, agentId: string): Promise<void> {
+  try {
+    await fs.cp(path.join(sourceDir, agentId), path.join(targetDir, agentId), { recursive: true, force: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+}
+
+/**
+ * 工作区错误（status 为建议的 HTTP 状态码）
+ */
+export class WorkspaceError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'WorkspaceError';
+    this.status = status;
+  }
+}
+
+// 导出单例
+export const workspaceManager = new WorkspaceManager();
@@ -0,0 +1,150 @@
+import { FastifyInstance } from 'fastify';
+import { agentManager } from '../manager/AgentManager.js';
+import { agentFileManager, type VersionedFile } from '../manager/AgentFileManager.js';
+import { agentBundleManager, AgentBundleError, type ImportBundleOptions } from '../manager/AgentBundleManager.js';
+import { redactModelConfig } from '../manager/SecretVault.js';
+import { actorName } from './auth.js';
+
+const VERSIONED_FILES: VersionedFile[] = ['soul', 'skills'];
+
+export async function registerAgentBundleRoutes(fastify: FastifyInstance) {
+  // ========== 导入导出 ==========
+
+  /**
+   * GET /api/agents/:id/export
+   * 导出 Agent（灵魂、技能、记忆、不含密钥的模型配置和人设提示词）
+   */
+  fastify.get('/api/agents/:id/export', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const bundle = await agentBundleManager.export(id);
+
+    if (!bundle) {
+      reply.status(404);
+      return { error: 'Agent not found' };
+    }
+
+    reply.header('Content-Disposition', `attachment; filename="agent-${id}.json"`);
+    return bundle;
+  });
+
+  /**
+   * POST /api/agents/import
+   * 导入 Agent，请求体为 { bundle, id?, name?, onConflict?, apiKey? }
+   * ID 已存在时：onConflict 为 fail（默认）返回 409 和 suggestedId，rename 使用新 ID，replace 替换原 Agent
+   */
+  fastify.post('/api/agents/import', async (request, reply) => {
+    const { bundle, ...options } = (request.body || {}) as { bundle?: unknown } & ImportBundleOptions;
+
+    if (!bundle) {
+      reply.status(400);
+      return { error: 'Missing required field: bundle' };
+    }
+
+    try {
+      const result = await agentBundleManager.import(bundle, options);
+      const agent = agentManager.getAgent(result.agentId)!;
+      return {
+        success: true,
+        ...result,
+        agent: { ...agent, modelConfig: redactModelConfig(agent.modelConfig) }
+      };
+    } catch (error) {
+      reply.status(error instanceof AgentBundleError ? error.status : 500);
+      return {
+        error: error instanceof Error ? error.message : String(error),
+        suggestedId: error instanceof AgentBundleError ? error.suggestedId : undefined
+      };
+    }
+  });
+
+  // ========== 版本历史 ==========
+
+  // 灵魂文件和技能文件各有一组版本接口
+  for (const file of VERSIONED_FILES) {
+    /**
+     * GET /api/agents/:id/{soul,skills}/versions
+     * 历史版本列表（从旧到新）
+     */
+    fastify.get(`/api/agents/:id/${file}/versions`, async (request, reply) => {
+      const { id } = request.params as { id: string };
+
+      if (!agentManager.getAgent(id)) {
+        reply.status(404);
+        return { error: 'Agent not found' };
+      }
+
+      return { success: true, versions: await agentFileManager.listVersions(id, file) };
+    });
+
+    /**
+     * GET /api/agents/:id/{soul,skills}/versions/diff?from=&to=
+     * 比较两个版本（to 省略时与最新版本比较）
+     */
+    fastify.get(`/api/agents/:id/${file}/versions/diff`, async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const { from, to } = request.query as { from?: string; to?: string };
+
+      if (!agentManager.getAgent(id)) {
+        reply.status(404);
+        return { error: 'Agent not found' };
+      }
+      if (!from || isNaN(Number(from)) || (to !== undefined && isNaN(Number(to)))) {
+        reply.status(400);
+        return { error: 'Invalid query: from (and optional to) must be version numbers' };
+      }
+
+      const diff = await agentFileManager.diffVersions(id, file, Number(from), to === undefined ? undefined : Number(to));
+      if (!diff) {
+        reply.status(404);
+        return { error: 'Version not found' };
+      }
+
+      return {
+        success: true,
+        from: diff.from.version,
+        to: diff.to.version,
+        changes: diff.changes
+      };
+    });
+
+    /**
+     * GET /api/agents/:id/{soul,skills}/versions/:version
+     * 单个历史版本
+     */
+    fastify.get(`/api/agents/:id/${file}/versions/:version`, async (request, reply) => {
+      const { id, version } = request.params as { id: string; version: string };
+
+      const found = agentManager.getAgent(id) ? await agentFileManager.getVersion(id, file, Number(version)) : null;
+      if (!found) {
+        reply.status(404);
+        return { error: 'Version not found' };
+      }
+
+      return { success: true, version: found };
+    });
+
+    /**
+     * POST /api/agents/:id/{soul,skills}/versions/:version/rollback
+     * 回滚到指定版本（回滚记为新版本，可再次回滚）
+     */
+    fastify.post(`/api/agents/:id/${file}/versions/:version/rollback`, async (request, reply) => {
+      const { id, version } = request.params as { id: string; version: string };
+      const { author, note } = (request.body || {}) as { author?: string; note?: string };
+
+      if (!agentManager.getAgent(id)) {
+        reply.status(404);
+        return { error: 'Agent not found' };
+      }
+
+      const restored = await agentFileManager.rollback(id, file, Number(version), { author: actorName(request, author), note });
+      if (!restored) {
+        reply.status(404);
+        return { error: 'Version not found' };
+      }
+      await agentManager.loadProfile(id);
+
+      const versions = await agentFileManager.listVersions(id, file);
+      return { success: true, [file]: restored, version: versions[versions.length - 1]?.version };
+    });
+  }
+}
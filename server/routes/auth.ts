@@ -0,0 +1,259 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { authManager, AuthError, hasRole, isRole, type AuthPrincipal, type Role } from '../manager/AuthManager.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    auth: AuthPrincipal | null;
+  }
+}
+
+// ========== 访问策略 ==========
+
+// 无需登录的接口
+const PUBLIC_ROUTES = new Set([
+  'GET /api/health',
+  'POST /api/auth/login'
+]);
+
+// 需要 admin 的接口：配置、密钥、用户，以及会携带 API Key 或直接消耗额度的模型配置操作
+// 全局预算只能通过 POST /api/master/config 设置；异常处理中追加全局预算在路由内另行检查 admin
+const ADMIN_ROUTES = new Set([
+  'POST /api/master/config',
+  'GET /api/master/diagnose',
+  'POST /api/agents',
+  'POST /api/agents/import',
+  'DELETE /api/agents/:id',
+  'PUT /api/agents/:id/soul',
+  'POST /api/agents/:id/soul/versions/:version/rollback',
+  'POST /api/models/test',
+  'POST /api/models/discover',
+  'PUT /api/usage/prices',
+  'DELETE /api/workspaces/:id'
+]);
+const ADMIN_PREFIXES = ['/api/secrets', '/api/auth/users', '/api/auth/tokens'];
+
+// 登录用户管理自己会话的接口
+const SELF_ROUTES = new Set([
+  'GET /api/auth/me',
+  'POST /api/auth/logout',
+  'POST /api/auth/password'
+]);
+
+// 浏览器的 EventSource 和 WebSocket 无法设置请求头，这些接口允许通过 ?access_token= 传递令牌
+const QUERY_TOKEN_ROUTES = new Set(['/api/master/stream', '/api/stream/:agentId', '/ws/agent']);
+
+/**
+ * 接口所需角色（null 表示公开）：其余 GET 为 viewer，其余写操作为 operator
+ */
+export function requiredRole(method: string, routeUrl: string | undefined, path: string): Role | null {
+  // 前端静态文件、SPA 回退和 CORS 预检不需要登录
+  if (method === 'OPTIONS' || !/^\/(api|ws)(\/|$)/.test(path)) return null;
+
+  const key = `${method === 'HEAD' ? 'GET' : method} ${routeUrl ?? path}`;
+  if (PUBLIC_ROUTES.has(key)) return null;
+  if (SELF_ROUTES.has(key)) return 'viewer';
+  if (ADMIN_ROUTES.has(key) || ADMIN_PREFIXES.some(prefix => path.startsWith(prefix))) return 'admin';
+  return method === 'GET' || method === 'HEAD' ? 'viewer' : 'operator';
+}
+
+/**
+ * 读取请求中的令牌：Authorization: Bearer <token>，流式接口也接受 access_token 查询参数
+ */
+function extractToken(request: FastifyRequest): string | undefined {
+  const header = request.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice(7).trim();
+
+  if (request.routeOptions.url && QUERY_TOKEN_ROUTES.has(request.routeOptions.url)) {
+    const { access_token } = request.query as { access_token?: string };
+    return access_token;
+  }
+  return undefined;
+}
+
+/**
+ * 经过认证的操作人名称（认证关闭时使用请求中提供的名称）
+ */
+export function actorName(request: FastifyRequest, fallback?: string): string | undefined {
+  return request.auth && request.auth.kind !== 'anonymous' ? request.auth.name : fallback;
+}
+
+/**
+ * 当前请求的身份是否具有指定角色（用于按请求内容区分权限的接口，例如追加全局预算）
+ */
+export function requestHasRole(request: FastifyRequest, role: Role): boolean {
+  return !!request.auth && hasRole(request.auth.role, role);
+}
+
+// ========== 路由 ==========
+
+export async function registerAuthRoutes(fastify: FastifyInstance) {
+  // 所有 REST、SSE 和 WebSocket 请求在路由处理前检查身份和角色
+  fastify.decorateRequest('auth', null);
+  fastify.addHook('onRequest', async (request, reply) => {
+    const required = requiredRole(request.method, request.routeOptions.url, request.url.split('?')[0]);
+    if (!required) return;
+
+    const principal = authManager.authenticate(extractToken(request));
+    if (!principal) {
+      return reply.status(401).send({ error: 'Unauthorized', message: 'Login required' });
+    }
+    if (!hasRole(principal.role, required)) {
+      return reply.status(403).send({ error: 'Forbidden', message: `Requires ${required} role` });
+    }
+    request.auth = principal;
+  });
+
+  // ========== 登录 ==========
+
+  /**
+   * POST /api/auth/login
+   * 用户名密码登录，返回会话令牌
+   */
+  fastify.post('/api/auth/login', async (request, reply) => {
+    const { username, password } = (request.body || {}) as { username?: string; password?: string };
+
+    if (!username || !password) {
+      reply.status(400);
+      return { error: 'Missing required fields: username, password' };
+    }
+
+    try {
+      const session = await authManager.login(username, password);
+      return { success: true, ...session };
+    } catch (error) {
+      reply.status(error instanceof AuthError ? error.status : 500);
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  /**
+   * POST /api/auth/logout
+   * 注销当前会话
+   */
+  fastify.post('/api/auth/logout', async (request) => {
+    const token = request.headers.authorization?.replace(/^Bearer /, '');
+    if (token && request.auth?.kind === 'session') {
+      authManager.logout(token);
+    }
+    return { success: true };
+  });
+
+  /**
+   * GET /api/auth/me
+   * 当前身份（认证关闭时为匿名管理员）
+   */
+  fastify.get('/api/auth/me', async (request) => {
+    return {
+      success: true,
+      authEnabled: authManager.isEnabled(),
+      user: request.auth
+    };
+  });
+
+  /**
+   * POST /api/auth/password
+   * 修改当前用户的密码（会注销该用户的所有会话）
+   */
+  fastify.post('/api/auth/password', async (request, reply) => {
+    const { currentPassword, newPassword } = (request.body || {}) as { currentPassword?: string; newPassword?: string };
+
+    if (request.auth?.kind !== 'session') {
+      reply.status(400);
+      return { error: 'Password can only be changed from a login session' };
+    }
+    if (!currentPassword || !newPassword || newPassword.length < 8) {
+      reply.status(400);
+      return { error: 'currentPassword and newPassword (at least 8 characters) are required' };
+    }
+
+    try {
+      await authManager.changePassword(request.auth.name, currentPassword, newPassword);
+      return { success: true };
+    } catch (error) {
+      reply.status(error instanceof AuthError ? error.status : 500);
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // ========== 用户管理（admin） ==========
+
+  fastify.get('/api/auth/users', async () => {
+    return { success: true, users: authManager.listUsers() };
+  });
+
+  /**
+   * POST /api/auth/users
+   * 创建用户，已存在时重置密码和角色
+   */
+  fastify.post('/api/auth/users', async (request, reply) => {
+    const { username, password, role } = (request.body || {}) as { username?: string; password?: string; role?: string };
+
+    if (!username || !/^[\w.-]{1,64}$/.test(username)) {
+      reply.status(400);
+      return { error: 'username must be 1-64 letters, digits, "_", "." or "-"' };
+    }
+    if (!password || password.length < 8) {
+      reply.status(400);
+      return { error: 'password must be at least 8 characters' };
+    }
+    if (!isRole(role)) {
+      reply.status(400);
+      return { error: 'role must be one of viewer, operator, admin' };
+    }
+
+    const user = await authManager.saveUser(username, password, role);
+    return { success: true, user };
+  });
+
+  fastify.delete('/api/auth/users/:username', async (request, reply) => {
+    const { username } = request.params as { username: string };
+
+    try {
+      const deleted = await authManager.deleteUser(username);
+      if (!deleted) {
+        reply.status(404);
+        return { error: 'User not found' };
+      }
+      return { success: true };
+    } catch (error) {
+      reply.status(error instanceof AuthError ? error.status : 500);
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // ========== API Token（admin） ==========
+
+  fastify.get('/api/auth/tokens', async () => {
+    return { success: true, tokens: authManager.listTokens() };
+  });
+
+  /**
+   * POST /api/auth/tokens
+   * 创建 API Token，明文只在响应中返回一次
+   */
+  fastify.post('/api/auth/tokens', async (request, reply) => {
+    const { name, role } = (request.body || {}) as { name?: string; role?: string };
+
+    if (!name) {
+      reply.status(400);
+      return { error: 'Missing required field: name' };
+    }
+    if (!isRole(role)) {
+      reply.status(400);
+      return { error: 'role must be one of viewer, operator, admin' };
+    }
+
+    const { token, info } = await authManager.createToken(name, role, actorName(request));
+    return { success: true, token, info };
+  });
+
+  fastify.delete('/api/auth/tokens/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const revoked = await authManager.revokeToken(id);
+    if (!revoked) {
+      reply.status(404);
+      return { error: 'Token not found' };
+    }
+    return { success: true };
+  });
+}
@@ -1,28 +1,58 @@
 import { FastifyInstance } from 'fastify';
 import { agentManager } from '../manager/AgentManager.js';
-import { agentFileManager } from '../manager/AgentFileManager.js';
-import { AdapterFactory, presetModels } from '../adapters/index.js';
-import type { ModelConfig } from '../types.ts';
+import { agentFileManager, type AgentMemoryEntry, type AgentSoul } from '../manager/AgentFileManager.js';
+import { memoryRetriever } from '../manager/MemoryRetriever.js';
+import { memoryExtractor } from '../manager/MemoryExtractor.js';
+import { contextWindow, estimateTextTokens } from '../manager/ContextWindow.js';
+import { modelDiscovery } from '../manager/ModelDiscovery.js';
+import { ProviderError } from '../adapters/resilience.js';
+import { AdapterFactory, presetModels, circuitBreakers } from '../adapters/index.js';
+import { validateAttachments, withAttachments } from '../adapters/content.js';
+import type { Attachment, ModelConfig } from '../types.ts';
 import { registerMasterRoutes } from './master.js';
+import { registerUsageRoutes } from './usage.js';
+import { registerSecretRoutes } from './secrets.js';
+import { registerAuthRoutes, actorName } from './auth.js';
+import { registerWorkspaceRoutes } from './workspaces.js';
+import { registerAgentBundleRoutes } from './agentBundles.js';
+import { redactModelConfig } from '../manager/SecretVault.js';
 
 export async function registerRoutes(fastify: FastifyInstance) {
+  // 认证与访问控制（需在其他路由之前注册）
+  await registerAuthRoutes(fastify);
+
+  // 工作区选择与管理（其余路由在所选工作区内执行）
+  await registerWorkspaceRoutes(fastify);
+
   // 注册总指挥系统路由
   await registerMasterRoutes(fastify);
+
+  // 注册用量统计路由
+  await registerUsageRoutes(fastify);
+
+  // 注册密钥库路由
+  await registerSecretRoutes(fastify);
+
+  // 注册 Agent 导入导出和版本历史路由
+  await registerAgentBundleRoutes(fastify);
   
   // 健康检查端点
+  // 任一供应商熔断时标记为 degraded
   fastify.get('/api/health', async () => {
+    const providers = circuitBreakers.getStates();
     return {
-      status: 'ok',
+      status: providers.some(breaker => breaker.state === 'open') ? 'degraded' : 'ok',
       timestamp: Date.now(),
       uptime: process.uptime(),
-      version: '1.0.0'
+      version: '1.0.0',
+      providers
     };
   });
 
   // 获取预设模型列表
   fastify.get('/api/models', async () => {
     return {
-      presets: presetModels,
+      presets: presetModels.map(redactModelConfig),
       agents: agentManager.getAllAgents().map(agent => ({
         id: agent.id,
         name: agent.name,
@@ -46,7 +76,7 @@ export async function registerRoutes(fastify: FastifyInstance) {
 
     try {
       const agent = await agentManager.createAgent(body.name, body.modelConfig);
-      return { success: true, agent };
+      return { success: true, agent: { ...agent, modelConfig: redactModelConfig(agent.modelConfig) } };
     } catch (error) {
       reply.status(500);
       return { 
@@ -69,9 +99,9 @@ export async function registerRoutes(fastify: FastifyInstance) {
     return { success: true };
   });
 
-  // 获取所有 Agents
+  // 获取所有 Agents（API Key 脱敏）
   fastify.get('/api/agents', async () => {
-    return agentManager.getAllAgents();
+    return agentManager.getAllAgents().map(agent => ({ ...agent, modelConfig: redactModelConfig(agent.modelConfig) }));
   });
 
   // 测试模型连接
@@ -91,16 +121,46 @@ export async function registerRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // 查询供应商的可用模型（Ollama /api/tags、OpenAI 兼容 /models，Anthropic / MiniMax 使用内置目录）
+  // 请求体为模型配置，refresh 为 true 时跳过缓存
+  fastify.post('/api/models/discover', async (request, reply) => {
+    const { refresh, ...config } = (request.body || {}) as ModelConfig & { refresh?: boolean };
+
+    if (!config.provider) {
+      reply.status(400);
+      return { error: 'Missing required field: provider' };
+    }
+
+    try {
+      const result = await modelDiscovery.discover(config, refresh === true);
+      return { success: true, ...result };
+    } catch (error) {
+      // 密钥无效返回 401，其他供应商错误按网关错误返回 502
+      reply.status(error instanceof ProviderError && error.kind === 'auth' ? 401 : 502);
+      return {
+        error: 'Failed to discover models',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  });
+
   // 发送消息（流式）
+  // message 为文本，attachments 为可选的图片 / 文件片段
   fastify.post('/api/chat/:agentId', async (request, reply) => {
     const { agentId } = request.params as { agentId: string };
-    const { message } = request.body as { message: string };
+    const { message, attachments } = request.body as { message: string; attachments?: Attachment[] };
 
-    if (!message) {
+    if (!message && !attachments?.length) {
       reply.status(400);
       return { error: 'Missing required field: message' };
     }
 
+    const attachmentError = attachments !== undefined ? validateAttachments(attachments) : null;
+    if (attachmentError) {
+      reply.status(400);
+      return { error: `Invalid attachments: ${attachmentError}` };
+    }
+
     const agent = agentManager.getAgent(agentId);
     if (!agent) {
       reply.status(404);
@@ -115,7 +175,7 @@ export async function registerRoutes(fastify: FastifyInstance) {
     });
 
     try {
-      const stream = await agentManager.sendMessage(agentId, message);
+      const stream = await agentManager.sendMessage(agentId, withAttachments(message || '', attachments));
       
       if (!stream) {
         reply.raw.write(`data: ${JSON.stringify({ error: 'Failed to start stream' })}\n\n`);
@@ -123,11 +183,16 @@ export async function registerRoutes(fastify: FastifyInstance) {
         return;
       }
 
+      let response = '';
       for await (const chunk of stream) {
+        response += chunk.content;
         reply.raw.write(`data: ${JSON.stringify(chunk)}\n\n`);
       }
 
       reply.raw.end();
+
+      // 会话空闲后从对话中提取记忆（未开启时忽略）
+      memoryExtractor.observeChat(agentId, message || '', response);
     } catch (error) {
       reply.raw.write(`data: ${JSON.stringify({ 
         error: error instanceof Error ? error.message : String(error) 
@@ -213,12 +278,29 @@ export async function registerRoutes(fastify: FastifyInstance) {
       return { error: 'Agent not found' };
     }
     
-    return { history: agent.conversationHistory };
+    return {
+      history: agent.conversationHistory,
+      summary: agent.contextSummary ?? null,
+      recalledMemories: agent.recalledMemories ?? []
+    };
   });
 
-  // 清空 Agent 对话历史
+  // 清空 Agent 对话历史（保留系统提示词）
   fastify.delete('/api/agents/:id/history', async (request, reply) => {
     const { id } = request.params as { id: string };
+    
+    if (!agentManager.clearHistory(id)) {
+      reply.status(404);
+      return { error: 'Agent not found' };
+    }
+    
+    return { success: true };
+  });
+
+  // 预览 Agent 的系统提示词（与发送给模型的一致）；提供 query 时按其检索记忆，否则使用最近一次注入的记忆
+  fastify.get('/api/agents/:id/prompt', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { query } = request.query as { query?: string };
     const agent = agentManager.getAgent(id);
     
     if (!agent) {
@@ -226,8 +308,9 @@ export async function registerRoutes(fastify: FastifyInstance) {
       return { error: 'Agent not found' };
     }
     
-    agent.conversationHistory = [];
-    return { success: true };
+    const memories = query ? await memoryRetriever.retrieve(agent, query) : undefined;
+    const { content, sections } = contextWindow.systemPrompt(agent, memories);
+    return { success: true, prompt: content, sections, tokens: estimateTextTokens(content), profile: agent.profile ?? null };
   });
 
   // ========== Agent 文件管理路由 ==========
@@ -261,19 +344,29 @@ export async function registerRoutes(fastify: FastifyInstance) {
       return { error: 'Agent not found' };
     }
     
-    const data = request.body as Partial<{
+    const { apiKey, name, model, personality, role, author, note } = request.body as Partial<{
       name: string;
       model: string;
-      apiKeyEncrypted: string;
+      apiKey: string;  // 明文，存入密钥库后只在灵魂文件中保存引用
       personality: string;
       role: string;
+      author: string;  // 记入版本历史（认证开启时使用登录身份）
+      note: string;
     }>;
-    
-    const updated = await agentFileManager.updateSoulFile(id, data);
+
+    const data: Partial<AgentSoul> = Object.fromEntries(
+      Object.entries({ name, model, personality, role }).filter(([, value]) => value !== undefined)
+    );
+    if (apiKey) {
+      data.apiKeyRef = (await agentManager.updateAgentApiKey(id, apiKey)) ?? undefined;
+    }
+
+    const updated = await agentFileManager.updateSoulFile(id, data, { author: actorName(request, author), note });
     if (!updated) {
       reply.status(500);
       return { error: 'Failed to update soul file' };
     }
+    await agentManager.loadProfile(id);
     
     return { success: true, soul: updated };
   });
@@ -307,18 +400,23 @@ export async function registerRoutes(fastify: FastifyInstance) {
       return { error: 'Agent not found' };
     }
     
-    const { skills } = request.body as { skills: Array<{ name: string; enabled: boolean }> };
+    const { skills, author, note } = request.body as {
+      skills: Array<{ name: string; enabled: boolean }>;
+      author?: string;
+      note?: string;
+    };
     
     if (!skills || !Array.isArray(skills)) {
       reply.status(400);
       return { error: 'Missing required field: skills (array)' };
     }
     
-    const updated = await agentFileManager.updateSkillsFile(id, skills);
+    const updated = await agentFileManager.updateSkillsFile(id, skills, { author: actorName(request, author), note });
     if (!updated) {
       reply.status(500);
       return { error: 'Failed to update skills file' };
     }
+    await agentManager.loadProfile(id);
     
     return { success: true, skills: updated };
   });
@@ -353,7 +451,7 @@ export async function registerRoutes(fastify: FastifyInstance) {
     }
     
     const data = request.body as Partial<{
-      memories: string[];
+      memories: Array<string | AgentMemoryEntry>;
       workFiles: string[];
       conversations: Array<{ id: string; timestamp: number; content: string }>;
     }>;
@@ -384,7 +482,7 @@ export async function registerRoutes(fastify: FastifyInstance) {
       return { error: 'Missing required field: memory' };
     }
     
-    const updated = await agentFileManager.addMemory(id, memory);
+    const updated = await agentFileManager.addMemory(id, memory, { source: 'manual' });
     if (!updated) {
       reply.status(500);
       return { error: 'Failed to add memory' };
@@ -393,6 +491,53 @@ export async function registerRoutes(fastify: FastifyInstance) {
     return { success: true, memory: updated };
   });
 
+  // 按查询检索记忆（与对话前注入的结果一致，便于调试检索效果）
+  fastify.post('/api/agents/:id/memory/search', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const agent = agentManager.getAgent(id);
+    
+    if (!agent) {
+      reply.status(404);
+      return { error: 'Agent not found' };
+    }
+    
+    const { query } = (request.body || {}) as { query?: string };
+    
+    if (!query) {
+      reply.status(400);
+      return { error: 'Missing required field: query' };
+    }
+    
+    const memories = await memoryRetriever.retrieve(agent, query);
+    return { success: true, memories };
+  });
+
+  // 整理记忆（合并重复、删除过时条目）
+  fastify.post('/api/agents/:id/memory/consolidate', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const agent = agentManager.getAgent(id);
+    
+    if (!agent) {
+      reply.status(404);
+      return { error: 'Agent not found' };
+    }
+    
+    try {
+      const result = await memoryExtractor.consolidate(id);
+      if (!result) {
+        reply.status(404);
+        return { error: 'Memory file not found' };
+      }
+      return { success: true, ...result };
+    } catch (error) {
+      reply.status(500);
+      return {
+        error: 'Failed to consolidate memories',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  });
+
   // 添加工作文件
   fastify.post('/api/agents/:id/memory/workfile', async (request, reply) => {
     const { id } = request.params as { id: string };
@@ -1,15 +1,203 @@
 import { FastifyInstance } from 'fastify';
-import { masterAgent, type TaskAnalysis } from '../manager/MasterAgent.js';
+import { masterAgent, type TaskAnalysis, type ApprovalDecision, type AnalysisProgressEvent } from '../manager/MasterAgent.js';
 import { taskScheduler, type SchedulerEvent } from '../manager/TaskScheduler.js';
 import { taskExecutor, type ExecuteEvent } from '../manager/TaskExecutor.js';
 import { collaborationManager, type CollaborationEvent } from '../manager/CollaborationManager.js';
 import { resultAggregator, type AggregatedResult } from '../manager/ResultAggregator.js';
-import { exceptionHandler, type ExceptionRecord, type ExceptionEvent } from '../manager/ExceptionHandler.js';
+import { exceptionHandler, type ExceptionRecord, type ExceptionEvent, type InterventionDecision, type InterventionOptions } from '../manager/ExceptionHandler.js';
+import { taskStore } from '../manager/TaskStore.js';
+import { modelRouter, type ModelRoute, type ModelRole } from '../manager/ModelRouter.js';
+import { presetModels, configureResilience, getResilienceConfig } from '../adapters/index.js';
+import { usageLedger, type UsageEvent } from '../manager/UsageLedger.js';
+import { taskPlanner, type SubTaskEdit } from '../manager/TaskPlanner.js';
+import { budgetManager, BUDGET_LIMIT_KEYS, type BudgetLimits, type BudgetEvent } from '../manager/BudgetManager.js';
+import { structuredOutput } from '../manager/StructuredOutput.js';
+import { memoryExtractor } from '../manager/MemoryExtractor.js';
+import { validateAttachments } from '../adapters/content.js';
+import type { Attachment } from '../types.js';
+import { actorName, requestHasRole } from './auth.js';
+import { workspaceScoped, currentWorkspaceId } from '../manager/WorkspaceContext.js';
+import { workspaceManager } from '../manager/WorkspaceManager.js';
+import { subtaskPrompt } from '../manager/SubtaskPrompt.js';
+
+// 分析结果缓存（同步写入持久化存储，按工作区隔离）
+const analysisCache = workspaceScoped('analysisCache', () => new Map<string, TaskAnalysis>());
+
+/**
+ * 缓存并持久化分析结果
+ */
+function cacheAnalysis(analysis: TaskAnalysis): void {
+  analysisCache.set(analysis.id, analysis);
+  taskStore.persist('analyses', analysis.id, analysis);
+}
+
+/**
+ * 分析接口返回的分析结果字段
+ */
+function serializeAnalysis(analysis: TaskAnalysis) {
+  return {
+    id: analysis.id,
+    originalTask: analysis.originalTask,
+    complexity: analysis.complexity,
+    estimatedTime: analysis.estimatedTime,
+    reasoning: analysis.reasoning,
+    subtasks: analysis.subtasks.map(st => ({
+      id: st.id,
+      title: st.title,
+      description: st.description,
+      priority: st.priority,
+      estimatedMinutes: st.estimatedMinutes,
+      dependencies: st.dependencies,
+      requiredSkills: st.requiredSkills,
+      requiresApproval: st.requiresApproval,
+      status: st.status
+    })),
+    requiredSkills: analysis.requiredSkills,
+    recommendedAgents: analysis.recommendedAgents,
+    warnings: analysis.warnings
+  };
+}
+
+/**
+ * 获取可编辑的分析结果（不存在返回 404，已提交执行返回 409）
+ */
+function findEditableAnalysis(analysisId: string): { analysis: TaskAnalysis } | { status: number; error: string } {
+  const analysis = analysisCache.get(analysisId);
+  if (!analysis) {
+    return { status: 404, error: 'Analysis not found' };
+  }
+  if (!taskPlanner.isEditable(analysisId)) {
+    return { status: 409, error: 'Plan can no longer be edited: task has already been submitted' };
+  }
+  return { analysis };
+}
+
+/**
+ * 校验子任务编辑字段，返回错误信息
+ */
+function validateSubtaskEdit(edit: SubTaskEdit): string | null {
+  if (edit.title !== undefined && (typeof edit.title !== 'string' || !edit.title.trim())) {
+    return 'title must be a non-empty string';
+  }
+  if (edit.description !== undefined && typeof edit.description !== 'string') {
+    return 'description must be a string';
+  }
+  if (edit.priority !== undefined && !['high', 'medium', 'low'].includes(edit.priority)) {
+    return 'priority must be high, medium or low';
+  }
+  if (edit.estimatedMinutes !== undefined && (typeof edit.estimatedMinutes !== 'number' || edit.estimatedMinutes <= 0)) {
+    return 'estimatedMinutes must be a positive number';
+  }
+  for (const field of ['dependencies', 'requiredSkills'] as const) {
+    const value = edit[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+      return `${field} must be an array of strings`;
+    }
+  }
+  if (edit.requiresApproval !== undefined && typeof edit.requiresApproval !== 'boolean') {
+    return 'requiresApproval must be a boolean';
+  }
+  return null;
+}
+
+/**
+ * 计划编辑接口的统一响应
+ */
+function planResponse(analysis: TaskAnalysis) {
+  cacheAnalysis(analysis);
+  return {
+    success: true,
+    analysis,
+    validation: taskPlanner.validate(analysis.subtasks)
+  };
+}
+
+/**
+ * 校验预算限制（只允许已知字段，且必须为正数）
+ */
+function isValidBudget(limits: unknown): limits is BudgetLimits {
+  if (!limits || typeof limits !== 'object' || Array.isArray(limits)) return false;
+  return Object.entries(limits).every(([key, value]) =>
+    BUDGET_LIMIT_KEYS.includes(key as keyof BudgetLimits) && typeof value === 'number' && value > 0
+  );
+}
+
+// POST /api/master/config 接受的配置分区
+const CONFIG_SECTIONS = ['scheduler', 'executor', 'aggregator', 'exception', 'provider', 'structuredOutput', 'memory', 'models', 'budget'];
+
+/**
+ * 校验配置更新请求，返回错误信息（合法时返回 null）
+ */
+function validateConfigUpdate(body: unknown): string | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return 'Invalid config: request body must be an object';
+  }
+  const config = body as Record<string, unknown> & { executor?: Record<string, unknown> };
+  for (const section of CONFIG_SECTIONS) {
+    const value = config[section];
+    if (value !== undefined && value !== null && (typeof value !== 'object' || Array.isArray(value))) {
+      return `Invalid config: ${section} must be an object`;
+    }
+  }
+
+  const { dependencyContextMaxChars, dependencyResultMode } = config.executor || {};
+  if (dependencyContextMaxChars !== undefined && !(typeof dependencyContextMaxChars === 'number' && dependencyContextMaxChars > 0)) {
+    return 'Invalid executor.dependencyContextMaxChars: must be a positive number';
+  }
+  if (dependencyResultMode !== undefined && dependencyResultMode !== 'truncate' && dependencyResultMode !== 'summarize') {
+    return 'Invalid executor.dependencyResultMode: must be truncate or summarize';
+  }
+  if (config.budget && !isValidBudget(config.budget)) {
+    return `Invalid budget: allowed fields are ${BUDGET_LIMIT_KEYS.join(', ')} (positive numbers)`;
+  }
+  if (config.models) {
+    try {
+      modelRouter.validateRoutes(config.models as Partial<Record<ModelRole, Partial<ModelRoute>>>);
+    } catch (error) {
+      return `Invalid models: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
 
-// 内存存储（后续可迁移到数据库）
-const analysisCache = new Map<string, TaskAnalysis>();
+  return null;
+}
+
+/**
+ * 重启后恢复总指挥系统状态
+ */
+async function restoreMasterState(): Promise<void> {
+  await masterAgent.restore();
+
+  const analyses = await taskStore.load<TaskAnalysis>('analyses');
+  for (const analysis of analyses) {
+    // 分析结果与任务共享子任务对象，保证状态同步
+    const task = masterAgent.getTaskStatus(analysis.id);
+    if (task) {
+      analysis.subtasks = task.subtasks;
+    }
+    analysisCache.set(analysis.id, analysis);
+  }
+
+  await Promise.all([
+    exceptionHandler.restore(),
+    collaborationManager.restore(),
+    resultAggregator.restore(),
+    usageLedger.restore(),
+    budgetManager.restore()
+  ]);
+
+  await taskScheduler.restore(masterAgent.getAllSubAgents());
+  console.log(`[Master API] Workspace ${currentWorkspaceId()} restored from ${taskStore.getBackendName()} store (${analyses.length} analyses)`);
+}
 
 export async function registerMasterRoutes(fastify: FastifyInstance) {
+  // 每个工作区激活时恢复持久化的任务状态
+  workspaceManager.onActivate(async () => {
+    try {
+      await restoreMasterState();
+    } catch (error) {
+      console.error(`[Master API] Failed to restore persisted state of workspace ${currentWorkspaceId()}:`, error);
+    }
+  });
 
   // ========== 诊断端点 ==========
 
@@ -36,9 +224,10 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
    * 分析任务，返回复杂度评估和子任务分解
    */
   fastify.post('/api/master/analyze', async (request, reply) => {
-    const { task, context } = request.body as {
+    const { task, context, attachments } = request.body as {
       task: string;
       context?: string;
+      attachments?: Attachment[];
     };
 
     if (!task || typeof task !== 'string') {
@@ -46,38 +235,28 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
       return { error: 'Missing required field: task (string)' };
     }
 
+    const attachmentError = attachments !== undefined ? validateAttachments(attachments) : null;
+    if (attachmentError) {
+      reply.status(400);
+      return { error: `Invalid attachments: ${attachmentError}` };
+    }
+
     try {
       // 构建完整任务描述
       const fullTask = context 
         ? `[上下文]\n${context}\n\n[任务]\n${task}`
         : task;
 
-      const analysis = await masterAgent.analyzeTask(fullTask);
+      const analysis = await masterAgent.analyzeTask(fullTask, { attachments });
+      const validation = taskPlanner.preparePlan(analysis);
       
       // 缓存分析结果
-      analysisCache.set(analysis.id, analysis);
+      cacheAnalysis(analysis);
 
       return {
         success: true,
-        analysis: {
-          id: analysis.id,
-          originalTask: analysis.originalTask,
-          complexity: analysis.complexity,
-          estimatedTime: analysis.estimatedTime,
-          reasoning: analysis.reasoning,
-          subtasks: analysis.subtasks.map(st => ({
-            id: st.id,
-            title: st.title,
-            description: st.description,
-            priority: st.priority,
-            estimatedMinutes: st.estimatedMinutes,
-            dependencies: st.dependencies,
-            requiredSkills: st.requiredSkills,
-            status: st.status
-          })),
-          requiredSkills: analysis.requiredSkills,
-          recommendedAgents: analysis.recommendedAgents
-        }
+        analysis: serializeAnalysis(analysis),
+        validation
       };
     } catch (error) {
       console.error('[Master API] Analyze error:', error);
@@ -89,6 +268,70 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * POST /api/master/analyze/stream
+   * 流式分析任务（SSE）：依次推送 started、reasoning、每个 subtask，最后推送 complete 或 error
+   * 客户端断开连接即取消分析
+   */
+  fastify.post('/api/master/analyze/stream', async (request, reply) => {
+    const { task, context, attachments } = request.body as {
+      task: string;
+      context?: string;
+      attachments?: Attachment[];
+    };
+
+    if (!task || typeof task !== 'string') {
+      reply.status(400);
+      return { error: 'Missing required field: task (string)' };
+    }
+
+    const attachmentError = attachments !== undefined ? validateAttachments(attachments) : null;
+    if (attachmentError) {
+      reply.status(400);
+      return { error: `Invalid attachments: ${attachmentError}` };
+    }
+
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+
+    const controller = new AbortController();
+    reply.raw.on('close', () => controller.abort());
+
+    const send = (data: AnalysisProgressEvent | Record<string, unknown>) => {
+      if (!reply.raw.writableEnded) {
+        reply.raw.write(`data: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    try {
+      const fullTask = context 
+        ? `[上下文]\n${context}\n\n[任务]\n${task}`
+        : task;
+
+      const analysis = await masterAgent.analyzeTask(fullTask, {
+        attachments,
+        signal: controller.signal,
+        onProgress: send
+      });
+      const validation = taskPlanner.preparePlan(analysis);
+      cacheAnalysis(analysis);
+
+      send({ type: 'complete', analysis: serializeAnalysis(analysis), validation });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('[Master API] Streaming analysis cancelled by client');
+      } else {
+        console.error('[Master API] Streaming analyze error:', error);
+        send({ type: 'error', error: 'Task analysis failed', message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    reply.raw.end();
+  });
+
   // ========== 子Agent团队管理 ==========
 
   /**
@@ -207,6 +450,164 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // ========== 执行计划编辑 ==========
+
+  /**
+   * GET /api/master/analysis/:analysisId
+   * 获取执行计划及校验结果
+   */
+  fastify.get('/api/master/analysis/:analysisId', async (request, reply) => {
+    const { analysisId } = request.params as { analysisId: string };
+    const analysis = analysisCache.get(analysisId);
+
+    if (!analysis) {
+      reply.status(404);
+      return { error: 'Analysis not found' };
+    }
+
+    return {
+      success: true,
+      analysis,
+      validation: taskPlanner.validate(analysis.subtasks),
+      editable: taskPlanner.isEditable(analysisId)
+    };
+  });
+
+  /**
+   * POST /api/master/analysis/:analysisId/subtasks
+   * 添加子任务（index 可选，缺省追加到末尾）
+   */
+  fastify.post('/api/master/analysis/:analysisId/subtasks', async (request, reply) => {
+    const { analysisId } = request.params as { analysisId: string };
+    const { index, ...input } = request.body as SubTaskEdit & { index?: number };
+
+    const found = findEditableAnalysis(analysisId);
+    if ('error' in found) {
+      reply.status(found.status);
+      return { error: found.error };
+    }
+
+    const invalid = input.title === undefined ? 'Missing required field: title' : validateSubtaskEdit(input);
+    if (invalid) {
+      reply.status(400);
+      return { error: invalid };
+    }
+
+    const subtask = taskPlanner.addSubtask(found.analysis, input as SubTaskEdit & { title: string }, index);
+    return { ...planResponse(found.analysis), subtask };
+  });
+
+  /**
+   * PATCH /api/master/analysis/:analysisId/subtasks/:subTaskId
+   * 修改子任务（标题、描述、优先级、技能、依赖、审批等）
+   */
+  fastify.patch('/api/master/analysis/:analysisId/subtasks/:subTaskId', async (request, reply) => {
+    const { analysisId, subTaskId } = request.params as { analysisId: string; subTaskId: string };
+    const edit = request.body as SubTaskEdit;
+
+    const found = findEditableAnalysis(analysisId);
+    if ('error' in found) {
+      reply.status(found.status);
+      return { error: found.error };
+    }
+
+    const invalid = validateSubtaskEdit(edit || {});
+    if (invalid) {
+      reply.status(400);
+      return { error: invalid };
+    }
+
+    const subtask = taskPlanner.updateSubtask(found.analysis, subTaskId, edit || {});
+    if (!subtask) {
+      reply.status(404);
+      return { error: 'Subtask not found' };
+    }
+
+    return { ...planResponse(found.analysis), subtask };
+  });
+
+  /**
+   * DELETE /api/master/analysis/:analysisId/subtasks/:subTaskId
+   * 删除子任务（同时从其他子任务的依赖中移除）
+   */
+  fastify.delete('/api/master/analysis/:analysisId/subtasks/:subTaskId', async (request, reply) => {
+    const { analysisId, subTaskId } = request.params as { analysisId: string; subTaskId: string };
+
+    const found = findEditableAnalysis(analysisId);
+    if ('error' in found) {
+      reply.status(found.status);
+      return { error: found.error };
+    }
+
+    if (!taskPlanner.removeSubtask(found.analysis, subTaskId)) {
+      reply.status(404);
+      return { error: 'Subtask not found' };
+    }
+
+    return planResponse(found.analysis);
+  });
+
+  /**
+   * PUT /api/master/analysis/:analysisId/order
+   * 调整子任务顺序
+   */
+  fastify.put('/api/master/analysis/:analysisId/order', async (request, reply) => {
+    const { analysisId } = request.params as { analysisId: string };
+    const { subtaskIds } = request.body as { subtaskIds: string[] };
+
+    const found = findEditableAnalysis(analysisId);
+    if ('error' in found) {
+      reply.status(found.status);
+      return { error: found.error };
+    }
+
+    if (!Array.isArray(subtaskIds)) {
+      reply.status(400);
+      return { error: 'Missing required field: subtaskIds (array)' };
+    }
+
+    try {
+      taskPlanner.reorderSubtasks(found.analysis, subtaskIds);
+    } catch (error) {
+      reply.status(400);
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    return planResponse(found.analysis);
+  });
+
+  /**
+   * POST /api/master/analysis/:analysisId/subtasks/:subTaskId/reanalyze
+   * 让总指挥重新分析单个子任务（可附带修改意见）
+   */
+  fastify.post('/api/master/analysis/:analysisId/subtasks/:subTaskId/reanalyze', async (request, reply) => {
+    const { analysisId, subTaskId } = request.params as { analysisId: string; subTaskId: string };
+    const { instructions } = (request.body || {}) as { instructions?: string };
+
+    const found = findEditableAnalysis(analysisId);
+    if ('error' in found) {
+      reply.status(found.status);
+      return { error: found.error };
+    }
+
+    try {
+      const subtask = await taskPlanner.reanalyzeSubtask(found.analysis, subTaskId, instructions);
+      if (!subtask) {
+        reply.status(404);
+        return { error: 'Subtask not found' };
+      }
+
+      return { ...planResponse(found.analysis), subtask };
+    } catch (error) {
+      console.error('[Master API] Reanalyze error:', error);
+      reply.status(500);
+      return {
+        error: 'Subtask reanalysis failed',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  });
+
   // ========== 任务分配与执行 ==========
 
   /**
@@ -229,6 +630,13 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
       return { error: 'Analysis not found' };
     }
 
+    // 提交前校验执行计划
+    const validation = taskPlanner.validate(analysis.subtasks);
+    if (!validation.valid) {
+      reply.status(400);
+      return { error: 'Invalid task plan', issues: validation.issues };
+    }
+
     // 获取或创建子Agent团队
     let agents = masterAgent.getAllSubAgents();
     if (agents.length === 0) {
@@ -260,10 +668,12 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
    * 直接执行分析过的任务（一站式接口）
    */
   fastify.post('/api/master/execute', async (request, reply) => {
-    const { task, context, agentNames } = request.body as {
+    const { task, context, attachments, agentNames, budget } = request.body as {
       task: string;
       context?: string;
+      attachments?: Attachment[];
       agentNames?: string[];
+      budget?: BudgetLimits;
     };
 
     if (!task) {
@@ -271,16 +681,41 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
       return { error: 'Missing required field: task' };
     }
 
+    const attachmentError = attachments !== undefined ? validateAttachments(attachments) : null;
+    if (attachmentError) {
+      reply.status(400);
+      return { error: `Invalid attachments: ${attachmentError}` };
+    }
+
+    if (budget && !isValidBudget(budget)) {
+      reply.status(400);
+      return { error: `Invalid budget: allowed fields are ${BUDGET_LIMIT_KEYS.join(', ')} (positive numbers)` };
+    }
+
+    const startedAt = Date.now();
+
     try {
       // 1. 分析任务
       const fullTask = context ? `[上下文]\n${context}\n\n[任务]\n${task}` : task;
-      const analysis = await masterAgent.analyzeTask(fullTask);
-      analysisCache.set(analysis.id, analysis);
+      const analysis = await masterAgent.analyzeTask(fullTask, { attachments });
+      const validation = taskPlanner.preparePlan(analysis);
+      cacheAnalysis(analysis);
+
+      // 计划无效时不执行，可通过计划编辑接口修正后调用 /api/master/assign
+      if (!validation.valid) {
+        reply.status(400);
+        return { error: 'Invalid task plan', taskId: analysis.id, issues: validation.issues };
+      }
 
       // 2. 创建团队
       const team = await masterAgent.createSubAgentTeam(analysis, agentNames);
 
-      // 3. 提交执行
+      // 3. 设置预算（分析阶段的用量和耗时同样计入）
+      if (budget) {
+        budgetManager.setTaskBudget(analysis.id, budget, startedAt);
+      }
+
+      // 4. 提交执行
       await taskScheduler.submitTask(analysis, team);
 
       return {
@@ -291,6 +726,7 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
         reasoning: analysis.reasoning,
         subtasks: analysis.subtasks,
         subtaskCount: analysis.subtasks.length,
+        budget: budgetManager.getTaskBudget(analysis.id),
         teamSize: team.length,
         team: team.map(a => ({ id: a.id, name: a.name, role: a.role }))
       };
@@ -336,6 +772,7 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
           status: aggregatedResult.status,
           summary: aggregatedResult.summary,
           metrics: aggregatedResult.metrics,
+          modelFallbacks: aggregatedResult.modelFallbacks,
           completedAt: aggregatedResult.completedAt
         }
       };
@@ -495,18 +932,41 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
    */
   fastify.post('/api/master/exceptions/:exceptionId/respond', async (request, reply) => {
     const { exceptionId } = request.params as { exceptionId: string };
-    const { decision, notes, respondedBy } = request.body as {
-      decision: 'retry' | 'skip' | 'abort' | 'reassign';
+    const { decision, notes, budget, model, ...body } = request.body as {
+      decision: InterventionDecision;
       notes?: string;
-      respondedBy: string;
-    };
+      respondedBy?: string;
+    } & InterventionOptions;
+    // 登录后以当前用户作为处理人
+    const respondedBy = actorName(request, body.respondedBy);
 
     if (!decision || !respondedBy) {
       reply.status(400);
       return { error: 'Missing required fields: decision, respondedBy' };
     }
 
-    const success = exceptionHandler.respondToIntervention(exceptionId, decision, respondedBy, notes);
+    if (budget && !isValidBudget(budget)) {
+      reply.status(400);
+      return { error: `Invalid budget: allowed fields are ${BUDGET_LIMIT_KEYS.join(', ')} (positive numbers)` };
+    }
+
+    // 全局预算超限时追加预算会修改全局预算，与 POST /api/master/config 一样需要 admin
+    const exception = exceptionHandler.getException(exceptionId);
+    const extendsGlobal = (decision === 'extend_budget' || (decision === 'downgrade' && !!budget)) &&
+      !!exception && budgetManager.getTaskBudget(exception.taskId)?.violation?.scope === 'global';
+    if (extendsGlobal && !requestHasRole(request, 'admin')) {
+      reply.status(403);
+      return { error: 'Forbidden', message: 'Extending the global budget requires admin role' };
+    }
+
+    if (decision === 'downgrade') {
+      if (!model?.presetId || !presetModels.some(preset => preset.id === model.presetId)) {
+        reply.status(400);
+        return { error: 'downgrade requires model.presetId of a known preset' };
+      }
+    }
+
+    const success = exceptionHandler.respondToIntervention(exceptionId, decision, respondedBy, notes, { budget, model });
     if (!success) {
       reply.status(404);
       return { error: 'Exception not found or not requiring intervention' };
@@ -559,6 +1019,80 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
     };
   });
 
+  // ========== 子任务审批 ==========
+
+  /**
+   * GET /api/master/approvals
+   * 获取等待审批的子任务
+   */
+  fastify.get('/api/master/approvals', async () => {
+    return {
+      success: true,
+      approvals: masterAgent.getPendingApprovals()
+    };
+  });
+
+  /**
+   * POST /api/master/approvals/:taskId/:subTaskId
+   * 审批子任务：approve 放行（可附带修改后的描述），edit 仅修改描述，reject 拒绝
+   */
+  fastify.post('/api/master/approvals/:taskId/:subTaskId', async (request, reply) => {
+    const { taskId, subTaskId } = request.params as { taskId: string; subTaskId: string };
+    const { decision, title, description, notes, ...body } = request.body as {
+      decision: ApprovalDecision;
+      decidedBy?: string;
+      title?: string;
+      description?: string;
+      notes?: string;
+    };
+    // 登录后以当前用户作为审批人
+    const decidedBy = actorName(request, body.decidedBy);
+
+    if (!decision || !decidedBy) {
+      reply.status(400);
+      return { error: 'Missing required fields: decision, decidedBy' };
+    }
+
+    if (!['approve', 'reject', 'edit'].includes(decision)) {
+      reply.status(400);
+      return { error: 'Invalid decision: must be approve, reject or edit' };
+    }
+
+    if (decision === 'edit' && !title && !description) {
+      reply.status(400);
+      return { error: 'edit requires title or description' };
+    }
+
+    const subtask = taskScheduler.resolveApproval(taskId, subTaskId, decision, decidedBy, { title, description, notes });
+    if (!subtask) {
+      reply.status(404);
+      return { error: 'Subtask not found or not awaiting approval' };
+    }
+
+    return { success: true, subtask };
+  });
+
+  // ========== 预算 ==========
+
+  /**
+   * GET /api/master/budget/:taskId
+   * 查询任务预算与当前消耗
+   */
+  fastify.get('/api/master/budget/:taskId', async (request) => {
+    const { taskId } = request.params as { taskId: string };
+
+    return {
+      success: true,
+      taskId,
+      budget: budgetManager.getTaskBudget(taskId) || null,
+      usage: budgetManager.getTaskUsage(taskId),
+      global: {
+        ...budgetManager.getGlobalBudget(),
+        usage: budgetManager.getGlobalUsage()
+      }
+    };
+  });
+
   // ========== 状态查询 ==========
 
   /**
@@ -717,10 +1251,26 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
       })}\n\n`);
     };
 
+    const onUsageEvent = (event: UsageEvent) => {
+      reply.raw.write(`data: ${JSON.stringify({
+        type: 'usage',
+        event
+      })}\n\n`);
+    };
+
+    const onBudgetEvent = (event: BudgetEvent) => {
+      reply.raw.write(`data: ${JSON.stringify({
+        type: 'budget',
+        event
+      })}\n\n`);
+    };
+
     taskScheduler.on('event', onSchedulerEvent);
     taskExecutor.on('event', onExecuteEvent);
     collaborationManager.on('event', onCollaborationEvent);
     exceptionHandler.on('event', onExceptionEvent);
+    usageLedger.on('event', onUsageEvent);
+    budgetManager.on('event', onBudgetEvent);
 
     // 发送心跳
     const heartbeat = setInterval(() => {
@@ -738,6 +1288,8 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
       taskExecutor.off('event', onExecuteEvent);
       collaborationManager.off('event', onCollaborationEvent);
       exceptionHandler.off('event', onExceptionEvent);
+      usageLedger.off('event', onUsageEvent);
+      budgetManager.off('event', onBudgetEvent);
     });
   });
 
@@ -760,7 +1312,8 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
         executor: {
           maxRetries: 3,
           retryDelaySeconds: 2,
-          enableProgressStream: true
+          enableProgressStream: true,
+          ...subtaskPrompt.getConfig()
         },
         aggregator: {
           enableAutoAggregate: true,
@@ -770,8 +1323,19 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
           autoRetryEnabled: true,
           humanInterventionThreshold: 'high',
           pauseOnCritical: true
-        }
-      }
+        },
+        provider: getResilienceConfig(),
+        structuredOutput: structuredOutput.getConfig(),
+        models: modelRouter.getRoutes(),
+        budget: budgetManager.getGlobalBudget(),
+        memory: memoryExtractor.getConfig()
+      },
+      presets: presetModels.map(preset => ({
+        id: preset.id,
+        name: preset.name,
+        provider: preset.provider,
+        model: preset.model
+      }))
     };
   });
 
@@ -782,13 +1346,31 @@ export async function registerMasterRoutes(fastify: FastifyInstance) {
   fastify.post('/api/master/config', async (request, reply) => {
     const config = request.body as any;
 
+    // 先校验整个请求，任何一项不合法都不修改配置
+    const invalid = validateConfigUpdate(config);
+    if (invalid) {
+      reply.status(400);
+      return { error: invalid };
+    }
+
     try {
       if (config.scheduler) taskScheduler.updateConfig(config.scheduler);
-      if (config.executor) taskExecutor.updateConfig(config.executor);
+      if (config.executor) {
+        const { dependencyContextMaxChars, dependencyResultMode, ...executor } = config.executor;
+        taskExecutor.updateConfig(executor);
+        subtaskPrompt.updateConfig(Object.fromEntries(
+          Object.entries({ dependencyContextMaxChars, dependencyResultMode }).filter(([, value]) => value !== undefined)
+        ));
+      }
       if (config.aggregator) resultAggregator.updateConfig(config.aggregator);
       if (config.exception) exceptionHandler.updateConfig(config.exception);
+      if (config.provider) configureResilience(config.provider);
+      if (config.structuredOutput) structuredOutput.updateConfig(config.structuredOutput);
+      if (config.memory) memoryExtractor.updateConfig(config.memory);
+      if (config.models) await modelRouter.updateRoutes(config.models as Partial<Record<ModelRole, Partial<ModelRoute>>>);
+      if (config.budget) budgetManager.setGlobalBudget(config.budget);
 
-      return { success: true, config };
+      return { success: true, config: { ...config, models: modelRouter.getRoutes() } };
     } catch (error) {
       reply.status(500);
       return {
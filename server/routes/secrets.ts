@@ -0,0 +1,51 @@
+import { FastifyInstance } from 'fastify';
+import { secretVault } from '../manager/SecretVault.js';
+
+export async function registerSecretRoutes(fastify: FastifyInstance) {
+  // ========== 密钥库 ==========
+
+  /**
+   * GET /api/secrets
+   * 密钥元数据（引用、用途、加密所用主密钥指纹），不返回明文
+   */
+  fastify.get('/api/secrets', async () => {
+    return {
+      success: true,
+      masterKey: secretVault.getKeyInfo(),
+      secrets: secretVault.list()
+    };
+  });
+
+  /**
+   * POST /api/secrets/rotate
+   * 轮换主密钥并重新加密所有密钥
+   * 主密钥来自 SECRETS_MASTER_KEY 时必须在 newMasterKey 中提供新密钥，完成后更新环境变量再重启
+   */
+  fastify.post('/api/secrets/rotate', async (request, reply) => {
+    const { newMasterKey } = (request.body || {}) as { newMasterKey?: string };
+
+    if (newMasterKey !== undefined && (typeof newMasterKey !== 'string' || newMasterKey.trim().length < 16)) {
+      reply.status(400);
+      return { error: 'newMasterKey must be a string of at least 16 characters' };
+    }
+    if (!newMasterKey && secretVault.getKeyInfo().source === 'env') {
+      reply.status(400);
+      return { error: 'Master key comes from SECRETS_MASTER_KEY, newMasterKey is required' };
+    }
+
+    try {
+      const result = await secretVault.rotate(newMasterKey);
+      return {
+        success: true,
+        ...result,
+        message: result.source === 'env' ? '密钥已重新加密，请将 SECRETS_MASTER_KEY 更新为新密钥后重启' : undefined
+      };
+    } catch (error) {
+      reply.status(500);
+      return {
+        error: 'Failed to rotate master key',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  });
+}
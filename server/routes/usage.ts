@@ -0,0 +1,87 @@
+import { FastifyInstance } from 'fastify';
+import { usageLedger, type ModelPrice } from '../manager/UsageLedger.js';
+
+export async function registerUsageRoutes(fastify: FastifyInstance) {
+  // ========== 用量统计 ==========
+
+  /**
+   * GET /api/usage
+   * 全局用量汇总（按 Agent / 任务 / 子任务 / 模型）
+   */
+  fastify.get('/api/usage', async () => {
+    return {
+      success: true,
+      usage: usageLedger.getSummary()
+    };
+  });
+
+  /**
+   * GET /api/usage/tasks/:taskId
+   * 单个任务的用量汇总
+   */
+  fastify.get('/api/usage/tasks/:taskId', async (request) => {
+    const { taskId } = request.params as { taskId: string };
+    return {
+      success: true,
+      taskId,
+      usage: usageLedger.getTaskUsage(taskId)
+    };
+  });
+
+  /**
+   * GET /api/usage/entries
+   * 用量明细（可按任务过滤）
+   */
+  fastify.get('/api/usage/entries', async (request) => {
+    const { taskId, limit } = request.query as { taskId?: string; limit?: string };
+    const entries = usageLedger.getEntries(taskId);
+    const max = limit ? parseInt(limit) : 100;
+    return {
+      success: true,
+      entries: entries.slice(-max),
+      total: entries.length
+    };
+  });
+
+  // ========== 价格表 ==========
+
+  /**
+   * GET /api/usage/prices
+   * 获取价格表（每百万 Token）
+   */
+  fastify.get('/api/usage/prices', async () => {
+    const { currency, prices } = usageLedger.getConfig();
+    return { success: true, currency, prices };
+  });
+
+  /**
+   * PUT /api/usage/prices
+   * 更新价格表（按模型合并）
+   */
+  fastify.put('/api/usage/prices', async (request, reply) => {
+    const { currency, prices } = request.body as {
+      currency?: string;
+      prices?: Record<string, ModelPrice>;
+    };
+
+    if (!currency && !prices) {
+      reply.status(400);
+      return { error: 'Missing required field: currency or prices' };
+    }
+
+    for (const [model, price] of Object.entries(prices || {})) {
+      if (typeof price?.prompt !== 'number' || typeof price?.completion !== 'number' || price.prompt < 0 || price.completion < 0) {
+        reply.status(400);
+        return { error: `Invalid price for model: ${model}` };
+      }
+    }
+
+    usageLedger.updateConfig({
+      ...(currency && { currency }),
+      ...(prices && { prices })
+    });
+
+    const config = usageLedger.getConfig();
+    return { success: true, currency: config.currency, prices: config.prices };
+  });
+}
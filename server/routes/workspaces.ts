@@ -0,0 +1,114 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { workspaceManager, WorkspaceError } from '../manager/WorkspaceManager.js';
+import { DEFAULT_WORKSPACE_ID, runInWorkspace } from '../manager/WorkspaceContext.js';
+import { actorName } from './auth.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    workspaceId: string;
+  }
+}
+
+// 与工作区无关的接口（工作区不存在时也可访问，便于前端恢复）
+const GLOBAL_PREFIXES = ['/api/health', '/api/auth', '/api/workspaces', '/api/secrets'];
+
+/**
+ * 读取请求选择的工作区：X-Workspace-Id 请求头，EventSource / WebSocket 使用 ?workspace= 查询参数
+ */
+function requestedWorkspace(request: FastifyRequest): string {
+  const header = request.headers['x-workspace-id'];
+  if (typeof header === 'string' && header) return header;
+
+  const { workspace } = (request.query || {}) as { workspace?: string };
+  return workspace || DEFAULT_WORKSPACE_ID;
+}
+
+export async function registerWorkspaceRoutes(fastify: FastifyInstance) {
+  // 路由处理在所选工作区的上下文中执行（preHandler 在请求体解析之后，保证上下文延续到处理函数）
+  fastify.decorateRequest('workspaceId', DEFAULT_WORKSPACE_ID);
+  fastify.addHook('preHandler', (request, reply, done) => {
+    const path = request.url.split('?')[0];
+    if (!/^\/(api|ws)(\/|$)/.test(path) || GLOBAL_PREFIXES.some(prefix => path.startsWith(prefix))) {
+      return done();
+    }
+
+    const workspaceId = requestedWorkspace(request);
+    if (!workspaceManager.has(workspaceId)) {
+      reply.status(404).send({ error: 'Workspace not found', message: `Unknown workspace: ${workspaceId}` });
+      return;
+    }
+    request.workspaceId = workspaceId;
+    runInWorkspace(workspaceId, done);
+  });
+
+  /**
+   * GET /api/workspaces
+   * 工作区列表及概况
+   */
+  fastify.get('/api/workspaces', async () => {
+    return { success: true, workspaces: workspaceManager.list() };
+  });
+
+  /**
+   * POST /api/workspaces
+   * 创建工作区（可指定 id，否则自动生成）
+   */
+  fastify.post('/api/workspaces', async (request, reply) => {
+    const { name, id, description } = (request.body || {}) as { name?: string; id?: string; description?: string };
+
+    if (!name) {
+      reply.status(400);
+      return { error: 'Missing required field: name' };
+    }
+
+    try {
+      const workspace = await workspaceManager.create(name, { id, description, createdBy: actorName(request) });
+      return { success: true, workspace };
+    } catch (error) {
+      reply.status(error instanceof WorkspaceError ? error.status : 500);
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  /**
+   * POST /api/workspaces/:id/clone
+   * 克隆工作区的 Agent 到新工作区
+   */
+  fastify.post('/api/workspaces/:id/clone', async (request, reply) => {
+    const { id: sourceId } = request.params as { id: string };
+    const { name, id, description } = (request.body || {}) as { name?: string; id?: string; description?: string };
+
+    if (!name) {
+      reply.status(400);
+      return { error: 'Missing required field: name' };
+    }
+
+    try {
+      const workspace = await workspaceManager.clone(sourceId, name, { id, description, createdBy: actorName(request) });
+      return { success: true, workspace };
+    } catch (error) {
+      reply.status(error instanceof WorkspaceError ? error.status : 500);
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  /**
+   * DELETE /api/workspaces/:id
+   * 删除工作区及其数据
+   */
+  fastify.delete('/api/workspaces/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const deleted = await workspaceManager.delete(id);
+      if (!deleted) {
+        reply.status(404);
+        return { error: 'Workspace not found' };
+      }
+      return { success: true };
+    } catch (error) {
+      reply.status(error instanceof WorkspaceError ? error.status : 500);
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+}
@@ -1,23 +1,120 @@
 // 基础类型定义
 export type AgentStatus = 'idle' | 'thinking' | 'typing' | 'error' | 'success';
 
+// 工具定义（parameters 为 JSON Schema）
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// 模型发起的工具调用
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// 消息内容片段：文本、图片（base64 或 URL）、文件引用
+export interface TextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImagePart {
+  type: 'image';
+  mimeType?: string;  // base64 图片必填，如 image/png
+  data?: string;      // base64 内容（不含 data: 前缀），与 url 二选一
+  url?: string;
+}
+
+export interface FilePart {
+  type: 'file';
+  name: string;
+  mimeType: string;   // 如 application/pdf、text/plain
+  data?: string;      // base64 内容，与 url 二选一
+  url?: string;
+}
+
+export type ContentPart = TextPart | ImagePart | FilePart;
+
+// 随消息上传的附件
+export type Attachment = ImagePart | FilePart;
+
+// 纯文本或多模态片段数组
+export type MessageContent = string | ContentPart[];
+
 export interface Message {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: MessageContent;
+  // assistant 消息：本轮发起的工具调用
+  toolCalls?: ToolCall[];
+  // tool 消息：对应的工具调用 ID 与工具名
+  toolCallId?: string;
+  name?: string;
+}
+
+// 对话选项
+export interface ChatOptions {
+  tools?: ToolDefinition[];
+  signal?: AbortSignal;  // 取消信号：中止后立即停止请求并抛出错误
+  responseFormat?: ResponseFormat;  // 要求返回 JSON，支持原生结构化输出的适配器会传给供应商
+}
+
+// JSON Schema（结构化输出校验使用的子集）
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null' |
+    Array<'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'>;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean>;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+// 结构化输出格式
+export interface ResponseFormat {
+  name: string;
+  schema: JsonSchema;
+}
+
+// Token 用量
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 export interface ChatResponse {
   content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  toolCalls?: ToolCall[];
+  usage?: TokenUsage;
+  // 实际应答的模型（仅备用模型链返回）
+  servedBy?: ServedModel;
 }
 
 export interface StreamChunk {
   content: string;
   done: boolean;
+  // 流结束前汇总的工具调用
+  toolCalls?: ToolCall[];
+  // 结束分片上报的 Token 用量
+  usage?: TokenUsage;
+  // 结束分片上报实际应答的模型（仅备用模型链返回）
+  servedBy?: ServedModel;
+}
+
+// 实际应答的模型：fallbackIndex 为 0 表示主模型，n 表示 fallbacks[n - 1]
+export interface ServedModel {
+  provider: string;
+  model: string;
+  name: string;
+  fallbackIndex: number;
+  failures?: Array<{ model: string; error: string }>;  // 切换前失败的模型
 }
 
 export interface ModelConfig {
@@ -25,11 +122,27 @@ export interface ModelConfig {
   name: string;
   provider: string;
   baseUrl: string;
-  apiKey?: string;
+  apiKey?: string;     // 仅用于临时配置（连接测试、模型发现）和创建请求，保存前存入密钥库
+  apiKeyRef?: string;  // 密钥库引用（secret://...），适配器请求时解析
   model: string;
   temperature?: number;
   maxTokens?: number;
+  contextWindow?: number;     // 上下文长度（tokens），未设置时按模型名从内置目录查找
   enabled: boolean;
+  fallbacks?: ModelConfig[];  // 主模型出现可重试错误时依次尝试的备用模型
+}
+
+// 模型发现结果：供应商可用模型及其上下文窗口和能力
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextWindow?: number;  // 上下文窗口（tokens），未知时为空
+  capabilities: {
+    streaming: boolean;
+    tools?: boolean;       // 未知时为空
+    vision?: boolean;
+  };
+  source: 'provider' | 'catalog';  // provider：供应商接口返回；catalog：内置目录
 }
 
 export interface AgentInstance {
@@ -40,10 +153,36 @@ export interface AgentInstance {
   currentMessage?: string;
   lastActive: number;
   conversationHistory: Message[];
+  contextSummary?: ContextSummary;  // 已移出历史的较早对话的摘要
+  recalledMemories?: RecalledMemory[];  // 最近一次对话检索并注入的记忆
+  profile?: AgentProfile;               // 从灵魂文件和技能文件加载，文件变化时重新加载
+}
+
+// Agent 的身份与技能（灵魂文件和技能文件中已启用的技能）
+export interface AgentProfile {
+  name: string;
+  role: string;
+  personality: string;
+  skills: string[];
+}
+
+// 从记忆文件中检索出、随系统提示词发送的记忆
+export interface RecalledMemory {
+  id: string;       // memory:<id> / workFile:<序号> / conversation:<id>
+  source: 'memory' | 'workFile' | 'conversation';
+  content: string;
+  score: number;    // 相关度（仅在同一次检索内可比较）
+}
+
+// 滚动摘要：较早的对话压缩后作为记忆随系统提示词发送
+export interface ContextSummary {
+  content: string;
+  summarizedMessages: number;  // 累计被摘要的消息数
+  updatedAt: number;
 }
 
 export interface SSEEvent {
-  type: 'state_change' | 'message_chunk' | 'message_complete' | 'error' | 'heartbeat';
+  type: 'state_change' | 'message_chunk' | 'message_complete' | 'tool_call' | 'tool_result' | 'memory_recall' | 'error' | 'cancelled' | 'heartbeat';
   agentId: string;
   data: any;
   timestamp: number;
@@ -5,14 +5,17 @@ import { AgentPanel } from './components/AgentPanel';
 import { ConnectionStatus } from './components/ConnectionStatus';
 import { VersionInfo } from './components/VersionInfo';
 import { MasterAgentPanel } from './components/MasterAgent';
+import { LoginPanel } from './components/LoginPanel';
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher';
 import { useAgentStore, initAgentStoreListeners } from './store/agentStore';
+import { useAuthStore } from './store/authStore';
 import type { ModelConfig } from './types';
 import './App.css';
 
 // 视图模式
 type ViewMode = 'master' | 'agents';
 
-function App() {
+function AgentConsole() {
   const [isModelModalOpen, setIsModelModalOpen] = useState(false);
   const [showDemoButton, setShowDemoButton] = useState(true);
   const [viewMode, setViewMode] = useState<ViewMode>('master'); // 默认显示总指挥
@@ -27,10 +30,11 @@ function App() {
     startDemoMode, 
     stopDemoMode 
   } = useAgentStore();
+  const { user, authEnabled, logout, hasRole } = useAuthStore();
 
   // 初始化监听器
   useEffect(() => {
-    initAgentStoreListeners();
+    return initAgentStoreListeners();
   }, []);
 
   const handleCreateAgent = useCallback(async (name: string, config: ModelConfig) => {
@@ -87,13 +91,16 @@ function App() {
           </div>
         </div>
         <div className="header-right">
+          <WorkspaceSwitcher />
           <ConnectionStatus isConnected={isConnected} />
-          <button 
-            className="btn-primary"
-            onClick={() => setIsModelModalOpen(true)}
-          >
-            + 添加 Agent
-          </button>
+          {hasRole('admin') && (
+            <button 
+              className="btn-primary"
+              onClick={() => setIsModelModalOpen(true)}
+            >
+              + 添加 Agent
+            </button>
+          )}
           {viewMode === 'agents' && (
             <button 
               className={`btn-secondary ${!showDemoButton ? 'active' : ''}`}
@@ -102,6 +109,15 @@ function App() {
               {showDemoButton ? '▶ 演示模式' : '⏹ 停止演示'}
             </button>
           )}
+          {authEnabled && user && (
+            <div className="auth-user">
+              <span>{user.name}</span>
+              <span className={`auth-role ${user.role}`}>{user.role}</span>
+              <button className="btn-secondary" onClick={logout}>
+                退出
+              </button>
+            </div>
+          )}
         </div>
       </header>
       
@@ -144,4 +160,23 @@ function App() {
   );
 }
 
+/**
+ * 根组件：恢复登录状态，未登录时显示登录面板
+ */
+function App() {
+  const { status, checkSession } = useAuthStore();
+
+  useEffect(() => {
+    checkSession();
+  }, [checkSession]);
+
+  if (status === 'checking') {
+    return <div className="app-loading">加载中...</div>;
+  }
+  if (status === 'anonymous') {
+    return <LoginPanel />;
+  }
+  return <AgentConsole />;
+}
+
 export default App;
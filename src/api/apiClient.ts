@@ -1,4 +1,5 @@
-import type { ModelConfig, AgentInstance } from '../types';
+import type { ModelConfig, ModelInfo, AgentInstance, Attachment, RecalledMemory } from '../types';
+import { authFetch } from './auth';
 
 // 后端服务地址 - 本地开发
 const API_BASE_URL = 'http://localhost:3001';
@@ -6,6 +7,8 @@ const API_BASE_URL = 'http://localhost:3001';
 export interface ChatChunk {
   content: string;
   done: boolean;
+  error?: string;  // 服务端处理失败（如模型不支持附件）
+  memories?: RecalledMemory[];  // 本次对话注入的记忆
 }
 
 export interface TestConnectionResult {
@@ -13,6 +16,12 @@ export interface TestConnectionResult {
   message: string;
 }
 
+export interface DiscoverModelsResult {
+  models: ModelInfo[];
+  cached: boolean;
+  fetchedAt: number;
+}
+
 class ApiClient {
   private baseUrl: string;
 
@@ -22,7 +31,7 @@ class ApiClient {
 
   // 获取模型列表
   async getModels(): Promise<{ presets: ModelConfig[]; agents: any[] }> {
-    const response = await fetch(`${this.baseUrl}/api/models`);
+    const response = await authFetch(`${this.baseUrl}/api/models`);
     if (!response.ok) {
       throw new Error(`Failed to fetch models: ${response.statusText}`);
     }
@@ -31,7 +40,7 @@ class ApiClient {
 
   // 创建 Agent
   async createAgent(name: string, modelConfig: ModelConfig): Promise<{ success: boolean; agent: AgentInstance }> {
-    const response = await fetch(`${this.baseUrl}/api/agents`, {
+    const response = await authFetch(`${this.baseUrl}/api/agents`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ name, modelConfig })
@@ -44,7 +53,7 @@ class ApiClient {
 
   // 获取所有 Agents
   async getAgents(): Promise<AgentInstance[]> {
-    const response = await fetch(`${this.baseUrl}/api/agents`);
+    const response = await authFetch(`${this.baseUrl}/api/agents`);
     if (!response.ok) {
       throw new Error(`Failed to fetch agents: ${response.statusText}`);
     }
@@ -53,7 +62,7 @@ class ApiClient {
 
   // 删除 Agent
   async deleteAgent(id: string): Promise<{ success: boolean }> {
-    const response = await fetch(`${this.baseUrl}/api/agents/${id}`, {
+    const response = await authFetch(`${this.baseUrl}/api/agents/${id}`, {
       method: 'DELETE'
     });
     if (!response.ok) {
@@ -64,7 +73,7 @@ class ApiClient {
 
   // 测试模型连接
   async testModelConnection(config: ModelConfig): Promise<TestConnectionResult> {
-    const response = await fetch(`${this.baseUrl}/api/models/test`, {
+    const response = await authFetch(`${this.baseUrl}/api/models/test`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(config)
@@ -75,19 +84,34 @@ class ApiClient {
     return response.json();
   }
 
+  // 查询供应商的可用模型（refresh 为 true 时跳过服务端缓存）
+  async discoverModels(config: ModelConfig, refresh = false): Promise<DiscoverModelsResult> {
+    const response = await authFetch(`${this.baseUrl}/api/models/discover`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...config, refresh })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `Failed to discover models: ${response.statusText}`);
+    }
+    return data;
+  }
+
   // 发送消息（返回取消函数）
   async sendMessage(
     agentId: string, 
     message: string, 
     onChunk: (chunk: ChatChunk) => void,
     onComplete: () => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    attachments?: Attachment[]
   ): Promise<() => void> {
     // 使用 fetch 读取流式响应
-    const response = await fetch(`${this.baseUrl}/api/chat/${agentId}`, {
+    const response = await authFetch(`${this.baseUrl}/api/chat/${agentId}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ message })
+      body: JSON.stringify({ message, attachments })
     });
 
     if (!response.ok) {
@@ -151,7 +175,7 @@ class ApiClient {
     onComplete: () => void,
     onError: (error: Error) => void
   ): Promise<() => void> {
-    const response = await fetch(`${this.baseUrl}/api/agents/${fromAgentId}/chat/${toAgentId}`, {
+    const response = await authFetch(`${this.baseUrl}/api/agents/${fromAgentId}/chat/${toAgentId}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ message })
@@ -210,7 +234,7 @@ class ApiClient {
 
   // 获取对话历史
   async getAgentHistory(agentId: string): Promise<{ history: any[] }> {
-    const response = await fetch(`${this.baseUrl}/api/agents/${agentId}/history`);
+    const response = await authFetch(`${this.baseUrl}/api/agents/${agentId}/history`);
     if (!response.ok) {
       throw new Error(`Failed to fetch history: ${response.statusText}`);
     }
@@ -219,7 +243,7 @@ class ApiClient {
 
   // 清空对话历史
   async clearAgentHistory(agentId: string): Promise<{ success: boolean }> {
-    const response = await fetch(`${this.baseUrl}/api/agents/${agentId}/history`, {
+    const response = await authFetch(`${this.baseUrl}/api/agents/${agentId}/history`, {
       method: 'DELETE'
     });
     if (!response.ok) {
@@ -0,0 +1,71 @@
+// 登录令牌存储与带认证的请求封装
+
+import { getWorkspaceId } from './workspace';
+
+const TOKEN_STORAGE_KEY = 'ai-agent-viz:auth-token';
+
+type UnauthorizedListener = () => void;
+const unauthorizedListeners: Set<UnauthorizedListener> = new Set();
+
+/**
+ * 当前登录令牌
+ */
+export function getAuthToken(): string | null {
+  try {
+    return localStorage.getItem(TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 保存或清除登录令牌
+ */
+export function setAuthToken(token: string | null): void {
+  try {
+    if (token) {
+      localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    } else {
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+  } catch {
+    // localStorage 不可用时只在本次请求中生效
+  }
+}
+
+/**
+ * 订阅 401（会话过期或被注销），返回取消订阅函数
+ */
+export function onUnauthorized(listener: UnauthorizedListener): () => void {
+  unauthorizedListeners.add(listener);
+  return () => unauthorizedListeners.delete(listener);
+}
+
+/**
+ * 带 Authorization 和 X-Workspace-Id 头的 fetch，收到 401 时通知订阅者
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const token = getAuthToken();
+  const headers = new Headers(init.headers);
+  if (token && !headers.has('Authorization')) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  if (!headers.has('X-Workspace-Id')) {
+    headers.set('X-Workspace-Id', getWorkspaceId());
+  }
+
+  const response = await fetch(input, { ...init, headers });
+  if (response.status === 401) {
+    unauthorizedListeners.forEach(listener => listener());
+  }
+  return response;
+}
+
+/**
+ * EventSource / WebSocket 无法设置请求头，令牌通过 access_token 查询参数传递
+ */
+export function withAccessToken(url: string): string {
+  const token = getAuthToken();
+  if (!token) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}access_token=${encodeURIComponent(token)}`;
+}
@@ -1,4 +1,6 @@
 import type { SSEEvent } from '../types';
+import { withAccessToken } from './auth';
+import { withWorkspace } from './workspace';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -24,7 +26,7 @@ class SSEClient {
     const url = `${API_BASE_URL}/api/stream/${agentId}`;
     
     console.log(`[SSE] Connecting to ${url}`);
-    this.eventSource = new EventSource(url);
+    this.eventSource = new EventSource(withWorkspace(withAccessToken(url)));
 
     this.eventSource.onopen = () => {
       console.log('[SSE] Connection opened');
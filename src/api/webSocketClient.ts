@@ -1,4 +1,6 @@
 import type { SSEEvent } from '../types';
+import { withAccessToken } from './auth';
+import { withWorkspace } from './workspace';
 
 // 后端服务地址 - Railway 部署
 const API_BASE_URL = 'https://web-production-4e163.up.railway.app';
@@ -29,7 +31,7 @@ class WebSocketClient {
     this.notifyStatusChange('connecting');
 
     try {
-      this.ws = new WebSocket(WS_URL);
+      this.ws = new WebSocket(withWorkspace(withAccessToken(WS_URL)));
 
       this.ws.onopen = () => {
         console.log('[WS] Connection opened');
@@ -0,0 +1,34 @@
+// 当前工作区：REST 请求通过 X-Workspace-Id 请求头，EventSource / WebSocket 通过 workspace 查询参数传递
+
+const WORKSPACE_STORAGE_KEY = 'ai-agent-viz:workspace';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+/**
+ * 当前工作区 ID
+ */
+export function getWorkspaceId(): string {
+  try {
+    return localStorage.getItem(WORKSPACE_STORAGE_KEY) || DEFAULT_WORKSPACE_ID;
+  } catch {
+    return DEFAULT_WORKSPACE_ID;
+  }
+}
+
+/**
+ * 保存当前工作区 ID
+ */
+export function setWorkspaceId(workspaceId: string): void {
+  try {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, workspaceId);
+  } catch {
+    // localStorage 不可用时只在本次页面中生效
+  }
+}
+
+/**
+ * 为流式连接地址附加工作区参数
+ */
+export function withWorkspace(url: string): string {
+  return `${url}${url.includes('?') ? '&' : '?'}workspace=${encodeURIComponent(getWorkspaceId())}`;
+}
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { useAgentStore } from '../store/agentStore';
 import type { Agent } from '../store/agentStore';
+import type { Attachment } from '../types';
+import { AttachmentPicker } from './AttachmentPicker';
 import './AgentPanel.css';
 
 interface AgentPanelProps {
@@ -11,18 +13,22 @@ interface AgentPanelProps {
 export const AgentPanel: React.FC<AgentPanelProps> = ({ agent, onDelete }) => {
   const [message, setMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
   const { agents, sendMessageToAgent, sendMessageBetweenAgents } = useAgentStore();
   
   // 获取其他 Agents（用于协作）
   const otherAgents = agents.filter(a => a.id !== agent.id);
 
   const handleSendMessage = async () => {
-    if (!message.trim()) return;
+    if (!message.trim() && attachments.length === 0) return;
     
     setIsSending(true);
     try {
-      await sendMessageToAgent(agent.id, message);
+      await sendMessageToAgent(agent.id, message, attachments.length > 0 ? attachments : undefined);
       setMessage('');
+      setAttachments([]);
+      setAttachmentError(null);
     } finally {
       setIsSending(false);
     }
@@ -104,7 +110,7 @@ export const AgentPanel: React.FC<AgentPanelProps> = ({ agent, onDelete }) => {
           />
           <button
             onClick={handleSendMessage}
-            disabled={isSending || !message.trim()}
+            disabled={isSending || (!message.trim() && attachments.length === 0)}
             className="send-btn"
           >
             {isSending ? (
@@ -115,8 +121,31 @@ export const AgentPanel: React.FC<AgentPanelProps> = ({ agent, onDelete }) => {
             ) : '发送'}
           </button>
         </div>
+        <AttachmentPicker
+          attachments={attachments}
+          onChange={(next) => {
+            setAttachments(next);
+            setAttachmentError(null);
+          }}
+          onError={setAttachmentError}
+          disabled={isSending}
+        />
+        {attachmentError && <div className="attachment-error">{attachmentError}</div>}
       </div>
 
+      {agent.recalledMemories && agent.recalledMemories.length > 0 && (
+        <div className="recalled-memories">
+          <strong>引用的记忆:</strong>
+          <ul>
+            {agent.recalledMemories.map((memory) => (
+              <li key={memory.id} title={`相关度 ${memory.score}`}>
+                {memory.source === 'workFile' ? `📄 ${memory.content}` : memory.content}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {agent.message && (
         <div className="response-box">
           <strong>最新响应:</strong>
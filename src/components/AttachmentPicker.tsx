@@ -0,0 +1,109 @@
+import React, { useRef } from 'react';
+import type { Attachment } from '../types';
+import './AttachmentPicker.css';
+
+interface AttachmentPickerProps {
+  attachments: Attachment[];
+  onChange: (attachments: Attachment[]) => void;
+  onError?: (message: string) => void;
+  disabled?: boolean;
+}
+
+// 单个附件大小上限
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * 读取本地文件为 base64 附件：图片转为 image 片段，其他文件转为 file 片段
+ */
+function readAttachment(file: File): Promise<Attachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const data = String(reader.result).split(',')[1] || '';
+      const mimeType = file.type || 'application/octet-stream';
+      resolve(mimeType.startsWith('image/')
+        ? { type: 'image', mimeType, data }
+        : { type: 'file', name: file.name, mimeType, data });
+    };
+    reader.onerror = () => reject(reader.error || new Error(`读取 ${file.name} 失败`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * 附件选择：添加图片并预览，点击 ✕ 移除
+ */
+export const AttachmentPicker: React.FC<AttachmentPickerProps> = ({
+  attachments,
+  onChange,
+  onError,
+  disabled = false
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // 允许重复选择同一文件
+    e.target.value = '';
+
+    const tooLarge = files.filter(file => file.size > MAX_FILE_SIZE);
+    if (tooLarge.length > 0) {
+      onError?.(`附件不能超过 10MB：${tooLarge.map(file => file.name).join('、')}`);
+    }
+
+    try {
+      const added = await Promise.all(files.filter(file => file.size <= MAX_FILE_SIZE).map(readAttachment));
+      onChange([...attachments, ...added]);
+    } catch (err) {
+      onError?.(err instanceof Error ? err.message : '读取附件失败');
+    }
+  };
+
+  const removeAttachment = (index: number) => {
+    onChange(attachments.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="attachment-picker">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        hidden
+        onChange={handleFiles}
+      />
+      <button
+        type="button"
+        className="attachment-add-btn"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+      >
+        📎 添加图片
+      </button>
+
+      {attachments.length > 0 && (
+        <div className="attachment-list">
+          {attachments.map((attachment, index) => (
+            <div key={index} className="attachment-item">
+              {attachment.type === 'image' ? (
+                <img src={attachment.url || `data:${attachment.mimeType};base64,${attachment.data}`} alt={`附件 ${index + 1}`} />
+              ) : (
+                <span className="attachment-file">📄 {attachment.name}</span>
+              )}
+              <button
+                type="button"
+                className="attachment-remove-btn"
+                onClick={() => removeAttachment(index)}
+                disabled={disabled}
+                title="移除附件"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { useAuthStore } from '../store/authStore';
+import './LoginPanel.css';
+
+/**
+ * 登录面板 - 认证开启且未登录时显示
+ */
+export const LoginPanel: React.FC = () => {
+  const { login, error } = useAuthStore();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username || !password) return;
+
+    setIsSubmitting(true);
+    const success = await login(username, password);
+    setIsSubmitting(false);
+    if (success) setPassword('');
+  };
+
+  return (
+    <div className="login-screen">
+      <form className="login-panel" onSubmit={handleSubmit}>
+        <h1>🤖 AI Agent 总指挥系统</h1>
+        <p className="login-subtitle">请登录后继续</p>
+
+        <label>
+          用户名
+          <input
+            type="text"
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+          />
+        </label>
+
+        <label>
+          密码
+          <input
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            autoComplete="current-password"
+          />
+        </label>
+
+        {error && <div className="login-error">{error}</div>}
+
+        <button type="submit" className="btn-primary" disabled={isSubmitting || !username || !password}>
+          {isSubmitting ? '登录中...' : '登录'}
+        </button>
+      </form>
+    </div>
+  );
+};
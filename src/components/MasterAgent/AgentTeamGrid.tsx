@@ -1,11 +1,12 @@
 import React from 'react';
-import type { SubAgent } from '../../store/masterStore';
+import type { SubAgent, Subtask } from '../../store/masterStore';
 import './AgentTeamGrid.css';
 
 interface AgentTeamGridProps {
   agents: SubAgent[];
   onAgentClick?: (agent: SubAgent) => void;
   selectedAgentId?: string;
+  subtasks?: Subtask[];
 }
 
 const AGENT_AVATARS: Record<string, string> = {
@@ -41,10 +42,14 @@ const getStatusConfig = (status: SubAgent['status']) => {
   }
 };
 
+// 子任务等待审批时，Agent 显示为待审批
+const AWAITING_APPROVAL_CONFIG = { color: '#f59e0b', bgColor: '#78350f', label: '待审批', icon: '⏸️' };
+
 export const AgentTeamGrid: React.FC<AgentTeamGridProps> = ({ 
   agents, 
   onAgentClick,
-  selectedAgentId 
+  selectedAgentId,
+  subtasks = []
 }) => {
   if (agents.length === 0) {
     return (
@@ -58,6 +63,12 @@ export const AgentTeamGrid: React.FC<AgentTeamGridProps> = ({
     );
   }
 
+  const awaitingAgentIds = new Set(
+    subtasks
+      .filter(st => st.status === 'awaiting_approval' && st.assignedAgentId)
+      .map(st => st.assignedAgentId)
+  );
+
   return (
     <div className="agent-team-grid">
       <div className="grid-header">
@@ -69,19 +80,23 @@ export const AgentTeamGrid: React.FC<AgentTeamGridProps> = ({
           <span className="stat completed">
             {agents.reduce((sum, a) => sum + a.completedTasks, 0)} 已完成
           </span>
+          {awaitingAgentIds.size > 0 && (
+            <span className="stat awaiting">{awaitingAgentIds.size} 待审批</span>
+          )}
         </div>
       </div>
       
       <div className="grid-content">
         {agents.map(agent => {
-          const statusConfig = getStatusConfig(agent.status);
+          const isAwaitingApproval = awaitingAgentIds.has(agent.id);
+          const statusConfig = isAwaitingApproval ? AWAITING_APPROVAL_CONFIG : getStatusConfig(agent.status);
           const isSelected = selectedAgentId === agent.id;
           const avatar = getDefaultAvatar(agent.name);
 
           return (
             <div
               key={agent.id}
-              className={`agent-card ${isSelected ? 'selected' : ''} ${agent.status}`}
+              className={`agent-card ${isSelected ? 'selected' : ''} ${isAwaitingApproval ? 'awaiting_approval' : agent.status}`}
               onClick={() => onAgentClick?.(agent)}
               style={{ '--status-color': statusConfig.color } as React.CSSProperties}
             >
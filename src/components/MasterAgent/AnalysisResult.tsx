@@ -1,20 +1,26 @@
 import React, { useState } from 'react';
 import type { TaskAnalysis, TaskResult } from '../../store/masterStore';
+import { PlanEditor } from './PlanEditor';
 import './AnalysisResult.css';
 
 interface AnalysisResultProps {
   analysis: TaskAnalysis;
   taskResult: TaskResult | null;
+  streaming?: boolean; // 流式分析中：只展示已生成的推理和子任务
 }
 
 export const AnalysisResult: React.FC<AnalysisResultProps> = ({
   analysis,
-  taskResult
+  taskResult,
+  streaming = false
 }) => {
   const [expandedSubtasks, setExpandedSubtasks] = useState<Set<string>>(new Set());
   const [activeTab, setActiveTab] = useState<'analysis' | 'progress'>(
     taskResult ? 'progress' : 'analysis'
   );
+  const [isEditing, setIsEditing] = useState(false);
+  // 任务提交执行后计划不可再编辑，分析完成前也不可编辑
+  const editable = !taskResult && !streaming;
 
   // 切换子任务展开状态
   const toggleSubtask = (subtaskId: string) => {
@@ -48,8 +54,12 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
         return { icon: '✅', color: '#4ade80' };
       case 'running':
         return { icon: '🔄', color: '#60a5fa' };
+      case 'awaiting_approval':
+        return { icon: '⏸️', color: '#f59e0b' };
       case 'failed':
         return { icon: '❌', color: '#f87171' };
+      case 'cancelled':
+        return { icon: '⏹️', color: '#94a3b8' };
       default:
         return { icon: '⏳', color: '#94a3b8' };
     }
@@ -90,23 +100,38 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
       {activeTab === 'analysis' ? (
         <>
           {/* 任务概览 */}
-          <div className="analysis-header">
-            <div className="complexity-badge"
-              style={{
-                backgroundColor: complexityStyle.bg,
-                color: complexityStyle.text,
-                borderColor: complexityStyle.border
-              }}
-            >
-              {analysis.complexity === 'simple' && '简单任务'}
-              {analysis.complexity === 'medium' && '中等任务'}
-              {analysis.complexity === 'complex' && '复杂任务'}
+          {streaming ? (
+            <div className="analysis-header">
+              <div className="analysis-streaming">🔄 正在分析，已生成 {analysis.subtasks.length} 个子任务...</div>
             </div>
+          ) : (
+            <div className="analysis-header">
+              <div className="complexity-badge"
+                style={{
+                  backgroundColor: complexityStyle.bg,
+                  color: complexityStyle.text,
+                  borderColor: complexityStyle.border
+                }}
+              >
+                {analysis.complexity === 'simple' && '简单任务'}
+                {analysis.complexity === 'medium' && '中等任务'}
+                {analysis.complexity === 'complex' && '复杂任务'}
+              </div>
             
-            <div className="time-estimate">
-              ⏱️ 预计 {formatTime(analysis.estimatedTime)}
+              <div className="time-estimate">
+                ⏱️ 预计 {formatTime(analysis.estimatedTime)}
+              </div>
             </div>
-          </div>
+          )}
+
+          {/* 解析提示（部分子任务格式无效被丢弃） */}
+          {analysis.warnings && analysis.warnings.length > 0 && (
+            <div className="analysis-warnings">
+              {analysis.warnings.map((warning, index) => (
+                <p key={index}>⚠️ {warning}</p>
+              ))}
+            </div>
+          )}
 
           {/* 分析理由 */}
           {analysis.reasoning && (
@@ -129,78 +154,94 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
           )}
 
           {/* 推荐配置 */}
-          <div className="recommendation-section">
-            <div className="recommendation-item">
-              <span className="label">推荐Agent数</span>
-              <span className="value">{analysis.recommendedAgents} 个</span>
-            </div>
-            <div className="recommendation-item">
-              <span className="label">子任务数</span>
-              <span className="value">{analysis.subtasks.length} 个</span>
+          {!streaming && (
+            <div className="recommendation-section">
+              <div className="recommendation-item">
+                <span className="label">推荐Agent数</span>
+                <span className="value">{analysis.recommendedAgents} 个</span>
+              </div>
+              <div className="recommendation-item">
+                <span className="label">子任务数</span>
+                <span className="value">{analysis.subtasks.length} 个</span>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* 子任务列表 */}
-          {analysis.subtasks.length > 0 && (
+          {(analysis.subtasks.length > 0 || editable || streaming) && (
             <div className="subtasks-section">
-              <h4>📋 子任务分解</h4>
-              <div className="subtasks-list">
-                {analysis.subtasks.map((subtask, index) => {
-                  const resultSubtask = taskResult?.subtasks.find(
-                    st => st.id === subtask.id
-                  );
-                  const currentStatus = resultSubtask?.status || subtask.status;
-                  const statusStyle = getStatusStyle(currentStatus);
-                  const isExpanded = expandedSubtasks.has(subtask.id);
-                  
-                  return (
-                    <div
-                      key={subtask.id}
-                      className={`subtask-item ${isExpanded ? 'expanded' : ''}`}
-                      onClick={() => toggleSubtask(subtask.id)}
-                    >
-                      <div className="subtask-header">
-                        <span className="subtask-index">{index + 1}</span>
-                        <span className="subtask-status" style={{ color: statusStyle.color }}>
-                          {statusStyle.icon}
-                        </span>
-                        <span className="subtask-title">{subtask.title}</span>
-                        <span className="subtask-priority"
-                          style={{
-                            color: subtask.priority === 'high' ? '#f87171' : 
-                                   subtask.priority === 'medium' ? '#fbbf24' : '#4ade80'
-                          }}
-                        >
-                          {subtask.priority === 'high' && '高'}
-                          {subtask.priority === 'medium' && '中'}
-                          {subtask.priority === 'low' && '低'}
-                        </span>
-                        <span className={`expand-icon ${isExpanded ? 'expanded' : ''}`}>
-                          ▶
-                        </span>
-                      </div>
-                      
-                      {isExpanded && (
-                        <div className="subtask-details">
-                          <p>{subtask.description}</p>
-                          <div className="subtask-meta">
-                            <span>⏱️ 预计 {formatTime(subtask.estimatedMinutes)}</span>
-                            {subtask.dependencies.length > 0 && (
-                              <span>🔗 依赖: {subtask.dependencies.join(', ')}</span>
-                            )}
-                          </div>                          
-                          {resultSubtask?.result && (
-                            <div className="subtask-result">
-                              <h5>执行结果</h5>
-                              <pre>{resultSubtask.result}</pre>
-                            </div>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  );
-                })}
+              <div className="subtasks-section-header">
+                <h4>📋 子任务分解</h4>
+                {editable && (
+                  <button className="edit-plan-btn" onClick={() => setIsEditing(!isEditing)}>
+                    {isEditing ? '✓ 完成编辑' : '✏️ 编辑计划'}
+                  </button>
+                )}
               </div>
+              {editable && isEditing ? (
+                <PlanEditor analysis={analysis} />
+              ) : (
+                <div className="subtasks-list">
+                  {analysis.subtasks.map((subtask, index) => {
+                    const resultSubtask = taskResult?.subtasks.find(
+                      st => st.id === subtask.id
+                    );
+                    const currentStatus = resultSubtask?.status || subtask.status;
+                    const statusStyle = getStatusStyle(currentStatus);
+                    const isExpanded = expandedSubtasks.has(subtask.id);
+                    
+                    return (
+                      <div
+                        key={subtask.id}
+                        className={`subtask-item ${isExpanded ? 'expanded' : ''}`}
+                        onClick={() => toggleSubtask(subtask.id)}
+                      >
+                        <div className="subtask-header">
+                          <span className="subtask-index">{index + 1}</span>
+                          <span className="subtask-status" style={{ color: statusStyle.color }}>
+                            {statusStyle.icon}
+                          </span>
+                          <span className="subtask-title">{subtask.title}</span>
+                          <span className="subtask-priority"
+                            style={{
+                              color: subtask.priority === 'high' ? '#f87171' : 
+                                     subtask.priority === 'medium' ? '#fbbf24' : '#4ade80'
+                            }}
+                          >
+                            {subtask.priority === 'high' && '高'}
+                            {subtask.priority === 'medium' && '中'}
+                            {subtask.priority === 'low' && '低'}
+                          </span>
+                          <span className={`expand-icon ${isExpanded ? 'expanded' : ''}`}>
+                            ▶
+                          </span>
+                        </div>
+                        
+                        {isExpanded && (
+                          <div className="subtask-details">
+                            <p>{subtask.description}</p>
+                            <div className="subtask-meta">
+                              <span>⏱️ 预计 {formatTime(subtask.estimatedMinutes)}</span>
+                              {subtask.dependencies.length > 0 && (
+                                <span>🔗 依赖: {subtask.dependencies.join(', ')}</span>
+                              )}
+                            </div>                          
+                            {resultSubtask?.result && (
+                              <div className="subtask-result">
+                                <h5>执行结果</h5>
+                                <pre>{resultSubtask.result}</pre>
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {streaming && (
+                    <div className="subtask-item subtask-pending">⏳ 正在生成子任务...</div>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </>
@@ -230,6 +271,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
               {status === 'running' && '🔄 执行中...'}
               {status === 'completed' && '✅ 已完成'}
               {status === 'failed' && '❌ 执行失败'}
+              {status === 'cancelled' && '⏹️ 已取消'}
             </div>
           </div>
 
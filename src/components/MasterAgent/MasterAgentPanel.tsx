@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { useMasterStore, connectEventStream, getOverview, type SubAgent, type TaskAnalysis } from '../../store/masterStore';
+import { useMasterStore, connectEventStream, getOverview, getUsageSummary, type SubAgent, type TaskAnalysis, type UsageTotals } from '../../store/masterStore';
 import { TaskInput } from './TaskInput';
 import { AnalysisResult } from './AnalysisResult';
 import './MasterAgentPanel.css';
@@ -7,6 +7,7 @@ import './MasterAgentPanel.css';
 export const MasterAgentPanel: React.FC = () => {
   const {
     currentAnalysis,
+    analysisPreview,
     subAgents,
     taskResults,
     queueStatus,
@@ -27,6 +28,8 @@ export const MasterAgentPanel: React.FC = () => {
     failedTasks: 0
   });
 
+  const [usage, setUsage] = useState<{ currency: string; total: UsageTotals } | null>(null);
+
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
 
   // 连接SSE事件流
@@ -52,6 +55,12 @@ export const MasterAgentPanel: React.FC = () => {
 
   // 处理调度器事件
   const handleSchedulerEvent = (event: any) => {
+    // 用量实时更新
+    if (event.type === 'usage' && event.event?.data?.total) {
+      setUsage(prev => ({ currency: prev?.currency ?? 'USD', total: event.event.data.total }));
+      return;
+    }
+
     if (event.type === 'scheduler') {
       const { event: schedulerEvent } = event;
 
@@ -90,6 +99,31 @@ export const MasterAgentPanel: React.FC = () => {
             );
           }
           break;
+        case 'task_cancelled':
+          if (schedulerEvent.agentId) {
+            updateSubAgentStatus(schedulerEvent.agentId, 'idle');
+          }
+          // 暂停的子任务会重新排队，取消和超时才更新状态
+          if (schedulerEvent.taskId && schedulerEvent.subTaskId && schedulerEvent.data?.reason !== 'paused') {
+            updateSubtaskStatus(schedulerEvent.taskId, schedulerEvent.subTaskId, 'cancelled');
+          }
+          break;
+        case 'approval_required':
+          if (schedulerEvent.taskId && schedulerEvent.subTaskId) {
+            updateSubtaskStatus(schedulerEvent.taskId, schedulerEvent.subTaskId, 'awaiting_approval');
+          }
+          break;
+        case 'approval_resolved':
+          if (schedulerEvent.taskId && schedulerEvent.subTaskId && schedulerEvent.data?.status) {
+            updateSubtaskStatus(schedulerEvent.taskId, schedulerEvent.subTaskId, schedulerEvent.data.status);
+          }
+          break;
+        case 'dependency_deadlock':
+          if (schedulerEvent.data?.blocked) {
+            const titles = schedulerEvent.data.blocked.map((st: { id: string; title?: string }) => st.title || st.id);
+            setError(`依赖的子任务失败，${titles.length} 个子任务无法执行：${titles.join('、')}，请在异常处理中选择重试或跳过`);
+          }
+          break;
         case 'queue_updated':
           if (schedulerEvent.data?.queueStatus) {
             setQueueStatus(schedulerEvent.data.queueStatus);
@@ -105,6 +139,7 @@ export const MasterAgentPanel: React.FC = () => {
       const data = await getOverview();
       setOverview(data.master);
       setQueueStatus(data.queue);
+      setUsage(await getUsageSummary());
     } catch (err) {
       // 静默失败
     }
@@ -154,6 +189,18 @@ export const MasterAgentPanel: React.FC = () => {
             <span className="stat-label">已完成</span>
             <span className="stat-value success">{overview.completedTasks}</span>
           </div>
+          {usage && (
+            <div
+              className="stat-item"
+              title={`输入 ${usage.total.promptTokens} / 输出 ${usage.total.completionTokens} Token，共 ${usage.total.calls} 次调用`}
+            >
+              <span className="stat-label">费用</span>
+              <span className="stat-value">
+                {usage.total.cost.toFixed(4)} {usage.currency}
+              </span>
+              <span className="stat-label">{usage.total.totalTokens.toLocaleString()} tokens</span>
+            </div>
+          )}
           {overview.failedTasks > 0 && (
             <div className="stat-item">
               <span className="stat-label">失败</span>
@@ -181,7 +228,22 @@ export const MasterAgentPanel: React.FC = () => {
             isExecuting={isExecuting}
           />
 
-          {currentAnalysis && (
+          {analysisPreview ? (
+            <AnalysisResult
+              analysis={{
+                id: analysisPreview.analysisId || '',
+                originalTask: analysisPreview.originalTask,
+                complexity: 'medium',
+                estimatedTime: 0,
+                reasoning: analysisPreview.reasoning,
+                subtasks: analysisPreview.subtasks,
+                requiredSkills: [],
+                recommendedAgents: 0
+              }}
+              taskResult={null}
+              streaming
+            />
+          ) : currentAnalysis && (
             <AnalysisResult
               analysis={currentAnalysis}
               taskResult={currentTaskResult}
@@ -264,6 +326,7 @@ export const MasterAgentPanel: React.FC = () => {
                       {result.status === 'running' && '🔄'}
                       {result.status === 'completed' && '✅'}
                       {result.status === 'failed' && '❌'}
+                      {result.status === 'cancelled' && '⏹️'}
                     </span>
                   </div>
                 ))}
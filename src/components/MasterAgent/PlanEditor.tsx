@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import {
+  useMasterStore,
+  getPlan,
+  addSubtask,
+  updateSubtask,
+  removeSubtask,
+  reorderSubtasks,
+  reanalyzeSubtask,
+  type PlanResponse,
+  type PlanValidation,
+  type Subtask,
+  type SubtaskEdit,
+  type TaskAnalysis
+} from '../../store/masterStore';
+import './PlanEditor.css';
+
+interface PlanEditorProps {
+  analysis: TaskAnalysis;
+}
+
+const PRIORITY_OPTIONS: Array<{ value: Subtask['priority']; label: string }> = [
+  { value: 'high', label: '高' },
+  { value: 'medium', label: '中' },
+  { value: 'low', label: '低' }
+];
+
+export const PlanEditor: React.FC<PlanEditorProps> = ({ analysis }) => {
+  const setAnalysis = useMasterStore(state => state.setAnalysis);
+  const [validation, setValidation] = useState<PlanValidation | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+
+  // 加载校验结果
+  useEffect(() => {
+    getPlan(analysis.id)
+      .then(({ validation }) => setValidation(validation))
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [analysis.id]);
+
+  // 执行编辑操作并同步计划
+  const run = async (key: string, action: () => Promise<PlanResponse>) => {
+    setBusyKey(key);
+    setError(null);
+    try {
+      const result = await action();
+      setAnalysis(result.analysis);
+      setValidation(result.validation);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleUpdate = (subtask: Subtask, edit: SubtaskEdit) =>
+    run(subtask.id, () => updateSubtask(analysis.id, subtask.id, edit));
+
+  // 上移/下移
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= analysis.subtasks.length) return;
+    const ids = analysis.subtasks.map(st => st.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    run('order', () => reorderSubtasks(analysis.id, ids));
+  };
+
+  const handleToggleDependency = (subtask: Subtask, depId: string) => {
+    const dependencies = subtask.dependencies.includes(depId)
+      ? subtask.dependencies.filter(dep => dep !== depId)
+      : [...subtask.dependencies, depId];
+    handleUpdate(subtask, { dependencies });
+  };
+
+  const handleReanalyze = (subtask: Subtask) => {
+    const instructions = window.prompt(`重新分析「${subtask.title}」的修改意见（可留空）`);
+    if (instructions === null) return;
+    run(subtask.id, () => reanalyzeSubtask(analysis.id, subtask.id, instructions || undefined));
+  };
+
+  const handleAdd = () => {
+    const title = newTitle.trim();
+    if (!title) return;
+    run('add', () => addSubtask(analysis.id, { title })).then(() => setNewTitle(''));
+  };
+
+  const issuesFor = (subtaskId: string) =>
+    validation?.issues.filter(issue => issue.subTaskId === subtaskId || issue.cycle?.includes(subtaskId)) || [];
+
+  return (
+    <div className="plan-editor">
+      {/* 校验结果 */}
+      {validation && (
+        <div className={`plan-validation ${validation.valid ? 'valid' : 'invalid'}`}>
+          {validation.valid ? (
+            <span>✅ 计划有效，可以执行</span>
+          ) : (
+            <>
+              <span>⚠️ 计划存在 {validation.issues.length} 个问题，修正后才能执行</span>
+              <ul>
+                {validation.issues.map((issue, idx) => (
+                  <li key={idx}>{issue.message}</li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      {error && <div className="plan-error">❌ {error}</div>}
+
+      <div className="plan-subtasks">
+        {analysis.subtasks.map((subtask, index) => {
+          const busy = busyKey === subtask.id;
+          const hasIssue = issuesFor(subtask.id).length > 0;
+
+          return (
+            <div key={subtask.id} className={`plan-subtask ${hasIssue ? 'has-issue' : ''} ${busy ? 'busy' : ''}`}>
+              <div className="plan-subtask-header">
+                <span className="plan-subtask-index">{index + 1}</span>
+                <input
+                  key={`title-${subtask.title}`}
+                  className="plan-title-input"
+                  defaultValue={subtask.title}
+                  onBlur={e => {
+                    const title = e.target.value.trim();
+                    if (title && title !== subtask.title) handleUpdate(subtask, { title });
+                  }}
+                />
+                <select
+                  value={subtask.priority}
+                  onChange={e => handleUpdate(subtask, { priority: e.target.value as Subtask['priority'] })}
+                >
+                  {PRIORITY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <div className="plan-subtask-actions">
+                  <button title="上移" disabled={index === 0 || !!busyKey} onClick={() => handleMove(index, -1)}>↑</button>
+                  <button
+                    title="下移"
+                    disabled={index === analysis.subtasks.length - 1 || !!busyKey}
+                    onClick={() => handleMove(index, 1)}
+                  >
+                    ↓
+                  </button>
+                  <button title="重新分析" disabled={!!busyKey} onClick={() => handleReanalyze(subtask)}>
+                    {busy ? '⏳' : '🔄'}
+                  </button>
+                  <button
+                    title="删除"
+                    className="danger"
+                    disabled={!!busyKey}
+                    onClick={() => run(subtask.id, () => removeSubtask(analysis.id, subtask.id))}
+                  >
+                    🗑️
+                  </button>
+                </div>
+              </div>
+
+              <textarea
+                key={`desc-${subtask.description}`}
+                className="plan-description-input"
+                defaultValue={subtask.description}
+                rows={2}
+                placeholder="子任务描述"
+                onBlur={e => {
+                  if (e.target.value !== subtask.description) handleUpdate(subtask, { description: e.target.value });
+                }}
+              />
+
+              <div className="plan-subtask-fields">
+                <label>
+                  🛠️ 技能
+                  <input
+                    key={`skills-${subtask.requiredSkills.join(',')}`}
+                    defaultValue={subtask.requiredSkills.join(', ')}
+                    placeholder="逗号分隔"
+                    onBlur={e => {
+                      const requiredSkills = e.target.value.split(/[,，]/).map(s => s.trim()).filter(Boolean);
+                      if (requiredSkills.join(',') !== subtask.requiredSkills.join(',')) {
+                        handleUpdate(subtask, { requiredSkills });
+                      }
+                    }}
+                  />
+                </label>
+                <label className="plan-approval-toggle">
+                  <input
+                    type="checkbox"
+                    checked={subtask.requiresApproval === true}
+                    onChange={e => handleUpdate(subtask, { requiresApproval: e.target.checked })}
+                  />
+                  需要审批
+                </label>
+              </div>
+
+              {analysis.subtasks.length > 1 && (
+                <div className="plan-dependencies">
+                  <span className="plan-label">🔗 依赖</span>
+                  {analysis.subtasks
+                    .filter(other => other.id !== subtask.id)
+                    .map(other => (
+                      <label key={other.id} className="plan-dependency">
+                        <input
+                          type="checkbox"
+                          checked={subtask.dependencies.includes(other.id)}
+                          onChange={() => handleToggleDependency(subtask, other.id)}
+                        />
+                        {analysis.subtasks.indexOf(other) + 1}. {other.title}
+                      </label>
+                    ))}
+                  {subtask.dependencies
+                    .filter(dep => !analysis.subtasks.some(st => st.id === dep))
+                    .map(dep => (
+                      <label key={dep} className="plan-dependency dangling">
+                        <input type="checkbox" checked onChange={() => handleToggleDependency(subtask, dep)} />
+                        {dep}（不存在）
+                      </label>
+                    ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* 添加子任务 */}
+      <div className="plan-add">
+        <input
+          value={newTitle}
+          placeholder="新子任务标题"
+          onChange={e => setNewTitle(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAdd()}
+        />
+        <button disabled={!newTitle.trim() || !!busyKey} onClick={handleAdd}>➕ 添加</button>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,12 @@
 import React from 'react';
-import type { Subtask } from '../../store/masterStore';
+import type { Subtask, ApprovalDecision } from '../../store/masterStore';
 import './ProgressTimeline.css';
 
 interface ProgressTimelineProps {
   subtasks: Subtask[];
   startTime?: number;
   currentTime?: number;
+  onApprovalDecision?: (subtask: Subtask, decision: ApprovalDecision) => void;
 }
 
 interface TimelineEvent {
@@ -20,7 +21,8 @@ interface TimelineEvent {
 export const ProgressTimeline: React.FC<ProgressTimelineProps> = ({ 
   subtasks, 
   startTime = Date.now(),
-  currentTime = Date.now()
+  currentTime = Date.now(),
+  onApprovalDecision
 }) => {
   void currentTime; // 标记为有意使用
   // 构建时间线事件
@@ -40,6 +42,7 @@ export const ProgressTimeline: React.FC<ProgressTimelineProps> = ({
   const completedCount = subtasks.filter(st => st.status === 'completed').length;
   const failedCount = subtasks.filter(st => st.status === 'failed').length;
   const runningCount = subtasks.filter(st => st.status === 'running').length;
+  const awaitingCount = subtasks.filter(st => st.status === 'awaiting_approval').length;
   const totalProgress = subtasks.length > 0 
     ? Math.round((completedCount / subtasks.length) * 100) 
     : 0;
@@ -53,6 +56,10 @@ export const ProgressTimeline: React.FC<ProgressTimelineProps> = ({
         return { color: '#f87171', icon: '✕', label: '失败' };
       case 'running':
         return { color: '#60a5fa', icon: '◐', label: '进行中' };
+      case 'awaiting_approval':
+        return { color: '#f59e0b', icon: '⏸', label: '待审批' };
+      case 'cancelled':
+        return { color: '#94a3b8', icon: '■', label: '已取消' };
       default:
         return { color: '#9ca3af', icon: '○', label: '待处理' };
     }
@@ -75,6 +82,9 @@ export const ProgressTimeline: React.FC<ProgressTimelineProps> = ({
           <div className="timeline-stats">
             <span className="stat completed">{completedCount} 完成</span>
             <span className="stat running">{runningCount} 进行中</span>
+            {awaitingCount > 0 && (
+              <span className="stat awaiting">{awaitingCount} 待审批</span>
+            )}
             <span className="stat failed">{failedCount} 失败</span>
             <span className="stat total">{subtasks.length} 总计</span>
           </div>
@@ -149,6 +159,23 @@ export const ProgressTimeline: React.FC<ProgressTimelineProps> = ({
                       #{index + 1}
                     </span>
                   </div>
+
+                  {event.status === 'awaiting_approval' && onApprovalDecision && (
+                    <div className="event-approval">
+                      <button
+                        className="approval-btn approve"
+                        onClick={() => onApprovalDecision(subtasks[index], 'approve')}
+                      >
+                        ✓ 批准
+                      </button>
+                      <button
+                        className="approval-btn reject"
+                        onClick={() => onApprovalDecision(subtasks[index], 'reject')}
+                      >
+                        ✕ 拒绝
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             );
@@ -23,6 +23,11 @@ interface ResultViewProps {
     successRate: number;
     totalDurationMs: number;
     averageSubTaskDurationMs: number;
+    usage?: {
+      totalTokens: number;
+      cost: number;
+      currency: string;
+    };
   };
   onExport?: (format: 'markdown' | 'html' | 'json') => void;
   onClose?: () => void;
@@ -170,6 +175,13 @@ export const ResultView: React.FC<ResultViewProps> = ({
                 <span className="metric-value">{formatDuration(metrics.totalDurationMs)}</span>
                 <span className="metric-label">总耗时</span>
               </div>
+
+              {metrics.usage && (
+                <div className="metric-card" title={`${metrics.usage.totalTokens.toLocaleString()} tokens`}>
+                  <span className="metric-value">{metrics.usage.cost.toFixed(4)} {metrics.usage.currency}</span>
+                  <span className="metric-label">费用</span>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -1,13 +1,15 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import {
   useMasterStore,
-  analyzeTask,
+  streamAnalyzeTask,
   createSubAgentTeam,
   assignTask,
   executeTask,
   type SubAgent,
   type TaskAnalysis
 } from '../../store/masterStore';
+import type { Attachment } from '../../types';
+import { AttachmentPicker } from '../AttachmentPicker';
 import './TaskInput.css';
 
 interface TaskInputProps {
@@ -37,9 +39,16 @@ export const TaskInput: React.FC<TaskInputProps> = ({
   const [mode, setMode] = useState<'analyze' | 'execute'>('analyze');
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [agentNames, setAgentNames] = useState('');
+  // 随任务上传的图片，分析和执行子任务时都会附带
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // 进行中的流式分析，用于取消
+  const analyzeControllerRef = useRef<AbortController | null>(null);
 
   const {
     setAnalysis,
+    startAnalysisPreview,
+    applyAnalysisEvent,
+    clearAnalysisPreview,
     setSubAgents,
     setTaskResult,
     setAnalyzing,
@@ -68,10 +77,22 @@ export const TaskInput: React.FC<TaskInputProps> = ({
 
     setError(null);
     setAnalyzing(true);
+    startAnalysisPreview(task);
+
+    const controller = new AbortController();
+    analyzeControllerRef.current = controller;
 
     try {
-      const analysis = await analyzeTask(task, context || undefined);
+      // 子任务边生成边显示在预览中，完成后替换为校验后的完整计划
+      const analysis = await streamAnalyzeTask(
+        task,
+        context || undefined,
+        attachments.length > 0 ? attachments : undefined,
+        applyAnalysisEvent,
+        controller.signal
+      );
       setAnalysis(analysis);
+      clearAnalysisPreview();
 
       // 创建子Agent团队
       const names = agentNames
@@ -84,6 +105,9 @@ export const TaskInput: React.FC<TaskInputProps> = ({
 
       onAnalysisComplete(analysis, team);
     } catch (err) {
+      clearAnalysisPreview();
+      if (controller.signal.aborted) return;
+
       // 详细错误处理
       let errorMessage = '分析失败';
       if (err instanceof Error) {
@@ -95,9 +119,15 @@ export const TaskInput: React.FC<TaskInputProps> = ({
       }
       setError(errorMessage);
     } finally {
+      analyzeControllerRef.current = null;
       setAnalyzing(false);
     }
-  }, [task, context, agentNames, setError, setAnalyzing, setAnalysis, setSubAgents, onAnalysisComplete]);
+  }, [task, context, attachments, agentNames, setError, setAnalyzing, setAnalysis, startAnalysisPreview, applyAnalysisEvent, clearAnalysisPreview, setSubAgents, onAnalysisComplete]);
+
+  // 取消进行中的分析
+  const handleCancelAnalyze = useCallback(() => {
+    analyzeControllerRef.current?.abort();
+  }, []);
 
   // 处理执行
   const handleExecute = useCallback(async () => {
@@ -115,7 +145,12 @@ export const TaskInput: React.FC<TaskInputProps> = ({
         .map(n => sanitizeInput(n.trim()))
         .filter(n => n.length > 0);
 
-      const result = await executeTask(task, context || undefined, names.length > 0 ? names : undefined);
+      const result = await executeTask(
+        task,
+        context || undefined,
+        names.length > 0 ? names : undefined,
+        attachments.length > 0 ? attachments : undefined
+      );
       
       // 使用后端返回的完整分析结果
       const analysis: TaskAnalysis = {
@@ -156,7 +191,7 @@ export const TaskInput: React.FC<TaskInputProps> = ({
     } finally {
       setExecuting(false);
     }
-  }, [task, context, agentNames, setError, setExecuting, setAnalysis, setSubAgents, setTaskResult, onAnalysisComplete]);
+  }, [task, context, attachments, agentNames, setError, setExecuting, setAnalysis, setSubAgents, setTaskResult, onAnalysisComplete]);
 
   // 开始执行已分析的任务
   const handleStartExecution = useCallback(async () => {
@@ -217,6 +252,12 @@ export const TaskInput: React.FC<TaskInputProps> = ({
           rows={5}
           disabled={isLoading}
         />
+        <AttachmentPicker
+          attachments={attachments}
+          onChange={setAttachments}
+          onError={setError}
+          disabled={isLoading}
+        />
       </div>
 
       {/* 上下文输入 */}
@@ -270,6 +311,12 @@ export const TaskInput: React.FC<TaskInputProps> = ({
                 <>🔍 分析任务</>
               )}
             </button>
+
+            {isAnalyzing && (
+              <button className="btn-secondary" onClick={handleCancelAnalyze}>
+                ⏹️ 取消分析
+              </button>
+            )}
             
             {currentAnalysis && (
               <button
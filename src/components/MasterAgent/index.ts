@@ -6,3 +6,4 @@ export { AgentTeamGrid } from './AgentTeamGrid';
 export { ProgressTimeline } from './ProgressTimeline';
 export { RealtimeLog, type LogEntry } from './RealtimeLog';
 export { ResultView } from './ResultView';
+export { PlanEditor } from './PlanEditor';
@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { apiClient } from '../api/apiClient';
 import { APIKeyInput } from './APIKeyInput';
-import { ModelSelector } from './ModelSelector';
-import type { ModelConfig } from '../types';
+import { ModelSelector, ModelSearchSelect } from './ModelSelector';
+import type { ModelConfig, ModelInfo } from '../types';
 import './ModelConfigModal.css';
 
 interface ModelConfigModalProps {
@@ -28,6 +28,12 @@ export const ModelConfigModal: React.FC<ModelConfigModalProps> = ({
   const [maxTokens, setMaxTokens] = useState(2000);
   const [isTesting, setIsTesting] = useState(false);
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [discoveredModels, setDiscoveredModels] = useState<ModelInfo[]>([]);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [discoverError, setDiscoverError] = useState<string | null>(null);
+
+  // 本地模型服务不需要 API Key
+  const requiresApiKey = !!selectedPreset && !['ollama', 'mock'].includes(selectedPreset.provider);
 
   useEffect(() => {
     if (selectedPreset) {
@@ -35,6 +41,8 @@ export const ModelConfigModal: React.FC<ModelConfigModalProps> = ({
       setModel(selectedPreset.model);
       setTemperature(selectedPreset.temperature ?? 0.7);
       setMaxTokens(selectedPreset.maxTokens ?? 2000);
+      setDiscoveredModels([]);
+      setDiscoverError(null);
     }
   }, [selectedPreset]);
 
@@ -69,6 +77,26 @@ export const ModelConfigModal: React.FC<ModelConfigModalProps> = ({
     }
   };
 
+  const handleDiscoverModels = async () => {
+    if (!selectedPreset) return;
+
+    setIsDiscovering(true);
+    setDiscoverError(null);
+
+    try {
+      // 已有列表时再次点击视为刷新，跳过服务端缓存
+      const result = await apiClient.discoverModels({ ...selectedPreset, baseUrl, apiKey }, discoveredModels.length > 0);
+      setDiscoveredModels(result.models);
+      if (result.models.length === 0) {
+        setDiscoverError('供应商没有返回可用模型');
+      }
+    } catch (error) {
+      setDiscoverError(error instanceof Error ? error.message : '获取模型列表失败');
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
   const handleSave = () => {
     if (!selectedPreset || !agentName.trim()) return;
 
@@ -97,6 +125,8 @@ export const ModelConfigModal: React.FC<ModelConfigModalProps> = ({
     setTemperature(0.7);
     setMaxTokens(2000);
     setTestResult(null);
+    setDiscoveredModels([]);
+    setDiscoverError(null);
   };
 
   const handleClose = () => {
@@ -158,10 +188,14 @@ export const ModelConfigModal: React.FC<ModelConfigModalProps> = ({
 
               <div className="form-group">
                 <label>模型名称</label>
-                <input
-                  type="text"
+                <ModelSearchSelect
                   value={model}
-                  onChange={(e) => setModel(e.target.value)}
+                  onChange={setModel}
+                  models={discoveredModels}
+                  loading={isDiscovering}
+                  error={discoverError}
+                  onRefresh={handleDiscoverModels}
+                  refreshDisabled={requiresApiKey && !apiKey.trim()}
                   placeholder="gpt-4o-mini"
                 />
               </div>
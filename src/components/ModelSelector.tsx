@@ -1,5 +1,5 @@
-import React from 'react';
-import type { ModelConfig } from '../types';
+import React, { useMemo, useState } from 'react';
+import type { ModelConfig, ModelInfo } from '../types';
 import './ModelSelector.css';
 
 interface ModelSelectorProps {
@@ -75,3 +75,141 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
     </div>
   );
 };
+
+interface ModelSearchSelectProps {
+  value: string;
+  onChange: (model: string) => void;
+  models: ModelInfo[];
+  loading?: boolean;
+  error?: string | null;
+  onRefresh?: () => void;
+  refreshDisabled?: boolean;
+  placeholder?: string;
+}
+
+/**
+ * 上下文窗口的简写（131072 → 128K，1047576 → 1.0M）
+ */
+function formatContextWindow(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  return tokens % 1024 === 0 ? `${tokens / 1024}K` : `${Math.round(tokens / 1000)}K`;
+}
+
+/**
+ * 可搜索的模型下拉框：从供应商获取的模型中选择，也可直接输入模型名称
+ */
+export const ModelSearchSelect: React.FC<ModelSearchSelectProps> = ({
+  value,
+  onChange,
+  models,
+  loading = false,
+  error,
+  onRefresh,
+  refreshDisabled = false,
+  placeholder
+}) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [highlight, setHighlight] = useState(0);
+
+  const filtered = useMemo(() => {
+    const keyword = query.trim().toLowerCase();
+    if (!keyword) return models;
+    return models.filter(model =>
+      model.id.toLowerCase().includes(keyword) || model.name.toLowerCase().includes(keyword)
+    );
+  }, [models, query]);
+
+  const selectModel = (model: ModelInfo) => {
+    onChange(model.id);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || filtered.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlight(index => (index + 1) % filtered.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlight(index => (index - 1 + filtered.length) % filtered.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      selectModel(filtered[Math.min(highlight, filtered.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="model-search-select">
+      <div className="model-search-row">
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setQuery(e.target.value);
+            setHighlight(0);
+            setOpen(true);
+          }}
+          onFocus={() => {
+            // 聚焦时展示全部模型，输入后再按关键字过滤
+            setQuery('');
+            setHighlight(0);
+            setOpen(true);
+          }}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+        />
+        {onRefresh && (
+          <button
+            type="button"
+            className="model-refresh-btn"
+            onClick={onRefresh}
+            disabled={loading || refreshDisabled}
+            title={models.length > 0 ? '重新获取模型列表' : '从供应商获取模型列表'}
+          >
+            {loading ? '⏳' : models.length > 0 ? '🔄' : '🔍 获取模型'}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="model-search-error">{error}</div>}
+
+      {open && models.length > 0 && (
+        <ul className="model-dropdown">
+          {filtered.length === 0 ? (
+            <li className="model-option-empty">没有匹配的模型，将使用输入的名称</li>
+          ) : (
+            filtered.map((model, index) => (
+              <li
+                key={model.id}
+                className={`model-option ${index === highlight ? 'highlighted' : ''} ${model.id === value ? 'selected' : ''}`}
+                // 使用 mousedown 并阻止默认行为，避免输入框先失焦关闭下拉框
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectModel(model);
+                }}
+                onMouseEnter={() => setHighlight(index)}
+              >
+                <span className="model-option-name" title={model.id}>{model.name}</span>
+                <span className="model-option-badges">
+                  {model.contextWindow ? (
+                    <span className="model-badge context" title={`上下文窗口 ${model.contextWindow} tokens`}>
+                      {formatContextWindow(model.contextWindow)}
+                    </span>
+                  ) : null}
+                  {model.capabilities.streaming && <span className="model-badge">流式</span>}
+                  {model.capabilities.tools && <span className="model-badge">工具</span>}
+                  {model.capabilities.vision && <span className="model-badge">视觉</span>}
+                </span>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useEffect } from 'react';
+import { useWorkspaceStore } from '../store/workspaceStore';
+import { useAuthStore } from '../store/authStore';
+import { DEFAULT_WORKSPACE_ID } from '../api/workspace';
+import './WorkspaceSwitcher.css';
+
+/**
+ * 工作区切换器 - 选择、新建、克隆和删除工作区
+ */
+export const WorkspaceSwitcher: React.FC = () => {
+  const { workspaces, currentId, fetchWorkspaces, createWorkspace, cloneWorkspace, deleteWorkspace, switchWorkspace } = useWorkspaceStore();
+  const { hasRole } = useAuthStore();
+  const current = workspaces.find(workspace => workspace.id === currentId);
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  const handleCreate = async () => {
+    const name = prompt('新工作区名称');
+    if (!name?.trim()) return;
+    try {
+      await createWorkspace(name.trim());
+    } catch (error) {
+      alert('创建工作区失败: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const handleClone = async () => {
+    const name = prompt('克隆后的工作区名称', `${current?.name || currentId} 副本`);
+    if (!name?.trim()) return;
+    try {
+      await cloneWorkspace(currentId, name.trim());
+    } catch (error) {
+      alert('克隆工作区失败: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`确定要删除工作区「${current?.name || currentId}」吗？其中的 Agent、任务和文件将被永久删除。`)) return;
+    try {
+      await deleteWorkspace(currentId);
+    } catch (error) {
+      alert('删除工作区失败: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  return (
+    <div className="workspace-switcher">
+      <select
+        value={currentId}
+        onChange={e => switchWorkspace(e.target.value)}
+        title="切换工作区"
+      >
+        {workspaces.map(workspace => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}（{workspace.agents} Agent / {workspace.tasks} 任务）
+          </option>
+        ))}
+      </select>
+      {hasRole('operator') && (
+        <>
+          <button className="workspace-btn" onClick={handleCreate} title="新建工作区">＋</button>
+          <button className="workspace-btn" onClick={handleClone} title="克隆当前工作区">⧉</button>
+        </>
+      )}
+      {hasRole('admin') && currentId !== DEFAULT_WORKSPACE_ID && (
+        <button className="workspace-btn danger" onClick={handleDelete} title="删除当前工作区">✕</button>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import type { ModelConfig, AgentInstance } from '../types';
+import type { ModelConfig, AgentInstance, Attachment, RecalledMemory } from '../types';
 import { apiClient } from '../api/apiClient';
 
 /**
@@ -38,21 +38,23 @@ export class AgentService {
   }
 
   /**
-   * 发送消息给指定 Agent
+   * 发送消息给指定 Agent（可附带图片和文件）
    */
   static async sendMessage(
     agentId: string,
     message: string,
-    onChunk: (chunk: { content?: string }) => void,
+    onChunk: (chunk: { content?: string; error?: string; memories?: RecalledMemory[] }) => void,
     onComplete: () => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    attachments?: Attachment[]
   ): Promise<() => void> {
     return apiClient.sendMessage(
       agentId,
       message,
       onChunk,
       onComplete,
-      onError
+      onError,
+      attachments
     );
   }
 
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import type { AgentState, AgentConfig, ModelConfig, AgentInstance } from '../types';
+import type { AgentState, AgentConfig, ModelConfig, AgentInstance, Attachment, RecalledMemory } from '../types';
 import { AgentService } from '../services/AgentService';
 import { WebSocketService } from '../services/WebSocketService';
 
@@ -25,6 +25,7 @@ export interface Agent {
   color: string;
   modelConfig?: ModelConfig;
   isTyping?: boolean;
+  recalledMemories?: RecalledMemory[];  // 最近一次对话注入的记忆
 }
 
 export interface AgentStore {
@@ -53,6 +54,7 @@ export interface AgentStore {
   updateAgentPosition: (id: string, position: { x: number; y: number }) => void;
   updateAgentMessage: (id: string, message: string, append?: boolean) => void;
   setAgentTyping: (id: string, isTyping: boolean) => void;
+  setAgentMemories: (id: string, memories: RecalledMemory[]) => void;
   selectAgent: (id: string | null) => void;
   setViewport: (viewport: Partial<{ x: number; y: number; zoom: number }>) => void;
   setConnectionStatus: (isConnected: boolean) => void;
@@ -62,7 +64,7 @@ export interface AgentStore {
   syncWithServer: () => Promise<void>;
   createServerAgent: (name: string, modelConfig: ModelConfig) => Promise<void>;
   deleteServerAgent: (id: string) => Promise<void>;
-  sendMessageToAgent: (agentId: string, message: string) => Promise<void>;
+  sendMessageToAgent: (agentId: string, message: string, attachments?: Attachment[]) => Promise<void>;
   sendMessageBetweenAgents: (fromId: string, toId: string, message: string) => Promise<void>;
   
   // Actions - 演示模式
@@ -210,6 +212,14 @@ export const useAgentStore = create<AgentStore>((set, get) => ({
     }));
   },
 
+  setAgentMemories: (id, memories) => {
+    set((state) => ({
+      agents: state.agents.map(agent => 
+        agent.id === id ? { ...agent, recalledMemories: memories } : agent
+      )
+    }));
+  },
+
   selectAgent: (id) => {
     set({ selectedAgentId: id });
   },
@@ -292,15 +302,20 @@ export const useAgentStore = create<AgentStore>((set, get) => ({
     }
   },
 
-  sendMessageToAgent: async (agentId, message) => {
-    const { updateAgentMessage } = get();
+  sendMessageToAgent: async (agentId, message, attachments) => {
+    const { updateAgentMessage, setAgentMemories } = get();
+    setAgentMemories(agentId, []);
     
     try {
       await AgentService.sendMessage(
         agentId,
         message,
         (chunk) => {
-          if (chunk.content) {
+          if (chunk.memories) {
+            setAgentMemories(agentId, chunk.memories);
+          } else if (chunk.error) {
+            updateAgentMessage(agentId, `❌ ${chunk.error}`);
+          } else if (chunk.content) {
             updateAgentMessage(agentId, chunk.content, true);
           }
         },
@@ -309,7 +324,8 @@ export const useAgentStore = create<AgentStore>((set, get) => ({
         },
         (error) => {
           console.error('Message error:', error);
-        }
+        },
+        attachments
       );
     } catch (error) {
       console.error('Failed to send message:', error);
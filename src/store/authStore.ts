@@ -0,0 +1,97 @@
+import { create } from 'zustand';
+import { authFetch, setAuthToken, onUnauthorized } from '../api/auth';
+
+// 角色
+export type Role = 'viewer' | 'operator' | 'admin';
+
+// 当前用户
+export interface AuthUser {
+  kind: 'session' | 'token' | 'anonymous';
+  name: string;
+  role: Role;
+}
+
+// 登录状态
+export type AuthStatus = 'checking' | 'anonymous' | 'authenticated';
+
+interface AuthState {
+  status: AuthStatus;
+  user: AuthUser | null;
+  authEnabled: boolean;
+  error: string | null;
+}
+
+interface AuthActions {
+  checkSession: () => Promise<void>;
+  login: (username: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+  hasRole: (role: Role) => boolean;
+}
+
+const API_BASE = '/api/auth';
+const ROLE_LEVEL: Record<Role, number> = { viewer: 0, operator: 1, admin: 2 };
+
+export const useAuthStore = create<AuthState & AuthActions>((set, get) => ({
+  status: 'checking',
+  user: null,
+  authEnabled: true,
+  error: null,
+
+  // 用已保存的令牌恢复会话（认证关闭时服务端返回匿名管理员）
+  checkSession: async () => {
+    try {
+      const response = await authFetch(`${API_BASE}/me`);
+      if (!response.ok) {
+        setAuthToken(null);
+        set({ status: 'anonymous', user: null });
+        return;
+      }
+      const data = await response.json();
+      set({ status: 'authenticated', user: data.user, authEnabled: data.authEnabled, error: null });
+    } catch (error) {
+      set({ status: 'anonymous', user: null, error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  login: async (username, password) => {
+    set({ error: null });
+    try {
+      const response = await fetch(`${API_BASE}/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        set({ error: data.error || '登录失败' });
+        return false;
+      }
+      setAuthToken(data.token);
+      await get().checkSession();
+      return get().status === 'authenticated';
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : String(error) });
+      return false;
+    }
+  },
+
+  logout: async () => {
+    try {
+      await authFetch(`${API_BASE}/logout`, { method: 'POST' });
+    } finally {
+      setAuthToken(null);
+      set({ status: 'anonymous', user: null });
+    }
+  },
+
+  hasRole: (role) => {
+    const { user } = get();
+    return !!user && ROLE_LEVEL[user.role] >= ROLE_LEVEL[role];
+  }
+}));
+
+// 会话过期或被注销时回到登录页
+onUnauthorized(() => {
+  setAuthToken(null);
+  useAuthStore.setState({ status: 'anonymous', user: null, error: '登录已失效，请重新登录' });
+});
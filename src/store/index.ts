@@ -1,2 +1,4 @@
 export { useAgentStore, type Agent } from './agentStore';
 export { useMasterStore, type TaskAnalysis, type Subtask, type SubAgent, type TaskResult } from './masterStore';
+export { useAuthStore, type AuthUser, type Role } from './authStore';
+export { useWorkspaceStore, type Workspace } from './workspaceStore';
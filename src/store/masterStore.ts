@@ -1,10 +1,16 @@
 import { create } from 'zustand';
+import type { Attachment } from '../types';
+import { authFetch, withAccessToken } from '../api/auth';
+import { withWorkspace } from '../api/workspace';
 
 // 任务复杂度
 export type Complexity = 'simple' | 'medium' | 'complex';
 
 // 子任务状态
-export type SubtaskStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type SubtaskStatus = 'pending' | 'awaiting_approval' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// 审批决定
+export type ApprovalDecision = 'approve' | 'reject' | 'edit';
 
 // 子任务
 export interface Subtask {
@@ -15,6 +21,14 @@ export interface Subtask {
   estimatedMinutes: number;
   dependencies: string[];
   requiredSkills: string[];
+  requiresApproval?: boolean;
+  approval?: {
+    requestedAt: number;
+    decision?: 'approved' | 'rejected';
+    decidedAt?: number;
+    decidedBy?: string;
+    notes?: string;
+  };
   status: SubtaskStatus;
   result?: string;
   assignedAgentId?: string;
@@ -32,6 +46,46 @@ export interface TaskAnalysis {
   subtasks: Subtask[];
   requiredSkills: string[];
   recommendedAgents: number;
+  warnings?: string[];
+}
+
+// 执行计划校验问题
+export interface PlanIssue {
+  type: 'empty_plan' | 'duplicate_id' | 'missing_title' | 'self_dependency' | 'dangling_dependency' | 'cycle';
+  subTaskId?: string;
+  message: string;
+  cycle?: string[];
+}
+
+export interface PlanValidation {
+  valid: boolean;
+  issues: PlanIssue[];
+}
+
+// 流式分析进度事件
+export type AnalysisStreamEvent =
+  | { type: 'started'; analysisId: string }
+  | { type: 'reasoning'; reasoning: string }
+  | { type: 'subtask'; index: number; subtask: Subtask };
+
+// 分析过程中逐步生成的计划预览
+export interface AnalysisPreview {
+  analysisId: string | null;
+  originalTask: string;
+  reasoning: string;
+  subtasks: Subtask[];
+}
+
+// 可编辑的子任务字段
+export type SubtaskEdit = Partial<Pick<
+  Subtask,
+  'title' | 'description' | 'priority' | 'estimatedMinutes' | 'dependencies' | 'requiredSkills' | 'requiresApproval'
+>>;
+
+// 计划编辑接口返回
+export interface PlanResponse {
+  analysis: TaskAnalysis;
+  validation: PlanValidation;
 }
 
 // 子Agent
@@ -48,7 +102,7 @@ export interface SubAgent {
 // 任务结果
 export interface TaskResult {
   taskId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   summary?: string;
   subtasks: Subtask[];
@@ -63,10 +117,21 @@ export interface QueueStatus {
   maxConcurrency: number;
 }
 
+// Token 用量汇总
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
 // 总指挥状态
 interface MasterState {
   // 当前分析
   currentAnalysis: TaskAnalysis | null;
+  // 流式分析中的计划预览
+  analysisPreview: AnalysisPreview | null;
   // 子Agent列表
   subAgents: SubAgent[];
   // 任务结果
@@ -84,6 +149,10 @@ interface MasterState {
 interface MasterActions {
   // 设置分析结果
   setAnalysis: (analysis: TaskAnalysis | null) => void;
+  // 开始、更新、清除流式分析预览
+  startAnalysisPreview: (originalTask: string) => void;
+  applyAnalysisEvent: (event: AnalysisStreamEvent) => void;
+  clearAnalysisPreview: () => void;
   // 设置子Agent
   setSubAgents: (agents: SubAgent[]) => void;
   // 更新子Agent状态
@@ -124,6 +193,7 @@ const API_BASE = '/api/master';
 export const useMasterStore = create<MasterState & MasterActions>((set, _get) => ({
   // 初始状态
   currentAnalysis: null,
+  analysisPreview: null,
   subAgents: [],
   taskResults: new Map(),
   queueStatus: { queued: 0, running: 0, maxConcurrency: 3 },
@@ -133,6 +203,28 @@ export const useMasterStore = create<MasterState & MasterActions>((set, _get) =>
 
   // Actions
   setAnalysis: (analysis) => set({ currentAnalysis: analysis }),
+
+  startAnalysisPreview: (originalTask) => set({
+    analysisPreview: { analysisId: null, originalTask, reasoning: '', subtasks: [] }
+  }),
+
+  applyAnalysisEvent: (event) => {
+    set((state) => {
+      const preview = state.analysisPreview;
+      if (!preview) return state;
+
+      switch (event.type) {
+        case 'started':
+          return { analysisPreview: { ...preview, analysisId: event.analysisId } };
+        case 'reasoning':
+          return { analysisPreview: { ...preview, reasoning: event.reasoning } };
+        case 'subtask':
+          return { analysisPreview: { ...preview, subtasks: [...preview.subtasks, event.subtask] } };
+      }
+    });
+  },
+
+  clearAnalysisPreview: () => set({ analysisPreview: null }),
   
   setSubAgents: (agents) => set({ subAgents: agents }),
   
@@ -187,6 +279,7 @@ export const useMasterStore = create<MasterState & MasterActions>((set, _get) =>
   
   clearState: () => set({
     currentAnalysis: null,
+    analysisPreview: null,
     subAgents: [],
     taskResults: new Map(),
     queueStatus: { queued: 0, running: 0, maxConcurrency: 3 },
@@ -224,7 +317,7 @@ function sanitizeInput(input: string): string {
 /**
  * 分析任务
  */
-export async function analyzeTask(task: string, context?: string): Promise<TaskAnalysis> {
+export async function analyzeTask(task: string, context?: string, attachments?: Attachment[]): Promise<TaskAnalysis> {
   // 清理输入
   const sanitizedTask = sanitizeInput(task);
   const sanitizedContext = context ? sanitizeInput(context) : undefined;
@@ -233,10 +326,10 @@ export async function analyzeTask(task: string, context?: string): Promise<TaskA
     throw new Error('任务描述不能为空或只包含特殊字符');
   }
   
-  const response = await fetch(`${API_BASE}/analyze`, {
+  const response = await authFetch(`${API_BASE}/analyze`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ task: sanitizedTask, context: sanitizedContext })
+    body: JSON.stringify({ task: sanitizedTask, context: sanitizedContext, attachments })
   });
 
   const data: AnalyzeResponse = await response.json();
@@ -248,6 +341,69 @@ export async function analyzeTask(task: string, context?: string): Promise<TaskA
   return data.analysis;
 }
 
+/**
+ * 流式分析任务：推理说明和子任务生成后立即回调，分析完成后返回完整结果
+ * 通过 signal 取消时服务端随连接断开停止分析
+ */
+export async function streamAnalyzeTask(
+  task: string,
+  context: string | undefined,
+  attachments: Attachment[] | undefined,
+  onEvent: (event: AnalysisStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<TaskAnalysis> {
+  const sanitizedTask = sanitizeInput(task);
+  const sanitizedContext = context ? sanitizeInput(context) : undefined;
+
+  if (!sanitizedTask) {
+    throw new Error('任务描述不能为空或只包含特殊字符');
+  }
+
+  const response = await authFetch(`${API_BASE}/analyze/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ task: sanitizedTask, context: sanitizedContext, attachments }),
+    signal
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || '任务分析失败');
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('Response body is null');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() || '';
+
+    for (const message of messages) {
+      if (!message.startsWith('data: ')) continue;
+
+      const data = JSON.parse(message.slice(6));
+      if (data.type === 'complete') {
+        return data.analysis as TaskAnalysis;
+      }
+      if (data.type === 'error') {
+        throw new Error(data.message || data.error || '任务分析失败');
+      }
+      onEvent(data as AnalysisStreamEvent);
+    }
+  }
+
+  throw new Error('分析连接意外中断');
+}
+
 /**
  * 创建子Agent团队
  */
@@ -255,7 +411,7 @@ export async function createSubAgentTeam(
   analysisId: string,
   agentNames?: string[]
 ): Promise<SubAgent[]> {
-  const response = await fetch(`${API_BASE}/create-team`, {
+  const response = await authFetch(`${API_BASE}/create-team`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ analysisId, agentNames })
@@ -274,7 +430,7 @@ export async function createSubAgentTeam(
  * 分配并执行任务
  */
 export async function assignTask(analysisId: string): Promise<void> {
-  const response = await fetch(`${API_BASE}/assign`, {
+  const response = await authFetch(`${API_BASE}/assign`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ analysisId })
@@ -282,7 +438,8 @@ export async function assignTask(analysisId: string): Promise<void> {
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.error || '任务分配失败');
+    const issues = (error.issues as PlanIssue[] | undefined)?.map(issue => issue.message).join('；');
+    throw new Error(issues ? `执行计划无效：${issues}` : error.error || '任务分配失败');
   }
 }
 
@@ -292,7 +449,8 @@ export async function assignTask(analysisId: string): Promise<void> {
 export async function executeTask(
   task: string,
   context?: string,
-  agentNames?: string[]
+  agentNames?: string[],
+  attachments?: Attachment[]
 ): Promise<{
   taskId: string;
   complexity: Complexity;
@@ -309,13 +467,14 @@ export async function executeTask(
     throw new Error('任务描述不能为空或只包含特殊字符');
   }
 
-  const response = await fetch(`${API_BASE}/execute`, {
+  const response = await authFetch(`${API_BASE}/execute`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ 
       task: sanitizedTask, 
       context: sanitizedContext, 
-      agentNames 
+      agentNames,
+      attachments
     })
   });
 
@@ -339,7 +498,7 @@ export async function executeTask(
  * 获取任务状态
  */
 export async function getTaskStatus(taskId: string): Promise<TaskResult> {
-  const response = await fetch(`${API_BASE}/status/${taskId}`);
+  const response = await authFetch(`${API_BASE}/status/${taskId}`);
   const data: TaskStatusResponse = await response.json();
   
   if (!response.ok || !data.success) {
@@ -353,7 +512,7 @@ export async function getTaskStatus(taskId: string): Promise<TaskResult> {
  * 获取任务结果
  */
 export async function getTaskResult(taskId: string): Promise<TaskResult> {
-  const response = await fetch(`${API_BASE}/result/${taskId}`);
+  const response = await authFetch(`${API_BASE}/result/${taskId}`);
   const data: { success: boolean; result: TaskResult } = await response.json();
   
   if (!response.ok || !data.success) {
@@ -367,7 +526,7 @@ export async function getTaskResult(taskId: string): Promise<TaskResult> {
  * 获取子Agent列表
  */
 export async function getSubAgents(): Promise<SubAgent[]> {
-  const response = await fetch(`${API_BASE}/agents`);
+  const response = await authFetch(`${API_BASE}/agents`);
   const data: { success: boolean; agents: SubAgent[] } = await response.json();
   
   if (!response.ok || !data.success) {
@@ -381,7 +540,7 @@ export async function getSubAgents(): Promise<SubAgent[]> {
  * 删除子Agent
  */
 export async function removeSubAgent(agentId: string): Promise<void> {
-  const response = await fetch(`${API_BASE}/agents/${agentId}`, {
+  const response = await authFetch(`${API_BASE}/agents/${agentId}`, {
     method: 'DELETE'
   });
 
@@ -403,7 +562,7 @@ export async function getOverview(): Promise<{
   };
   queue: QueueStatus;
 }> {
-  const response = await fetch(`${API_BASE}/overview`);
+  const response = await authFetch(`${API_BASE}/overview`);
   const data = await response.json();
   
   if (!response.ok || !data.success) {
@@ -413,11 +572,126 @@ export async function getOverview(): Promise<{
   return data.overview;
 }
 
+/**
+ * 获取全局用量汇总
+ */
+export async function getUsageSummary(): Promise<{ currency: string; total: UsageTotals }> {
+  const response = await authFetch('/api/usage');
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || '获取用量失败');
+  }
+
+  return data.usage;
+}
+
+/**
+ * 审批子任务（approve 放行，edit 修改描述，reject 拒绝）
+ */
+export async function respondToApproval(
+  taskId: string,
+  subtaskId: string,
+  decision: ApprovalDecision,
+  edits: { title?: string; description?: string; notes?: string } = {}
+): Promise<Subtask> {
+  const response = await authFetch(`${API_BASE}/approvals/${taskId}/${subtaskId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ decision, decidedBy: 'operator', ...edits })
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || '审批失败');
+  }
+
+  return data.subtask;
+}
+
+// ========== 执行计划编辑 ==========
+
+/**
+ * 发送计划编辑请求
+ */
+async function requestPlan(path: string, init: RequestInit, fallbackError: string): Promise<PlanResponse> {
+  const response = await authFetch(`${API_BASE}/analysis/${path}`, {
+    ...init,
+    headers: init.body ? { 'Content-Type': 'application/json' } : undefined
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+
+  return { analysis: data.analysis, validation: data.validation };
+}
+
+/**
+ * 获取执行计划及校验结果
+ */
+export async function getPlan(analysisId: string): Promise<PlanResponse> {
+  return requestPlan(analysisId, { method: 'GET' }, '获取执行计划失败');
+}
+
+/**
+ * 添加子任务
+ */
+export async function addSubtask(
+  analysisId: string,
+  subtask: SubtaskEdit & { title: string },
+  index?: number
+): Promise<PlanResponse> {
+  return requestPlan(`${analysisId}/subtasks`, {
+    method: 'POST',
+    body: JSON.stringify({ ...subtask, index })
+  }, '添加子任务失败');
+}
+
+/**
+ * 修改子任务
+ */
+export async function updateSubtask(analysisId: string, subtaskId: string, edit: SubtaskEdit): Promise<PlanResponse> {
+  return requestPlan(`${analysisId}/subtasks/${subtaskId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(edit)
+  }, '修改子任务失败');
+}
+
+/**
+ * 删除子任务
+ */
+export async function removeSubtask(analysisId: string, subtaskId: string): Promise<PlanResponse> {
+  return requestPlan(`${analysisId}/subtasks/${subtaskId}`, { method: 'DELETE' }, '删除子任务失败');
+}
+
+/**
+ * 调整子任务顺序
+ */
+export async function reorderSubtasks(analysisId: string, subtaskIds: string[]): Promise<PlanResponse> {
+  return requestPlan(`${analysisId}/order`, {
+    method: 'PUT',
+    body: JSON.stringify({ subtaskIds })
+  }, '调整顺序失败');
+}
+
+/**
+ * 重新分析单个子任务
+ */
+export async function reanalyzeSubtask(analysisId: string, subtaskId: string, instructions?: string): Promise<PlanResponse> {
+  return requestPlan(`${analysisId}/subtasks/${subtaskId}/reanalyze`, {
+    method: 'POST',
+    body: JSON.stringify({ instructions })
+  }, '重新分析失败');
+}
+
 /**
  * 暂停任务
  */
 export async function pauseTask(taskId: string): Promise<void> {
-  const response = await fetch(`${API_BASE}/pause/${taskId}`, {
+  const response = await authFetch(`${API_BASE}/pause/${taskId}`, {
     method: 'POST'
   });
 
@@ -431,7 +705,7 @@ export async function pauseTask(taskId: string): Promise<void> {
  * 取消任务
  */
 export async function cancelTask(taskId: string): Promise<void> {
-  const response = await fetch(`${API_BASE}/cancel/${taskId}`, {
+  const response = await authFetch(`${API_BASE}/cancel/${taskId}`, {
     method: 'POST'
   });
 
@@ -448,7 +722,7 @@ export function connectEventStream(
   onEvent: (event: any) => void,
   onError?: (error: Event) => void
 ): () => void {
-  const eventSource = new EventSource(`${API_BASE}/stream`);
+  const eventSource = new EventSource(withWorkspace(withAccessToken(`${API_BASE}/stream`)));
 
   eventSource.onmessage = (event) => {
     try {
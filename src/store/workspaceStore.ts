@@ -0,0 +1,95 @@
+import { create } from 'zustand';
+import { authFetch } from '../api/auth';
+import { getWorkspaceId, setWorkspaceId, DEFAULT_WORKSPACE_ID } from '../api/workspace';
+
+// 工作区
+export interface Workspace {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: number;
+  createdBy?: string;
+  clonedFrom?: string;
+  agents: number;
+  tasks: number;
+  queued: number;
+  running: number;
+}
+
+interface WorkspaceState {
+  workspaces: Workspace[];
+  currentId: string;
+  error: string | null;
+}
+
+interface WorkspaceActions {
+  fetchWorkspaces: () => Promise<void>;
+  createWorkspace: (name: string) => Promise<void>;
+  cloneWorkspace: (sourceId: string, name: string) => Promise<void>;
+  deleteWorkspace: (id: string) => Promise<void>;
+  switchWorkspace: (id: string) => void;
+}
+
+const API_BASE = '/api/workspaces';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await authFetch(url, init);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}`);
+  }
+  return data;
+}
+
+export const useWorkspaceStore = create<WorkspaceState & WorkspaceActions>((set, get) => ({
+  workspaces: [],
+  currentId: getWorkspaceId(),
+  error: null,
+
+  // 获取工作区列表；保存的工作区已被删除时回到默认工作区
+  fetchWorkspaces: async () => {
+    try {
+      const data = await request<{ workspaces: Workspace[] }>(API_BASE);
+      set({ workspaces: data.workspaces, error: null });
+      if (!data.workspaces.some(workspace => workspace.id === get().currentId)) {
+        get().switchWorkspace(DEFAULT_WORKSPACE_ID);
+      }
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  createWorkspace: async (name) => {
+    const data = await request<{ workspace: Workspace }>(API_BASE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name })
+    });
+    get().switchWorkspace(data.workspace.id);
+  },
+
+  cloneWorkspace: async (sourceId, name) => {
+    const data = await request<{ workspace: Workspace }>(`${API_BASE}/${sourceId}/clone`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name })
+    });
+    get().switchWorkspace(data.workspace.id);
+  },
+
+  deleteWorkspace: async (id) => {
+    await request(`${API_BASE}/${id}`, { method: 'DELETE' });
+    if (id === get().currentId) {
+      get().switchWorkspace(DEFAULT_WORKSPACE_ID);
+    } else {
+      await get().fetchWorkspaces();
+    }
+  },
+
+  // 切换工作区后重新加载页面，所有 Store、SSE 和 WebSocket 连接都从新工作区重建
+  switchWorkspace: (id) => {
+    setWorkspaceId(id);
+    set({ currentId: id });
+    window.location.reload();
+  }
+}));
@@ -26,6 +26,43 @@ export interface AgentConfig {
   position: { x: number; y: number };
 }
 
+// 消息内容片段：文本、图片（base64 或 URL）、文件引用
+export interface TextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImagePart {
+  type: 'image';
+  mimeType?: string;  // base64 图片必填
+  data?: string;      // base64 内容（不含 data: 前缀），与 url 二选一
+  url?: string;
+}
+
+export interface FilePart {
+  type: 'file';
+  name: string;
+  mimeType: string;
+  data?: string;
+  url?: string;
+}
+
+export type ContentPart = TextPart | ImagePart | FilePart;
+
+// 随消息上传的附件
+export type Attachment = ImagePart | FilePart;
+
+// 纯文本或多模态片段数组
+export type MessageContent = string | ContentPart[];
+
+// 对话前从 Agent 记忆文件中检索并注入的记忆
+export interface RecalledMemory {
+  id: string;
+  source: 'memory' | 'workFile' | 'conversation';
+  content: string;
+  score: number;
+}
+
 // 消息类型
 export interface AgentMessage {
   id: string;
@@ -63,6 +100,19 @@ export interface ModelConfig {
   enabled: boolean;
 }
 
+// 供应商可用模型（/api/models/discover）
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextWindow?: number;
+  capabilities: {
+    streaming: boolean;
+    tools?: boolean;
+    vision?: boolean;
+  };
+  source: 'provider' | 'catalog';
+}
+
 // Agent实例（服务端）
 export interface AgentInstance {
   id: string;
@@ -73,7 +123,7 @@ export interface AgentInstance {
   lastActive: number;
   conversationHistory: Array<{
     role: 'system' | 'user' | 'assistant';
-    content: string;
+    content: MessageContent;
   }>;
 }
 